@@ -7,22 +7,31 @@
 
 /* eslint-disable @typescript-eslint/ban-types */
 
-type ExtensionPreferences = {}
+type ExtensionPreferences = {
+  /** Locale - Language for TownSpot listings and the extension interface (en-GB, es-ES, ca-ES) */
+  "locale": string,
+  /** Time Format - Show times on a 24-hour or 12-hour clock */
+  "clockFormat": "24h" | "12h",
+  /** API Environment - TownSpot server to use. Keep Production unless you are testing against a staging or local server */
+  "apiEnvironment": "prod" | "staging" | "local",
+  /** API Base URL - Overrides the environment's URL, e.g. http://localhost:8080/api. Leave empty to use the environment default */
+  "apiBaseUrl": string
+}
 
 /** Preferences accessible in all the extension's commands */
 declare type Preferences = ExtensionPreferences
 
 declare namespace Preferences {
   /** Preferences accessible in the `ask` command */
-  export type Ask = ExtensionPreferences & {
-  /** Locale - API locale (en-GB, es-ES, ca-ES) */
-  "locale": string
-}
+  export type Ask = ExtensionPreferences & {}
   /** Preferences accessible in the `ask-townspot-ai` command */
-  export type AskTownspotAi = ExtensionPreferences & {
-  /** Locale - API locale (en-GB, es-ES, ca-ES) */
-  "locale": string
-}
+  export type AskTownspotAi = ExtensionPreferences & {}
+  /** Preferences accessible in the `whats-on-now` command */
+  export type WhatsOnNow = ExtensionPreferences & {}
+  /** Preferences accessible in the `my-plans` command */
+  export type MyPlans = ExtensionPreferences & {}
+  /** Preferences accessible in the `hometown-updates` command */
+  export type HometownUpdates = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
@@ -33,5 +42,11 @@ declare namespace Arguments {
   /** Ask TownSpot AI */
   "prompt": string
 }
+  /** Arguments passed to the `whats-on-now` command */
+  export type WhatsOnNow = {}
+  /** Arguments passed to the `my-plans` command */
+  export type MyPlans = {}
+  /** Arguments passed to the `hometown-updates` command */
+  export type HometownUpdates = {}
 }
 
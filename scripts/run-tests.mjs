@@ -0,0 +1,42 @@
+// Bundles each test/*.test.ts with esbuild (swapping @raycast/api for an in-memory shim) and runs them with node:test.
+import { spawnSync } from "node:child_process";
+import { readdirSync, rmSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { build } from "esbuild";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const testDir = path.join(root, "test");
+const outdir = path.join(testDir, ".build");
+
+const filter = process.argv[2];
+const entryPoints = readdirSync(testDir)
+  .filter((name) => name.endsWith(".test.ts") && (!filter || name.includes(filter)))
+  .map((name) => path.join(testDir, name));
+
+if (!entryPoints.length) {
+  console.error(filter ? `No tests match "${filter}".` : "No tests found.");
+  process.exit(1);
+}
+
+rmSync(outdir, { recursive: true, force: true });
+await build({
+  entryPoints,
+  outdir,
+  bundle: true,
+  platform: "node",
+  target: "node18",
+  format: "cjs",
+  sourcemap: "inline",
+  logLevel: "warning",
+  alias: { "@raycast/api": path.join(testDir, "support", "raycast-api.ts") },
+});
+
+const outputs = entryPoints.map((entry) => path.join(outdir, path.basename(entry).replace(/\.ts$/, ".js")));
+const result = spawnSync(process.execPath, ["--enable-source-maps", "--test", ...outputs], {
+  cwd: root,
+  stdio: "inherit",
+  // A machine zone that matches none of the fixture towns, so anything reading local time shows up.
+  env: { ...process.env, TZ: "America/Los_Angeles" },
+});
+process.exit(result.status ?? 1);
@@ -5,28 +5,34 @@ import {
   Clipboard,
   Detail,
   Form,
-  getPreferenceValues,
   Icon,
   LaunchProps,
   showToast,
   Toast,
 } from "@raycast/api";
 import { useEffect, useMemo, useState } from "react";
+import { useEnvironmentSubtitle } from "./hooks/use-environment-subtitle";
+import { describeApiError } from "./lib/api-client";
+import { resolveApiEnvironment } from "./lib/api-environment";
+import {
+  buildCitationSummaryMarkdown,
+  CitationReport,
+  validateAnswerCitations,
+} from "./lib/citations";
+import { dateFormatPreferences, DEFAULT_TIMEZONE } from "./lib/date-format";
+import { getMessages, Messages, preferredLocale } from "./lib/i18n";
 import { askTownspot } from "./lib/townspot";
 import {
+  ActiveTown,
   buildTownspotAiPrompt,
   buildVerifiedEventsMarkdown,
+  conversationForApi,
+  ConversationTurn,
   resolveTownForPrompt,
 } from "./lib/townspot-ai";
 import { RaycastResponse } from "./types";
 
-const PROD_API_BASE_URL = "https://api.townspot.co/api";
-const DEFAULT_LOCALE = "en-GB";
-
-type Preferences = {
-  locale?: string;
-};
-
+const API_BASE_URL = resolveApiEnvironment().apiBaseUrl;
 type CommandArguments = {
   prompt?: string;
 };
@@ -35,38 +41,46 @@ type AskTownspotAiFormValues = {
   prompt: string;
 };
 
-const normalizeLocale = (locale: string | undefined): string => {
-  const normalized = String(locale || DEFAULT_LOCALE).trim();
-  return normalized || DEFAULT_LOCALE;
-};
-
 const normalizePrompt = (value: string | undefined): string =>
   String(value || "").trim();
 
 const buildResultMarkdown = (
   prompt: string,
   townName: string,
-  aiAnswer: string,
+  citationReport: CitationReport | null,
+  isStreaming: boolean,
   errorMessage: string,
+  history: ConversationTurn[],
+  locale: string,
+  messages: Messages,
 ): string => {
-  const sections: string[] = [
-    `# TownSpot AI · ${townName || "your town"}`,
-    "",
-    `**Query:** ${prompt}`,
-  ];
+  const sections: string[] = [`# TownSpot AI · ${townName || messages.yourTown}`];
+
+  for (const turn of history) {
+    const answer = validateAnswerCitations(turn.answer, turn.events, locale).markdown;
+    sections.push("", `**${messages.queryLabel}:** ${turn.prompt}`, "", answer || `_${messages.noAnswer}_`, "", "---");
+  }
+
+  sections.push("", `**${messages.queryLabel}:** ${prompt}`);
 
   if (errorMessage) {
     sections.push("", `> ${errorMessage}`);
+  } else if (!citationReport) {
+    sections.push("", `_${messages.generatingAnswer}_`);
   } else {
-    sections.push("", aiAnswer || "_Generating grounded answer…_");
+    sections.push("", citationReport.markdown);
+    if (!isStreaming) {
+      sections.push("", buildCitationSummaryMarkdown(citationReport, locale));
+    }
   }
 
   return sections.join("\n");
 };
 
 export default function Command(props: LaunchProps<{ arguments: CommandArguments }>) {
-  const preferences = getPreferenceValues<Preferences>();
-  const locale = normalizeLocale(preferences.locale);
+  const locale = preferredLocale();
+  const messages = getMessages();
+  const dateFormat = useMemo(dateFormatPreferences, []);
   const inlinePrompt = normalizePrompt(props.arguments.prompt);
   const [draftPrompt, setDraftPrompt] = useState(inlinePrompt);
   const [submittedPrompt, setSubmittedPrompt] = useState(inlinePrompt);
@@ -77,6 +91,9 @@ export default function Command(props: LaunchProps<{ arguments: CommandArguments
   const [aiAnswer, setAiAnswer] = useState("");
   const [response, setResponse] = useState<RaycastResponse | null>(null);
   const [townSource, setTownSource] = useState<"home" | "query">("home");
+  const [town, setTown] = useState<ActiveTown | null>(null);
+  const [history, setHistory] = useState<ConversationTurn[]>([]);
+  useEnvironmentSubtitle();
 
   useEffect(() => {
     let cancelled = false;
@@ -84,6 +101,7 @@ export default function Command(props: LaunchProps<{ arguments: CommandArguments
     const run = async () => {
       if (!submittedPrompt) {
         setTownName("");
+        setTown(null);
         setTownSource("home");
         setErrorMessage("");
         setAiAnswer("");
@@ -98,28 +116,35 @@ export default function Command(props: LaunchProps<{ arguments: CommandArguments
       setResponse(null);
 
       try {
-        const resolvedTown = await resolveTownForPrompt(PROD_API_BASE_URL, submittedPrompt);
-        const town = resolvedTown.town;
+        const resolvedTown = await resolveTownForPrompt(API_BASE_URL, submittedPrompt);
+        // Follow-ups that don't name a town stay in the town of the previous answer.
+        const previousTown = history[history.length - 1]?.town;
+        const keepPreviousTown = resolvedTown.source === "home" && previousTown;
+        const activeTown = keepPreviousTown ? previousTown : resolvedTown.town;
         if (cancelled) return;
-        setTownName(town.name);
-        setTownSource(resolvedTown.source);
+        setTown(activeTown);
+        setTownName(activeTown.name);
+        setTownSource(keepPreviousTown ? "query" : resolvedTown.source);
 
         const groundedResponse = await askTownspot({
           query: submittedPrompt,
-          townSlug: town.slug,
+          townSlug: activeTown.slug,
           locale,
           limit: 12,
-          conversation: [],
-          apiBaseUrl: PROD_API_BASE_URL,
+          conversation: conversationForApi(history),
+          apiBaseUrl: API_BASE_URL,
         });
         if (cancelled) return;
         setResponse(groundedResponse);
 
         const aiPrompt = buildTownspotAiPrompt({
           query: submittedPrompt,
-          townName: town.name,
+          townName: activeTown.name,
           apiAnswer: groundedResponse.answer,
           events: groundedResponse.events,
+          timezone: groundedResponse.town?.timezone || DEFAULT_TIMEZONE,
+          history,
+          dateFormat,
         });
 
         const stream = AI.ask(aiPrompt, { creativity: "low" });
@@ -129,12 +154,12 @@ export default function Command(props: LaunchProps<{ arguments: CommandArguments
         });
         await stream;
       } catch (error) {
-        const message = error instanceof Error ? error.message : "Could not run Ask TownSpot AI.";
+        const message = describeApiError(error, messages, messages.couldNotRunAi);
         if (!cancelled) {
           setErrorMessage(message);
           await showToast({
             style: Toast.Style.Failure,
-            title: "Ask TownSpot AI failed",
+            title: messages.aiFailed,
             message,
           });
         }
@@ -149,51 +174,107 @@ export default function Command(props: LaunchProps<{ arguments: CommandArguments
     return () => {
       cancelled = true;
     };
-  }, [locale, submittedPrompt]);
+  }, [dateFormat, history, locale, messages, submittedPrompt]);
+
+  const citationReport = useMemo(
+    () => (aiAnswer ? validateAnswerCitations(aiAnswer, response?.events || [], locale) : null),
+    [aiAnswer, locale, response],
+  );
 
   const markdown = useMemo(
-    () => buildResultMarkdown(submittedPrompt, townName, aiAnswer, errorMessage),
-    [aiAnswer, errorMessage, submittedPrompt, townName],
+    () =>
+      buildResultMarkdown(
+        submittedPrompt,
+        townName,
+        citationReport,
+        isLoading,
+        errorMessage,
+        history,
+        locale,
+        messages,
+      ),
+    [citationReport, errorMessage, history, isLoading, locale, messages, submittedPrompt, townName],
   );
 
+  const responseTimezone = response?.town?.timezone || DEFAULT_TIMEZONE;
+
+  const askFollowUp = (): void => {
+    if (town) {
+      setHistory((current) => [
+        ...current,
+        {
+          prompt: submittedPrompt,
+          town,
+          timezone: responseTimezone,
+          answer: aiAnswer,
+          events: response?.events || [],
+        },
+      ]);
+    }
+    setDraftPrompt("");
+    setSubmittedPrompt("");
+  };
+
+  const startNewConversation = (): void => {
+    setHistory([]);
+    setDraftPrompt("");
+    setSubmittedPrompt("");
+  };
+
   const subtitle =
-    townName && townSource === "query"
-      ? `Matched town from query: ${townName}`
+    townName && history.length
+      ? messages.followUpIn(townName)
+      : townName && townSource === "query"
+      ? messages.matchedTownFromQuery(townName)
       : townName
-        ? `Using hometown: ${townName}`
-        : "Ask TownSpot AI";
+        ? messages.usingHometown(townName)
+        : messages.askTownSpotAi;
 
   const firstEventUrl = response?.events?.[0]?.url;
 
   if (!submittedPrompt) {
     return (
       <Form
-        navigationTitle="Ask TownSpot AI"
+        navigationTitle={history.length ? messages.askAFollowUp : messages.askTownSpotAi}
         actions={
           <ActionPanel>
             <Action.SubmitForm
-              title="Ask TownSpot AI"
+              title={history.length ? messages.askFollowUp : messages.askTownSpotAi}
               onSubmit={async (values: AskTownspotAiFormValues) => {
                 const normalized = normalizePrompt(values.prompt);
                 if (!normalized) {
                   await showToast({
                     style: Toast.Style.Failure,
-                    title: "Enter a question",
-                    message: "Try: kids events this weekend",
+                    title: messages.enterQuestion,
+                    message: messages.enterQuestionHint,
                   });
                   return;
                 }
                 setSubmittedPrompt(normalized);
               }}
             />
+            {history.length ? (
+              <Action
+                title={messages.startNewConversation}
+                icon={Icon.Trash}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+                onAction={startNewConversation}
+              />
+            ) : null}
           </ActionPanel>
         }
       >
-        <Form.Description text="Ask naturally. TownSpot AI will answer using TownSpot event listings." />
+        <Form.Description
+          text={
+            history.length
+              ? messages.followingUpOn(history[history.length - 1].prompt)
+              : messages.askIntro
+          }
+        />
         <Form.TextArea
           id="prompt"
-          title="Question"
-          placeholder="kids events this weekend"
+          title={messages.question}
+          placeholder={messages.questionPlaceholder}
           value={draftPrompt}
           onChange={setDraftPrompt}
         />
@@ -208,26 +289,37 @@ export default function Command(props: LaunchProps<{ arguments: CommandArguments
       markdown={markdown}
       actions={
         <ActionPanel>
+          {!isLoading && aiAnswer ? (
+            <Action
+              title={messages.askFollowUp}
+              icon={Icon.SpeechBubble}
+              shortcut={{ modifiers: ["cmd"], key: "f" }}
+              onAction={askFollowUp}
+            />
+          ) : null}
           <Action
-            title="Ask Another Question"
+            title={messages.askAnotherQuestion}
             shortcut={{ modifiers: ["cmd"], key: "n" }}
             onAction={() => {
+              setHistory([]);
               setDraftPrompt(submittedPrompt);
               setSubmittedPrompt("");
             }}
           />
-          {firstEventUrl ? <Action.OpenInBrowser title="Open First Listing" url={firstEventUrl} /> : null}
-          {aiAnswer ? <Action.CopyToClipboard title="Copy AI Answer" content={aiAnswer} /> : null}
+          {firstEventUrl ? <Action.OpenInBrowser title={messages.openFirstListing} url={firstEventUrl} /> : null}
+          {citationReport ? (
+            <Action.CopyToClipboard title={messages.copyAiAnswer} content={citationReport.markdown} />
+          ) : null}
           {response?.events?.length ? (
             <Action
-              title="Copy Verified Listings"
+              title={messages.copyVerifiedListings}
               icon={Icon.Clipboard}
               onAction={async () => {
-                const listings = buildVerifiedEventsMarkdown(response.events);
+                const listings = buildVerifiedEventsMarkdown(response.events, responseTimezone, dateFormat);
                 await Clipboard.copy(listings);
                 await showToast({
                   style: Toast.Style.Success,
-                  title: "Copied verified listings",
+                  title: messages.copiedVerifiedListings,
                 });
               }}
             />
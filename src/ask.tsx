@@ -3,26 +3,117 @@ import {
   ActionPanel,
   Color,
   Icon,
+  LaunchProps,
   List,
   LocalStorage,
-  getPreferenceValues,
+  Toast,
+  open,
+  showInFinder,
+  showToast,
   updateCommandMetadata,
 } from "@raycast/api";
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useFollowedVenues } from "./hooks/use-followed-venues";
+import { useSavedEvents } from "./hooks/use-saved-events";
+import { useSavedSearches } from "./hooks/use-saved-searches";
+import { useListingDetails } from "./hooks/use-listing-details";
+import { describeApiError } from "./lib/api-client";
+import { resolveApiEnvironment, waitlistEndpoint, withEnvironmentLabel } from "./lib/api-environment";
 import {
+  buildCalendarFile,
+  calendarEntryFromEvent,
+  calendarFileName,
+  CalendarEntry,
+  saveCalendarFile,
+} from "./lib/calendar";
+import {
+  CustomDateRange,
   filterEventsByTimeWindow,
+  formatCustomRangeForApi,
+  formatCustomRangeLabel,
   formatEventTime,
   groupEventsByDay,
+  hasTimeOfDay,
   relativeStartTag,
+  resolveEventUrl,
   TimeWindow,
+  todayDateKey,
 } from "./lib/event-listing";
+import { parseDateExpression, stripDateExpression } from "./lib/date-expressions";
+import {
+  DateFormatOptions,
+  dateFormatPreferences,
+  DEFAULT_TIMEZONE,
+  formatTimeAgo,
+} from "./lib/date-format";
+import { appendEventPage, firstIncompleteDayKey, hasMorePages, isDayComplete } from "./lib/event-pages";
+import { buildEventSeries, collapseEventSeries } from "./lib/event-series";
 import { splitEventTags } from "./lib/event-tags";
+import {
+  clearHomePoint,
+  DISTANCE_FILTER_KM,
+  distanceKmFrom,
+  EventSortMode,
+  filterEventsWithinKm,
+  formatDistance,
+  HomePoint,
+  loadHomePoint,
+  saveHomePoint,
+  sortEventsByDistance,
+} from "./lib/home-point";
+import { getMessages, Messages, preferredLocale } from "./lib/i18n";
+import { resolveTownContext, TownContext } from "./lib/location-context";
+import {
+  formatTownNames,
+  loadMultiTownZoneIds,
+  mergeTownResponses,
+  saveMultiTownZoneIds,
+} from "./lib/multi-town";
+import { payloadReportsSince } from "./lib/payload-validation";
+import {
+  currencyForCountry,
+  eventPrice,
+  formatMoney,
+  formatParsedPrice,
+  matchesPriceFilter,
+  PRICE_FILTER_LIMITS,
+  PriceFilter,
+} from "./lib/prices";
+import { QUICK_QUERY_PRESETS } from "./lib/query-presets";
+import {
+  hasExplicitTimeIntent,
+  inferCategoryFromQuery,
+  inferTimeWindowFromQuery,
+  normalizeInferenceQuery,
+  stripIntentPhrases,
+} from "./lib/query-inference";
+import {
+  readCachedResponse,
+  readCachedZones,
+  readLatestTownResponse,
+  writeCachedResponse,
+  writeCachedZones,
+} from "./lib/response-cache";
+import {
+  resolveLaunchedSearch,
+  SavedSearchDraft,
+  savedSearchDeeplink,
+  SavedSearchLaunchContext,
+} from "./lib/saved-searches";
+import { buildEventSearchIndex, searchEvents } from "./lib/search-index";
 import { askTownspot } from "./lib/townspot";
 import { ActiveZoneOption, fetchActiveZones, groupZonesByCountry } from "./lib/zones";
-import { RaycastResponse } from "./types";
+import { EventLaunchContext, RaycastEvent, RaycastResponse, RaycastTown } from "./types";
+import { ApiDiagnosticsView } from "./views/api-diagnostics-view";
 import { CategoryPickerView } from "./views/category-picker-view";
 import { EventDetailView } from "./views/event-detail-view";
+import { EventSeriesView } from "./views/event-series-view";
+import { HomePointFormView } from "./views/home-point-form-view";
+import { SavedSearchFormView } from "./views/saved-search-form-view";
+import { SavedSearchesView } from "./views/saved-searches-view";
 import { TimeWindowPickerView } from "./views/time-window-picker-view";
+import { TownPickerView } from "./views/town-picker-view";
+import { VenuesView } from "./views/venues-view";
 import { WaitlistFormView } from "./views/waitlist-form-view";
 
 const DEFAULT_QUERY = "";
@@ -31,9 +122,12 @@ const HOME_ZONE_STORAGE_KEY = "townspot-home-zone-id";
 const NO_ZONE_VALUE = "__unset__";
 const ZONE_VALUE_PREFIX = "zone:";
 const SMALL_DOT = "·";
-const API_EVENT_FETCH_LIMIT = 120;
-const PROD_API_BASE_URL = "https://api.townspot.co/api";
-const WAITLIST_ENDPOINT = "https://api.townspot.co/api/waitlist";
+// Events per request; later pages load as the list is scrolled.
+const API_EVENT_PAGE_SIZE = 60;
+// Fewer local matches than this sends the search text to the API as well.
+const MIN_LOCAL_SEARCH_RESULTS = 3;
+const API_BASE_URL = resolveApiEnvironment().apiBaseUrl;
+const WAITLIST_ENDPOINT = waitlistEndpoint(API_BASE_URL);
 
 const useDebouncedValue = <T,>(value: T, waitMs: number): T => {
   const [debounced, setDebounced] = useState(value);
@@ -46,19 +140,6 @@ const useDebouncedValue = <T,>(value: T, waitMs: number): T => {
   return debounced;
 };
 
-const resolveEventUrl = (rawUrl: string): string => {
-  const value = String(rawUrl || "").trim();
-  if (!value) return "https://townspot.co";
-  try {
-    return new URL(value).toString();
-  } catch {
-    if (value.startsWith("/")) {
-      return `https://townspot.co${value}`;
-    }
-    return `https://townspot.co/${value}`;
-  }
-};
-
 const toZoneValue = (id: number): string => `${ZONE_VALUE_PREFIX}${id}`;
 
 const parseZoneId = (value: string): number | null => {
@@ -84,18 +165,18 @@ const cleanCategoryLabel = (value: string): string =>
 const isMeaningfulCategory = (value: string): boolean =>
   /[\p{L}\p{N}]/u.test(value);
 
-const zoneActivityLabel = (zone: ActiveZoneOption): string => {
+const zoneActivityLabel = (zone: ActiveZoneOption, messages: Messages): string => {
   if (Number.isFinite(zone.activeUsers)) {
-    return `${zone.activeUsers} locals active`;
+    return messages.localsActive(zone.activeUsers as number);
   }
   if (Number.isFinite(zone.weeklyEventsCount)) {
-    return `${zone.weeklyEventsCount} locals active`;
+    return messages.localsActive(zone.weeklyEventsCount as number);
   }
   return "";
 };
 
-const zoneDropdownTitle = (zone: ActiveZoneOption): string => {
-  const activity = zoneActivityLabel(zone);
+const zoneDropdownTitle = (zone: ActiveZoneOption, messages: Messages): string => {
+  const activity = zoneActivityLabel(zone, messages);
   return activity ? `${zone.name} ${SMALL_DOT} ${activity}` : zone.name;
 };
 
@@ -107,24 +188,35 @@ type TimeWindowOption = {
   title: string;
 };
 
-const TIME_WINDOW_OPTIONS: TimeWindowOption[] = [
-  { id: "now", title: "Happening now" },
-  { id: "all_upcoming", title: "All Upcoming" },
-  { id: "today", title: "Today" },
-  {
-    id: "today_tomorrow",
-    title: "Today + Tomorrow",
-  },
-  { id: "next_3_days", title: "Next 3 Days" },
-  { id: "next_7_days", title: "Next 7 Days" },
-  { id: "this_week", title: "This Week" },
+const TIME_WINDOW_IDS: Exclude<TimeWindow, "custom">[] = [
+  "now",
+  "all_upcoming",
+  "today",
+  "today_tomorrow",
+  "next_3_days",
+  "next_7_days",
+  "this_week",
 ];
 
+const timeWindowOptions = (messages: Messages): TimeWindowOption[] =>
+  TIME_WINDOW_IDS.map((id) => ({ id, title: messages.timeWindows[id] }));
+
 const normalizeCategory = (value: string): string =>
   value.trim().toLowerCase();
 
-const timeWindowLabel = (value: TimeWindow): string =>
-  TIME_WINDOW_OPTIONS.find((option) => option.id === value)?.title || "Today + Tomorrow";
+const timeWindowLabel = (
+  value: TimeWindow,
+  customRange: CustomDateRange | null,
+  messages: Messages,
+  dateFormat: DateFormatOptions,
+): string => {
+  if (value === "custom") {
+    return customRange
+      ? messages.customRangeLabel(formatCustomRangeLabel(customRange, dateFormat))
+      : messages.customRange;
+  }
+  return messages.timeWindows[value];
+};
 
 const eventMatchesCategory = (tags: string[], selectedCategory: string): boolean => {
   if (selectedCategory === CATEGORY_ALL) return true;
@@ -136,71 +228,14 @@ const eventMatchesCategory = (tags: string[], selectedCategory: string): boolean
   return normalizedTags.includes(normalizedSelected);
 };
 
-const inferCategoryFromQuery = (value: string): string | null => {
-  const query = normalizeWindowQuery(value);
-  if (!query) return null;
-  if (/\b(kids?|children|child|baby|babies|family|toddler|toddlers)\b/.test(query)) return "Kids";
-  if (/\b(music|live|dj|concert|gig)\b/.test(query)) return "Music";
-  if (/\b(food|eat|dinner|lunch|cafe|restaurant)\b/.test(query)) return "Food";
-  if (/\b(comedy|stand\s?up|comic)\b/.test(query)) return "Comedy";
-  if (/\b(art|gallery|museum|exhibit)\b/.test(query)) return "Art";
-  return null;
-};
-
-const normalizeWindowQuery = (value: string): string =>
-  String(value || "")
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+const isSameRange = (a: CustomDateRange | null, b: CustomDateRange | null): boolean =>
+  a?.startDate === b?.startDate &&
+  a?.endDate === b?.endDate &&
+  a?.startMinutes === b?.startMinutes &&
+  a?.endMinutes === b?.endMinutes;
 
-const inferTimeWindowFromQuery = (value: string): TimeWindow | null => {
-  const query = normalizeWindowQuery(value);
-  if (!query) return null;
-  if (
-    query.includes("right now") ||
-    query.includes("happening now") ||
-    query.includes("on now") ||
-    query.includes("live now") ||
-    query === "now" ||
-    query.startsWith("now ")
-  ) {
-    return "now";
-  }
-  if (query.includes("all upcoming")) return "all_upcoming";
-  if (query.includes("tomorrow")) return "today_tomorrow";
-  if (query.includes("this weekend")) return "next_3_days";
-  if (query.includes("this week")) return "this_week";
-  if (query.includes("next 7 days") || query.includes("next week")) return "next_7_days";
-  if (query.includes("next 3 days")) return "next_3_days";
-  if (query.includes("today")) return "today";
-  if (query.includes("tonight")) return "today";
-  return null;
-};
-
-const hasExplicitTimeIntent = (value: string): boolean => {
-  const query = normalizeWindowQuery(value);
-  if (!query) return false;
-  return (
-    query.includes("right now") ||
-    query.includes("happening now") ||
-    query.includes("on now") ||
-    query.includes("live now") ||
-    query === "now" ||
-    query.startsWith("now ") ||
-    query.includes("today") ||
-    query.includes("tomorrow") ||
-    query.includes("tonight") ||
-    query.includes("this weekend") ||
-    query.includes("this week") ||
-    query.includes("next week") ||
-    query.includes("next 3 days") ||
-    query.includes("next 7 days") ||
-    query.includes("all upcoming")
-  );
-};
-
-const windowHintForApi = (timeWindow: TimeWindow): string => {
+const windowHintForApi = (timeWindow: TimeWindow, customRange?: CustomDateRange | null): string => {
+  if (timeWindow === "custom" && customRange) return formatCustomRangeForApi(customRange);
   if (timeWindow === "now") return "happening now";
   if (timeWindow === "today") return "today";
   if (timeWindow === "today_tomorrow") return "today and tomorrow";
@@ -211,9 +246,14 @@ const windowHintForApi = (timeWindow: TimeWindow): string => {
   return "next 7 days";
 };
 
-export default function Command(
-) {
-  const preferences = getPreferenceValues<{ locale: string }>();
+type TownSpotListProps = {
+  launchContext?: SavedSearchLaunchContext;
+};
+
+const TownSpotList = ({ launchContext }: TownSpotListProps) => {
+  const locale = preferredLocale();
+  const messages = getMessages();
+  const dateFormat = useMemo(dateFormatPreferences, []);
   const initialQuery = DEFAULT_QUERY;
 
   const [zones, setZones] = useState<ActiveZoneOption[]>([]);
@@ -221,48 +261,131 @@ export default function Command(
   const [zonesError, setZonesError] = useState("");
   const [homeZoneLoading, setHomeZoneLoading] = useState(true);
   const [homeZoneId, setHomeZoneId] = useState<number | null>(null);
+  const [multiTownZoneIds, setMultiTownZoneIds] = useState<number[]>([]);
+  const [townSuggestion, setTownSuggestion] = useState<TownContext | null>(null);
+  const [detectingTown, setDetectingTown] = useState(false);
   const [selectedTownValue, setSelectedTownValue] = useState(NO_ZONE_VALUE);
   const [searchText, setSearchText] = useState(initialQuery);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [response, setResponse] = useState<RaycastResponse | null>(null);
   const [cachedResponsesByTown, setCachedResponsesByTown] = useState<Record<string, RaycastResponse>>({});
   const [hasLoadedTownData, setHasLoadedTownData] = useState<Record<string, boolean>>({});
+  const [cacheStoredAtByTown, setCacheStoredAtByTown] = useState<Record<string, number | null>>({});
+  const [responseQueryByTown, setResponseQueryByTown] = useState<Record<string, string>>({});
+  const [escalatedSearch, setEscalatedSearch] = useState("");
   const [errorMessage, setErrorMessage] = useState<string>("");
+  const [skippedEventCount, setSkippedEventCount] = useState(0);
   const [selectedCategory, setSelectedCategory] = useState<string>(CATEGORY_ALL);
   const [selectedTimeWindow, setSelectedTimeWindow] = useState<TimeWindow>(DEFAULT_TIME_WINDOW);
+  const [customRange, setCustomRange] = useState<CustomDateRange | null>(null);
   const [manualCategoryQuery, setManualCategoryQuery] = useState("");
   const [manualTimeWindowQuery, setManualTimeWindowQuery] = useState("");
+  const [homePoint, setHomePoint] = useState<HomePoint | null>(null);
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null);
+  const [sortMode, setSortMode] = useState<EventSortMode>("time");
+  const [priceFilter, setPriceFilter] = useState<PriceFilter>("any");
+  const [launchedSearch, setLaunchedSearch] = useState<SavedSearchDraft | null>(null);
+
+  const { isSaved, toggleSaved, reload: reloadSavedEvents } = useSavedEvents();
+  const {
+    isFollowed: isFollowedVenue,
+    toggleFollowed: toggleFollowedVenue,
+    reload: reloadFollowedVenues,
+  } = useFollowedVenues();
+  const { savedSearches, saveSearch, reload: reloadSavedSearches } = useSavedSearches();
 
   const debouncedSearchText = useDebouncedValue(searchText, 200);
   const normalizedQuery = useMemo(
-    () => normalizeWindowQuery(debouncedSearchText),
+    () => normalizeInferenceQuery(debouncedSearchText),
     [debouncedSearchText],
   );
+  const parseTimezone = response?.town?.timezone || DEFAULT_TIMEZONE;
+  const parsedDateRange = useMemo(
+    () =>
+      parseDateExpression(debouncedSearchText, {
+        locale,
+        timezone: parseTimezone,
+      }),
+    [debouncedSearchText, locale, parseTimezone],
+  );
+  const usesParsedDateRange = Boolean(parsedDateRange) && manualTimeWindowQuery !== normalizedQuery;
+
+  // Whatever's left once dates, time windows and categories are taken out is matched against loaded events.
+  const localSearchText = useMemo(
+    () => stripIntentPhrases(stripDateExpression(searchText, { locale, timezone: parseTimezone }), locale),
+    [locale, parseTimezone, searchText],
+  );
+  const debouncedLocalSearchText = useMemo(
+    () =>
+      stripIntentPhrases(
+        stripDateExpression(debouncedSearchText, { locale, timezone: parseTimezone }),
+        locale,
+      ),
+    [debouncedSearchText, locale, parseTimezone],
+  );
+  const usesApiTextSearch = Boolean(escalatedSearch) && escalatedSearch === debouncedLocalSearchText;
+
+  // The API is asked for the whole window unless local search came up short for this text.
   const queryForApi = useMemo(() => {
-    const trimmed = debouncedSearchText.trim();
-    const hint = windowHintForApi(selectedTimeWindow);
+    const trimmed = usesApiTextSearch ? debouncedSearchText.trim() : "";
+    if (parsedDateRange && usesParsedDateRange) {
+      return `${trimmed || "what's on"} ${formatCustomRangeForApi(parsedDateRange)}`.trim();
+    }
+    const hint = windowHintForApi(selectedTimeWindow, customRange);
     if (!trimmed) {
       return `what's on ${hint}`;
     }
-    if (hasExplicitTimeIntent(trimmed)) {
+    if (hasExplicitTimeIntent(trimmed, locale)) {
       return trimmed;
     }
     return `${trimmed} ${hint}`.trim();
-  }, [debouncedSearchText, selectedTimeWindow]);
+  }, [
+    customRange,
+    debouncedSearchText,
+    locale,
+    parsedDateRange,
+    selectedTimeWindow,
+    usesApiTextSearch,
+    usesParsedDateRange,
+  ]);
 
   useEffect(() => {
-    const inferred = inferTimeWindowFromQuery(debouncedSearchText);
     if (manualTimeWindowQuery === normalizedQuery) return;
+    if (parsedDateRange) {
+      // A plain "today" keeps the preset; anything more specific becomes a custom range.
+      const isPlainToday =
+        !hasTimeOfDay(parsedDateRange) &&
+        parsedDateRange.startDate === parsedDateRange.endDate &&
+        parsedDateRange.startDate === todayDateKey(parseTimezone);
+      if (isPlainToday) {
+        if (selectedTimeWindow !== "today") setSelectedTimeWindow("today");
+        return;
+      }
+      if (!isSameRange(customRange, parsedDateRange)) setCustomRange(parsedDateRange);
+      if (selectedTimeWindow !== "custom") setSelectedTimeWindow("custom");
+      return;
+    }
+    const inferred = inferTimeWindowFromQuery(debouncedSearchText, locale);
     if (!inferred || inferred === selectedTimeWindow) return;
     setSelectedTimeWindow(inferred);
-  }, [debouncedSearchText, manualTimeWindowQuery, normalizedQuery, selectedTimeWindow]);
+  }, [
+    customRange,
+    debouncedSearchText,
+    locale,
+    manualTimeWindowQuery,
+    normalizedQuery,
+    parseTimezone,
+    parsedDateRange,
+    selectedTimeWindow,
+  ]);
 
   useEffect(() => {
-    const inferred = inferCategoryFromQuery(debouncedSearchText);
+    const inferred = inferCategoryFromQuery(debouncedSearchText, locale);
     if (manualCategoryQuery === normalizedQuery) return;
     if (!inferred || inferred === selectedCategory) return;
     setSelectedCategory(inferred);
-  }, [debouncedSearchText, manualCategoryQuery, normalizedQuery, selectedCategory]);
+  }, [debouncedSearchText, locale, manualCategoryQuery, normalizedQuery, selectedCategory]);
 
   useEffect(() => {
     let cancelled = false;
@@ -270,8 +393,12 @@ export default function Command(
     const loadHomeZone = async () => {
       setHomeZoneLoading(true);
       try {
-        const stored = await LocalStorage.getItem<string>(HOME_ZONE_STORAGE_KEY);
+        const [stored, storedMultiTownIds] = await Promise.all([
+          LocalStorage.getItem<string>(HOME_ZONE_STORAGE_KEY),
+          loadMultiTownZoneIds(),
+        ]);
         if (cancelled) return;
+        setMultiTownZoneIds(storedMultiTownIds);
         const parsed = Number(stored || "");
         if (Number.isFinite(parsed)) {
           setHomeZoneId(parsed);
@@ -296,21 +423,58 @@ export default function Command(
   useEffect(() => {
     let cancelled = false;
 
+    const loadStoredHomePoint = async () => {
+      const stored = await loadHomePoint();
+      if (!cancelled) {
+        setHomePoint(stored);
+      }
+    };
+
+    void loadStoredHomePoint();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLaunchedSearch = async () => {
+      const search = await resolveLaunchedSearch(launchContext);
+      if (!cancelled && search) {
+        setLaunchedSearch(search);
+      }
+    };
+
+    void loadLaunchedSearch();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [launchContext]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+
     const loadZones = async () => {
       setZonesLoading(true);
       setZonesError("");
       try {
         const activeZones = await fetchActiveZones(
-          PROD_API_BASE_URL,
+          API_BASE_URL,
+          controller.signal,
         );
         if (cancelled) return;
+        writeCachedZones(activeZones);
         setZones(activeZones);
       } catch (error) {
         if (cancelled) return;
-        setZones([]);
-        setZonesError(
-          error instanceof Error ? error.message : "Unable to load active towns",
-        );
+        const cachedZones = readCachedZones();
+        setZones(cachedZones);
+        if (cachedZones.length) return;
+        setZonesError(describeApiError(error, messages, messages.unableToLoadTowns));
       } finally {
         if (!cancelled) {
           setZonesLoading(false);
@@ -322,8 +486,9 @@ export default function Command(
 
     return () => {
       cancelled = true;
+      controller.abort();
     };
-  }, []);
+  }, [messages]);
 
   useEffect(() => {
     if (homeZoneLoading || zonesLoading) return;
@@ -362,92 +527,261 @@ export default function Command(
   const effectiveTownSlug = selectedZone?.slug || "";
 
   useEffect(() => {
-    if (!effectiveTownSlug) {
+    if (!needsHomeZone || homeZoneId !== null) return;
+    let cancelled = false;
+
+    const detectTown = async () => {
+      setDetectingTown(true);
+      try {
+        const context = await resolveTownContext({ apiBaseUrl: API_BASE_URL });
+        if (!cancelled) {
+          setTownSuggestion(context);
+        }
+      } catch {
+        // Detection only offers a suggestion; the town can still be picked by hand.
+      } finally {
+        if (!cancelled) {
+          setDetectingTown(false);
+        }
+      }
+    };
+
+    void detectTown();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsHomeZone, homeZoneId]);
+
+  // Only suggest towns that are live in the zone list, so the action can always be taken.
+  const suggestedZone = useMemo(
+    () => (townSuggestion ? zones.find((zone) => zone.slug === townSuggestion.slug) : undefined),
+    [townSuggestion, zones],
+  );
+
+  const multiTownZones = useMemo(
+    () =>
+      multiTownZoneIds
+        .map((zoneId) => zones.find((zone) => zone.id === zoneId))
+        .filter((zone): zone is ActiveZoneOption => Boolean(zone)),
+    [multiTownZoneIds, zones],
+  );
+  const multiTownMode = !needsHomeZone && multiTownZones.length >= 2;
+  const queriedZones = useMemo(
+    () => (multiTownMode ? multiTownZones : selectedZone ? [selectedZone] : []),
+    [multiTownMode, multiTownZones, selectedZone],
+  );
+  const queriedTownKey = queriedZones.map((zone) => zone.slug).join(",");
+  const townNameBySlug = useMemo(
+    () => Object.fromEntries(zones.map((zone) => [zone.slug, zone.name])) as Record<string, string>,
+    [zones],
+  );
+
+  useEffect(() => {
+    const townSlugs = queriedTownKey ? queriedTownKey.split(",") : [];
+    if (!townSlugs.length) {
       if (selectionHydrated) {
         setResponse(null);
         setErrorMessage("");
+        setSkippedEventCount(0);
       }
       setLoading(false);
       return;
     }
 
     let cancelled = false;
-    const runQuery = async () => {
+    const controller = new AbortController();
+
+    const applyResponse = (townSlug: string, result: RaycastResponse, storedAt: number | null): void => {
+      setResponse(result);
+      setCacheStoredAtByTown((previous) => ({ ...previous, [townSlug]: storedAt }));
+      setResponseQueryByTown((previous) => ({ ...previous, [townSlug]: queryForApi }));
+      if (result?.town?.slug) {
+        setCachedResponsesByTown((previous) => ({
+          ...previous,
+          [result.town.slug]: result,
+        }));
+        setHasLoadedTownData((previous) => ({
+          ...previous,
+          [result.town.slug]: true,
+        }));
+      }
+    };
+
+    // Resolves to an error message when the town couldn't be refreshed.
+    const runQuery = async (townSlug: string): Promise<string> => {
+      const cacheKey = {
+        townSlug,
+        locale,
+        query: queryForApi,
+      };
+      const cached = readCachedResponse(cacheKey);
+      if (cached) {
+        applyResponse(townSlug, cached.response, cached.storedAt);
+        if (cached.isFresh) return "";
+      }
+
       setLoading(true);
-      setErrorMessage("");
 
       try {
         const result = await askTownspot({
           query: queryForApi,
-          townSlug: effectiveTownSlug,
-          locale: preferences.locale,
-          apiBaseUrl: PROD_API_BASE_URL,
-          limit: API_EVENT_FETCH_LIMIT,
+          townSlug,
+          locale,
+          apiBaseUrl: API_BASE_URL,
+          limit: API_EVENT_PAGE_SIZE,
           conversation: [],
+          signal: controller.signal,
         });
-        if (cancelled) return;
-        setResponse(result);
-        if (result?.town?.slug) {
-          setCachedResponsesByTown((previous) => ({
-            ...previous,
-            [result.town.slug]: result,
-          }));
-          setHasLoadedTownData((previous) => ({
-            ...previous,
-            [result.town.slug]: true,
-          }));
-        }
+        if (cancelled) return "";
+        writeCachedResponse(cacheKey, result);
+        applyResponse(townSlug, result, null);
+        return "";
       } catch (error) {
-        if (cancelled) return;
-        setErrorMessage(
-          error instanceof Error ? error.message : "Unable to reach TownSpot",
-        );
-      } finally {
-        if (!cancelled) {
-          setLoading(false);
+        if (cancelled) return "";
+        const fallback = cached || readLatestTownResponse(cacheKey);
+        if (fallback) {
+          applyResponse(townSlug, fallback.response, fallback.storedAt);
         }
+        return describeApiError(error, messages, messages.unableToReachTownSpot);
       }
     };
 
-    void runQuery();
+    const runQueries = async () => {
+      setErrorMessage("");
+      const startedAt = Date.now();
+      const errors = await Promise.all(townSlugs.map(runQuery));
+      if (cancelled) return;
+      setLoading(false);
+      setSkippedEventCount(
+        payloadReportsSince(startedAt, "query").reduce((total, report) => total + report.droppedCount, 0),
+      );
+      setErrorMessage(
+        townSlugs.length === 1
+          ? errors[0]
+          : townSlugs
+              .map((townSlug, index) =>
+                errors[index] ? `${townNameBySlug[townSlug] || townSlug}: ${errors[index]}` : "",
+              )
+              .filter(Boolean)
+              .join(` ${SMALL_DOT} `),
+      );
+    };
+
+    void runQueries();
 
     return () => {
       cancelled = true;
+      controller.abort();
     };
   }, [
     queryForApi,
-    preferences.locale,
-    effectiveTownSlug,
+    locale,
+    messages,
+    queriedTownKey,
+    townNameBySlug,
     selectionHydrated,
   ]);
 
-  const responseForActiveTown =
-    response?.town?.slug === effectiveTownSlug ? response : null;
-  const cachedResponseForActiveTown = effectiveTownSlug ? cachedResponsesByTown[effectiveTownSlug] : null;
-  const displayResponseForActiveTown = responseForActiveTown || cachedResponseForActiveTown || null;
-  const activeTownName = selectedZone?.name || "Hometown";
+  const townResponses = useMemo(
+    () =>
+      queriedZones
+        .map((zone) => cachedResponsesByTown[zone.slug])
+        .filter((item): item is RaycastResponse => Boolean(item)),
+    [cachedResponsesByTown, queriedZones],
+  );
+  // Only listings fetched for the current query can be continued.
+  const pagedTownSlugs = useMemo(
+    () =>
+      queriedZones
+        .map((zone) => zone.slug)
+        .filter(
+          (townSlug) =>
+            responseQueryByTown[townSlug] === queryForApi && hasMorePages(cachedResponsesByTown[townSlug]),
+        ),
+    [cachedResponsesByTown, queriedZones, queryForApi, responseQueryByTown],
+  );
+  const loadMoreEvents = useCallback(async (): Promise<void> => {
+    if (loading || loadingMore || !pagedTownSlugs.length) return;
+    setLoadingMore(true);
+    const errors = await Promise.all(
+      pagedTownSlugs.map(async (townSlug): Promise<string> => {
+        const listing = cachedResponsesByTown[townSlug];
+        try {
+          const page = await askTownspot({
+            query: queryForApi,
+            townSlug,
+            locale,
+            apiBaseUrl: API_BASE_URL,
+            limit: API_EVENT_PAGE_SIZE,
+            offset: listing.nextOffset ?? 0,
+            conversation: [],
+          });
+          const merged = appendEventPage(listing, page);
+          writeCachedResponse({ townSlug, locale, query: queryForApi }, merged);
+          // A new query may have replaced the listing while the page was loading.
+          setCachedResponsesByTown((previous) =>
+            previous[townSlug] === listing ? { ...previous, [townSlug]: merged } : previous,
+          );
+          return "";
+        } catch (error) {
+          return describeApiError(error, messages, messages.unableToReachTownSpot);
+        }
+      }),
+    );
+    setLoadingMore(false);
+    const error = errors.find(Boolean);
+    if (error) {
+      await showToast({ style: Toast.Style.Failure, title: messages.loadMoreFailed, message: error });
+    }
+  }, [cachedResponsesByTown, loading, loadingMore, locale, messages, pagedTownSlugs, queryForApi]);
+  const mergedListing = useMemo(
+    () => (multiTownMode ? mergeTownResponses(townResponses) : null),
+    [multiTownMode, townResponses],
+  );
+  // Multi-town listings are merged into one response; days are grouped in the first town's timezone.
+  const displayResponseForActiveTown = useMemo((): RaycastResponse | null => {
+    if (!townResponses.length) return null;
+    if (!mergedListing) return townResponses[0];
+    return { ...townResponses[0], answer: "", suggestions: [], events: mergedListing.events };
+  }, [mergedListing, townResponses]);
+  const storedAtValues = queriedZones
+    .map((zone) => cacheStoredAtByTown[zone.slug])
+    .filter((value): value is number => typeof value === "number");
+  const displayStoredAt = storedAtValues.length ? Math.min(...storedAtValues) : null;
+  const cacheAgeLabel = displayStoredAt === null ? "" : formatTimeAgo(displayStoredAt, dateFormat);
+  const activeTownName = selectedZone?.name || messages.hometown;
   const activeThisWeek = selectedZone?.activeUsers ?? selectedZone?.weeklyEventsCount;
-  const activeThisWeekLabel = Number.isFinite(activeThisWeek)
-    ? `${activeThisWeek} locals active this week`
-    : "locals active this week";
+  const activeThisWeekLabel = messages.localsActiveThisWeek(
+    Number.isFinite(activeThisWeek) ? activeThisWeek : undefined,
+  );
   const zoneGroups = useMemo(() => groupZonesByCountry(zones), [zones]);
-  const selectedZoneTitle = selectedZone ? zoneDropdownTitle(selectedZone) : "";
-  const personalizedPlaceholder = `What's on in ${activeTownName}? Try kids, free, music, now...`;
+  const selectedZoneTitle = selectedZone ? zoneDropdownTitle(selectedZone, messages) : "";
+  const listingTownName = multiTownMode
+    ? formatTownNames(multiTownZones.map((zone) => zone.name))
+    : activeTownName;
+  const personalizedPlaceholder = messages.searchPlaceholder(listingTownName);
+  const timeWindowChoices = useMemo(() => timeWindowOptions(messages), [messages]);
+  const categoryLabel = (category: string): string =>
+    category === CATEGORY_ALL ? messages.allCategory : category;
 
   useEffect(() => {
     if (!selectionHydrated) {
-      void updateCommandMetadata({ subtitle: "Loading hometown..." });
+      void updateCommandMetadata({ subtitle: withEnvironmentLabel(messages.loadingHometown, messages) });
       return;
     }
     if (needsHomeZone || !selectedZone) {
-      void updateCommandMetadata({ subtitle: "Set Hometown" });
+      void updateCommandMetadata({ subtitle: withEnvironmentLabel(messages.setHometown, messages) });
       return;
     }
-    const activityCount = Number.isFinite(activeThisWeek) ? String(activeThisWeek) : "0";
+    const activityCount = Number.isFinite(activeThisWeek) ? (activeThisWeek as number) : 0;
     void updateCommandMetadata({
-      subtitle: `${selectedZone.name} ${SMALL_DOT} ${activityCount} local active this week`,
+      subtitle: withEnvironmentLabel(
+        `${selectedZone.name} ${SMALL_DOT} ${messages.localsActiveThisWeek(activityCount)}`,
+        messages,
+      ),
     });
-  }, [selectionHydrated, needsHomeZone, selectedZone, activeThisWeek]);
+  }, [selectionHydrated, needsHomeZone, selectedZone, activeThisWeek, messages]);
 
   const categoryOptions = useMemo(() => {
     const values = new Set<string>();
@@ -476,28 +810,128 @@ export default function Command(
       ),
     [displayResponseForActiveTown, selectedCategory],
   );
+  const searchIndex = useMemo(() => buildEventSearchIndex(categoryFilteredEvents), [categoryFilteredEvents]);
+  const showsApiTextSearch =
+    usesApiTextSearch && queriedZones.every((zone) => responseQueryByTown[zone.slug] === queryForApi);
+  // Search results keep their rank so the best match leads each day.
+  const searchRankById = useMemo(() => {
+    if (!localSearchText || showsApiTextSearch) return null;
+    return new Map(searchEvents(searchIndex, localSearchText).map(({ event }, rank) => [event.id, rank]));
+  }, [localSearchText, searchIndex, showsApiTextSearch]);
+  const searchedEvents = useMemo(
+    () =>
+      searchRankById
+        ? categoryFilteredEvents.filter((event) => searchRankById.has(event.id))
+        : categoryFilteredEvents,
+    [categoryFilteredEvents, searchRankById],
+  );
 
   useEffect(() => {
+    // Wait for a listing, so a category picked before it loads isn't reset.
+    if (!displayResponseForActiveTown) return;
     if (categoryOptions.includes(selectedCategory)) return;
     setSelectedCategory(CATEGORY_ALL);
-  }, [categoryOptions, selectedCategory]);
-
-  const sectionTimezone = displayResponseForActiveTown?.town?.timezone || "Europe/London";
+  }, [categoryOptions, displayResponseForActiveTown, selectedCategory]);
+
+  const sectionTimezone = displayResponseForActiveTown?.town?.timezone || DEFAULT_TIMEZONE;
+  const townForEvent = useCallback(
+    (event: RaycastEvent): RaycastTown =>
+      mergedListing?.townsByEventId[event.id]?.[0] || {
+        name: activeTownName,
+        slug: effectiveTownSlug,
+        timezone: sectionTimezone,
+      },
+    [activeTownName, effectiveTownSlug, mergedListing, sectionTimezone],
+  );
+  // Merged towns can sit in different timezones; each event's day is its own town's.
+  const timezoneForEvent = useCallback(
+    (event: RaycastEvent): string => townForEvent(event).timezone || sectionTimezone,
+    [sectionTimezone, townForEvent],
+  );
   const timeWindowEvents = useMemo(
     () =>
-      filterEventsByTimeWindow(
-        categoryFilteredEvents,
-        sectionTimezone,
-        selectedTimeWindow,
-      ),
-    [categoryFilteredEvents, sectionTimezone, selectedTimeWindow],
+      filterEventsByTimeWindow(searchedEvents, timezoneForEvent, selectedTimeWindow, customRange),
+    [customRange, searchedEvents, selectedTimeWindow, timezoneForEvent],
+  );
+
+  useEffect(() => {
+    if (!debouncedLocalSearchText || usesApiTextSearch || loading) return;
+    if (localSearchText !== debouncedLocalSearchText) return;
+    const showsBaseListing =
+      queriedZones.length > 0 &&
+      queriedZones.every((zone) => responseQueryByTown[zone.slug] === queryForApi);
+    if (!showsBaseListing || timeWindowEvents.length >= MIN_LOCAL_SEARCH_RESULTS) return;
+    setEscalatedSearch(debouncedLocalSearchText);
+  }, [
+    debouncedLocalSearchText,
+    loading,
+    localSearchText,
+    queriedZones,
+    queryForApi,
+    responseQueryByTown,
+    timeWindowEvents.length,
+    usesApiTextSearch,
+  ]);
+
+  const {
+    coordinatesFor,
+    priceFieldsFor,
+    isResolving: resolvingDetails,
+  } = useListingDetails(
+    timeWindowEvents,
+    { coordinates: Boolean(homePoint), price: priceFilter !== "any" },
+    API_BASE_URL,
+  );
+  const townCurrency = currencyForCountry(displayResponseForActiveTown?.town?.countryCode);
+  const priceFor = useCallback(
+    (event: RaycastEvent) => {
+      const fields = priceFieldsFor(event);
+      return eventPrice(event, fields.priceInfo, fields.isFree);
+    },
+    [priceFieldsFor],
+  );
+  const priceFilteredEvents = useMemo(
+    () =>
+      timeWindowEvents.filter((event) => matchesPriceFilter(priceFor(event), priceFilter, townCurrency)),
+    [priceFilter, priceFor, timeWindowEvents, townCurrency],
+  );
+  const distanceFor = useCallback(
+    (event: RaycastEvent): number | null =>
+      homePoint ? distanceKmFrom(homePoint, coordinatesFor(event)) : null,
+    [coordinatesFor, homePoint],
+  );
+  const listedEvents = useMemo(
+    () => filterEventsWithinKm(priceFilteredEvents, homePoint ? maxDistanceKm : null, distanceFor),
+    [distanceFor, homePoint, maxDistanceKm, priceFilteredEvents],
+  );
+  const sortsByDistance = sortMode === "distance" && Boolean(homePoint);
+  const seriesByKey = useMemo(() => buildEventSeries(categoryFilteredEvents), [categoryFilteredEvents]);
+  const collapsedEvents = useMemo(
+    () => collapseEventSeries(listedEvents, seriesByKey),
+    [listedEvents, seriesByKey],
   );
 
-  const daySections = useMemo(
-    () => groupEventsByDay(timeWindowEvents, sectionTimezone),
-    [timeWindowEvents, sectionTimezone],
+  // Distance and search-rank sorting happen within each day so the day sections stay in date order.
+  const daySections = useMemo(() => {
+    const sections = groupEventsByDay(collapsedEvents.events, timezoneForEvent, dateFormat);
+    if (sortsByDistance) {
+      return sections.map((section) => ({
+        ...section,
+        events: sortEventsByDistance(section.events, distanceFor),
+      }));
+    }
+    if (!searchRankById) return sections;
+    const rankOf = (event: RaycastEvent): number => searchRankById.get(event.id) ?? Number.MAX_SAFE_INTEGER;
+    return sections.map((section) => ({
+      ...section,
+      events: [...section.events].sort((a, b) => rankOf(a) - rankOf(b)),
+    }));
+  }, [collapsedEvents, dateFormat, distanceFor, searchRankById, sortsByDistance, timezoneForEvent]);
+  const firstIncompleteKey = useMemo(
+    () => firstIncompleteDayKey(townResponses, sectionTimezone),
+    [sectionTimezone, townResponses],
   );
-  const hasSeenTownData = Boolean(effectiveTownSlug && hasLoadedTownData[effectiveTownSlug]);
+  const hasSeenTownData = queriedZones.some((zone) => hasLoadedTownData[zone.slug]);
   const shouldShowLoadingResults = loading && !displayResponseForActiveTown;
   const shouldShowNoEvents =
     !loading &&
@@ -510,10 +944,10 @@ export default function Command(
       (category) => category !== CATEGORY_ALL && isMeaningfulCategory(category),
     ).length;
     if (selectedCategory === CATEGORY_ALL) {
-      return `${availableCount} categories`;
+      return messages.categoryCount(availableCount);
     }
     return selectedCategory;
-  }, [categoryOptions, selectedCategory]);
+  }, [categoryOptions, messages, selectedCategory]);
 
   const setHomeZone = async (zone: ActiveZoneOption): Promise<void> => {
     setSelectedTownValue(toZoneValue(zone.id));
@@ -521,12 +955,21 @@ export default function Command(
     await LocalStorage.setItem(HOME_ZONE_STORAGE_KEY, String(zone.id));
   };
 
+  const applyMultiTownZoneIds = async (zoneIds: number[]): Promise<void> => {
+    setMultiTownZoneIds(zoneIds);
+    await saveMultiTownZoneIds(zoneIds);
+  };
+
   const onHomeZoneChange = async (value: string): Promise<void> => {
     if (value === NO_ZONE_VALUE) return;
     const zoneId = parseZoneId(value);
     if (zoneId === null) return;
     const zone = zones.find((item) => item.id === zoneId);
     if (!zone) return;
+    // Picking a single town from the dropdown leaves multi-town mode.
+    if (multiTownMode && value !== selectedTownValue) {
+      await applyMultiTownZoneIds([]);
+    }
     await setHomeZone(zone);
   };
 
@@ -538,6 +981,51 @@ export default function Command(
     await LocalStorage.removeItem(HOME_ZONE_STORAGE_KEY);
   };
 
+  const exportListedEvents = async (): Promise<void> => {
+    const entries = listedEvents
+      .map((event) => calendarEntryFromEvent(event, resolveEventUrl(event.url)))
+      .filter((entry): entry is CalendarEntry => Boolean(entry));
+
+    if (!entries.length) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.noEventsToExport,
+      });
+      return;
+    }
+
+    const label = `${listingTownName} ${timeWindowLabel(selectedTimeWindow, customRange, messages, dateFormat)}`;
+    try {
+      const filePath = await saveCalendarFile(
+        calendarFileName(`townspot ${label}`),
+        buildCalendarFile(entries, `TownSpot ${SMALL_DOT} ${label}`),
+      );
+      await showToast({
+        style: Toast.Style.Success,
+        title: messages.exportedEvents(entries.length),
+        message: filePath,
+        primaryAction: {
+          title: messages.openInCalendar,
+          onAction: () => {
+            void open(filePath);
+          },
+        },
+        secondaryAction: {
+          title: messages.showInFinder,
+          onAction: () => {
+            void showInFinder(filePath);
+          },
+        },
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.calendarExportFailed,
+        message: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
   const applyCategory = (category: string): void => {
     setManualCategoryQuery(normalizedQuery);
     setSelectedCategory(category);
@@ -548,6 +1036,36 @@ export default function Command(
     setSelectedTimeWindow(timeWindow);
   };
 
+  const applyCustomRange = (range: CustomDateRange): void => {
+    setCustomRange(range);
+    applyTimeWindow("custom");
+  };
+
+  // The saved category and time window win over anything inferred from the saved query.
+  const applySavedSearch = async (search: SavedSearchDraft): Promise<void> => {
+    const normalized = normalizeInferenceQuery(search.query);
+    setSearchText(search.query);
+    setManualCategoryQuery(normalized);
+    setSelectedCategory(search.category);
+    setManualTimeWindowQuery(normalized);
+    if (search.customRange) setCustomRange(search.customRange);
+    setSelectedTimeWindow(
+      search.timeWindow === "custom" && !search.customRange ? DEFAULT_TIME_WINDOW : search.timeWindow,
+    );
+    const zone = search.townSlug ? zones.find((item) => item.slug === search.townSlug) : undefined;
+    if (!zone) return;
+    if (multiTownMode) {
+      await applyMultiTownZoneIds([]);
+    }
+    setSelectedTownValue(toZoneValue(zone.id));
+  };
+
+  useEffect(() => {
+    if (!launchedSearch || !selectionHydrated) return;
+    setLaunchedSearch(null);
+    void applySavedSearch(launchedSearch);
+  }, [applySavedSearch, launchedSearch, selectionHydrated]);
+
   const cycleCategory = (direction: 1 | -1): void => {
     const ordered = categoryOptions;
     if (!ordered.length) return;
@@ -566,7 +1084,7 @@ export default function Command(
   };
 
   const cycleTimeWindow = (direction: 1 | -1): void => {
-    const ordered = TIME_WINDOW_OPTIONS;
+    const ordered = timeWindowChoices;
     if (!ordered.length) return;
     const currentIndex = Math.max(
       0,
@@ -584,22 +1102,135 @@ export default function Command(
     cycleTimeWindow(-1);
   };
 
+  const applyHomePoint = async (point: HomePoint): Promise<void> => {
+    setHomePoint(point);
+    await saveHomePoint(point);
+    await showToast({ style: Toast.Style.Success, title: messages.homePointSaved, message: point.label });
+  };
+
+  const removeHomePoint = async (): Promise<void> => {
+    setHomePoint(null);
+    setMaxDistanceKm(null);
+    setSortMode("time");
+    await clearHomePoint();
+    await showToast({ style: Toast.Style.Success, title: messages.homePointCleared });
+  };
+
+  const nextDistanceFilter = (): void => {
+    const ordered: (number | null)[] = [null, ...DISTANCE_FILTER_KM];
+    const currentIndex = Math.max(0, ordered.indexOf(maxDistanceKm));
+    setMaxDistanceKm(ordered[(currentIndex + 1) % ordered.length]);
+  };
+
+  const toggleSortMode = (): void => {
+    setSortMode((current) => (current === "distance" ? "time" : "distance"));
+  };
+
+  const priceFilterOptions: PriceFilter[] = ["any", "free", ...PRICE_FILTER_LIMITS];
+  const priceFilterLabel = (filter: PriceFilter): string => {
+    if (filter === "any") return messages.anyPrice;
+    if (filter === "free") return messages.free;
+    return messages.underPrice(formatMoney(filter, townCurrency, locale));
+  };
+
+  const nextPriceFilter = (): void => {
+    const currentIndex = Math.max(0, priceFilterOptions.indexOf(priceFilter));
+    setPriceFilter(priceFilterOptions[(currentIndex + 1) % priceFilterOptions.length]);
+  };
+
+  const distanceFilterLabel =
+    maxDistanceKm === null
+      ? messages.anyDistance
+      : messages.withinDistance(formatDistance(maxDistanceKm, locale));
+
+  const currentSearch: SavedSearchDraft = {
+    name: searchText.trim() || timeWindowLabel(selectedTimeWindow, customRange, messages, dateFormat),
+    query: searchText.trim(),
+    category: selectedCategory,
+    timeWindow: selectedTimeWindow,
+    customRange: selectedTimeWindow === "custom" ? customRange : null,
+    townSlug: multiTownMode ? null : selectedZone?.slug || null,
+    townName: multiTownMode ? undefined : selectedZone?.name,
+  };
+  const searchTowns = zones.map((zone) => ({ slug: zone.slug, name: zone.name }));
+  const diagnosticsAction = (
+    <Action.Push title={messages.showApiDiagnostics} icon={Icon.Bug} target={<ApiDiagnosticsView />} />
+  );
+  const savedSearchActions = (
+    <>
+      <Action.Push
+        title={messages.saveCurrentSearch}
+        icon={Icon.SaveDocument}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+        target={
+          <SavedSearchFormView
+            initialSearch={currentSearch}
+            categories={categoryOptions}
+            towns={searchTowns}
+            allCategory={CATEGORY_ALL}
+            isNew
+            onSubmit={(draft) => saveSearch(draft)}
+          />
+        }
+      />
+      <Action.Push
+        title={messages.manageSavedSearches}
+        icon={Icon.MagnifyingGlass}
+        target={
+          <SavedSearchesView
+            currentSearch={currentSearch}
+            categories={categoryOptions}
+            towns={searchTowns}
+            allCategory={CATEGORY_ALL}
+            onRun={(search) => {
+              void applySavedSearch(search);
+            }}
+            onChange={() => {
+              void reloadSavedSearches();
+            }}
+          />
+        }
+      />
+    </>
+  );
+  const showsQuickSearches = !searchText.trim() || shouldShowNoEvents;
+
+  const homePointForm = (
+    <HomePointFormView
+      apiBaseUrl={API_BASE_URL}
+      townSlug={effectiveTownSlug}
+      initialPoint={homePoint}
+      onSubmit={applyHomePoint}
+    />
+  );
+
   return (
     <List
-      navigationTitle={needsHomeZone ? "TownSpot" : `${activeTownName} · ${activeThisWeekLabel}`}
-      isLoading={loading || zonesLoading || homeZoneLoading}
+      navigationTitle={
+        needsHomeZone
+          ? "TownSpot"
+          : multiTownMode
+            ? listingTownName
+            : `${activeTownName} ${SMALL_DOT} ${activeThisWeekLabel}`
+      }
+      isLoading={loading || loadingMore || zonesLoading || homeZoneLoading || detectingTown || resolvingDetails}
+      pagination={{
+        onLoadMore: () => void loadMoreEvents(),
+        hasMore: !loading && pagedTownSlugs.length > 0,
+        pageSize: API_EVENT_PAGE_SIZE,
+      }}
       searchBarPlaceholder={
         !selectionHydrated
-          ? "Loading your hometown..."
+          ? messages.loadingYourHometown
           : needsHomeZone
-          ? "Set your hometown from the dropdown to start"
+          ? messages.setHometownPrompt
           : personalizedPlaceholder
       }
       searchText={searchText}
       onSearchTextChange={setSearchText}
       searchBarAccessory={
         <List.Dropdown
-          tooltip="Hometown"
+          tooltip={messages.hometown}
           value={selectedTownValue}
           onChange={(value) => {
             void onHomeZoneChange(value);
@@ -609,9 +1240,9 @@ export default function Command(
             value={NO_ZONE_VALUE}
             title={
               !selectionHydrated
-                ? "Loading Hometown..."
+                ? messages.loadingHometown
                 : needsHomeZone
-                  ? "Set hometown..."
+                  ? messages.setHometownItem
                   : selectedZoneTitle || `${activeTownName} ${SMALL_DOT} ${activeThisWeekLabel}`
             }
             icon={Icon.Pin}
@@ -622,7 +1253,7 @@ export default function Command(
                 <List.Dropdown.Item
                   key={zone.id}
                   value={toZoneValue(zone.id)}
-                  title={zoneDropdownTitle(zone)}
+                  title={zoneDropdownTitle(zone, messages)}
                 />
               ))}
             </List.Dropdown.Section>
@@ -633,18 +1264,58 @@ export default function Command(
     >
       {!selectionHydrated ? null : needsHomeZone ? (
         <>
+          {detectingTown ? (
+            <List.Section title={messages.suggestedHometown}>
+              <List.Item key="detecting-town" title={messages.detectingHometown} icon={Icon.Geopin} />
+            </List.Section>
+          ) : suggestedZone && townSuggestion ? (
+            <List.Section title={messages.suggestedHometown}>
+              <List.Item
+                key={`suggested-${suggestedZone.id}`}
+                title={suggestedZone.name}
+                subtitle={
+                  townSuggestion.source === "detected"
+                    ? messages.detectedTownHint
+                    : messages.fallbackTownHint
+                }
+                icon={Icon.Geopin}
+                accessories={[
+                  {
+                    tag: {
+                      value:
+                        townSuggestion.source === "detected"
+                          ? messages.detectedNearYou
+                          : messages.fallbackSuggestion,
+                      color: townSuggestion.source === "detected" ? Color.Green : Color.SecondaryText,
+                    },
+                  },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      title={messages.setHometownTo(suggestedZone.name)}
+                      icon={Icon.Pin}
+                      onAction={() => {
+                        void setHomeZone(suggestedZone);
+                      }}
+                    />
+                  </ActionPanel>
+                }
+              />
+            </List.Section>
+          ) : null}
           {zoneGroups.map((group) => (
             <List.Section key={group.countryCode} title={group.countryName}>
               {group.zones.map((zone) => (
                 <List.Item
                   key={zone.id}
                   title={zone.name}
-                  subtitle={zoneActivityLabel(zone) || "Active town"}
+                  subtitle={zoneActivityLabel(zone, messages) || messages.activeTown}
                   icon={Icon.Pin}
                   actions={
                     <ActionPanel>
                       <Action
-                        title={`Set hometown: ${zone.name}`}
+                        title={messages.setHometownTo(zone.name)}
                         onAction={() => {
                           void setHomeZone(zone);
                         }}
@@ -655,16 +1326,16 @@ export default function Command(
               ))}
             </List.Section>
           ))}
-          <List.Section title="Not from around here?">
+          <List.Section title={messages.notFromAroundHere}>
             <List.Item
               key="waitlist-town"
-              title="Not from around here, huh?"
-              subtitle="Tell us your town →"
+              title={messages.notFromAroundHereHuh}
+              subtitle={messages.tellUsYourTownArrow}
               icon={Icon.SpeechBubble}
               actions={
                 <ActionPanel>
                   <Action.Push
-                    title="Tell us your town"
+                    title={messages.tellUsYourTown}
                     target={<WaitlistFormView endpointUrl={WAITLIST_ENDPOINT} />}
                   />
                 </ActionPanel>
@@ -674,43 +1345,65 @@ export default function Command(
         </>
       ) : (
         <>
-          <List.Section title="Filters">
+          <List.Section title={messages.filters}>
             <List.Item
-              title="When"
-              subtitle={`${timeWindowLabel(selectedTimeWindow)}. Press Enter, then use ↑/↓.`}
+              title={messages.when}
+              subtitle={messages.pressEnterHint(
+                timeWindowLabel(selectedTimeWindow, customRange, messages, dateFormat),
+              )}
               icon={Icon.Clock}
-              accessories={[{ text: `${timeWindowEvents.length} events` }]}
+              accessories={[
+                ...(cacheAgeLabel
+                  ? [
+                      {
+                        tag: { value: messages.updatedAgo(cacheAgeLabel), color: Color.Orange },
+                        tooltip: messages.savedListings,
+                      },
+                    ]
+                  : []),
+                { text: messages.eventCount(listedEvents.length) },
+              ]}
               actions={
                 <ActionPanel>
                   <Action.Push
-                    title="Choose Time Window"
+                    title={messages.chooseTimeWindow}
                     target={
                       <TimeWindowPickerView
-                        options={TIME_WINDOW_OPTIONS}
+                        options={timeWindowChoices}
                         selectedTimeWindow={selectedTimeWindow}
                         onSelect={applyTimeWindow}
+                        customRange={customRange}
+                        onSelectCustomRange={applyCustomRange}
                       />
                     }
                   />
                   <Action
-                    title="Next Time Window"
+                    title={messages.nextTimeWindow}
                     shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
                     onAction={nextTimeWindow}
                   />
                   <Action
-                    title="Previous Time Window"
+                    title={messages.previousTimeWindow}
                     shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
                     onAction={previousTimeWindow}
                   />
-                  {TIME_WINDOW_OPTIONS.map((option) => (
+                  {timeWindowChoices.map((option) => (
                     <Action
                       key={option.id}
-                      title={`Show ${option.title}`}
+                      title={messages.show(option.title)}
                       onAction={() => applyTimeWindow(option.id)}
                     />
                   ))}
                   <Action
-                    title="Reset hometown"
+                    title={messages.exportListedEvents}
+                    icon={Icon.Calendar}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                    onAction={() => {
+                      void exportListedEvents();
+                    }}
+                  />
+                  <Action
+                    title={messages.resetHometown}
                     shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
                     onAction={() => {
                       void resetHomeZone();
@@ -720,38 +1413,39 @@ export default function Command(
               }
             />
             <List.Item
-              title="Categories"
+              title={messages.categories}
               subtitle={
                 selectedCategory === CATEGORY_ALL
-                  ? "All categories. Press Enter, then use ↑/↓."
-                  : `Selected: ${selectedCategory}. Press Enter, then use ↑/↓.`
+                  ? messages.allCategoriesHint
+                  : messages.selectedCategoryHint(selectedCategory)
               }
               icon={Icon.AppWindowGrid2x2}
               accessories={[{ text: categorySummaryText, icon: Icon.ChevronRight }]}
               actions={
                 <ActionPanel>
                   <Action.Push
-                    title="Choose Category"
+                    title={messages.chooseCategory}
                     target={
                       <CategoryPickerView
                         categories={categoryOptions}
                         selectedCategory={selectedCategory}
                         onSelect={applyCategory}
+                        categoryLabel={categoryLabel}
                       />
                     }
                   />
                   <Action
-                    title="Next Category"
+                    title={messages.nextCategory}
                     shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
                     onAction={nextCategory}
                   />
                   <Action
-                    title="Previous Category"
+                    title={messages.previousCategory}
                     shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
                     onAction={previousCategory}
                   />
                   <Action
-                    title="Show All Categories"
+                    title={messages.showAllCategories}
                     onAction={() => applyCategory(CATEGORY_ALL)}
                   />
                   {categoryOptions
@@ -759,39 +1453,215 @@ export default function Command(
                     .map((category) => (
                       <Action
                         key={category}
-                        title={`Show ${category}`}
+                        title={messages.show(category)}
                         onAction={() => applyCategory(category)}
                       />
                     ))}
                 </ActionPanel>
               }
             />
+            <List.Item
+              title={messages.price}
+              subtitle={
+                priceFilter === "any"
+                  ? priceFilterLabel(priceFilter)
+                  : `${priceFilterLabel(priceFilter)} ${SMALL_DOT} ${messages.priceFilterHint}`
+              }
+              icon={Icon.Coins}
+              accessories={
+                priceFilter !== "any" && resolvingDetails ? [{ text: messages.checkingPrices }] : []
+              }
+              actions={
+                <ActionPanel>
+                  <Action
+                    title={messages.nextPriceFilter}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                    onAction={nextPriceFilter}
+                  />
+                  {priceFilterOptions.map((option) => (
+                    <Action
+                      key={String(option)}
+                      title={messages.show(priceFilterLabel(option))}
+                      onAction={() => setPriceFilter(option)}
+                    />
+                  ))}
+                </ActionPanel>
+              }
+            />
+            {zones.length > 1 && selectedZone ? (
+              <List.Item
+                title={messages.towns}
+                subtitle={
+                  multiTownMode
+                    ? listingTownName
+                    : `${messages.onlyTown(activeTownName)} ${SMALL_DOT} ${messages.addTownsHint}`
+                }
+                icon={Icon.Map}
+                accessories={multiTownMode ? [{ text: messages.townCount(multiTownZones.length) }] : []}
+                actions={
+                  <ActionPanel>
+                    <Action.Push
+                      title={messages.chooseTowns}
+                      icon={Icon.Map}
+                      target={
+                        <TownPickerView
+                          zones={zones}
+                          selectedZoneIds={
+                            multiTownMode ? multiTownZones.map((zone) => zone.id) : [selectedZone.id]
+                          }
+                          onSubmit={applyMultiTownZoneIds}
+                        />
+                      }
+                    />
+                    {multiTownMode ? (
+                      <Action
+                        title={messages.backToSingleTown(activeTownName)}
+                        icon={Icon.Pin}
+                        onAction={() => {
+                          void applyMultiTownZoneIds([]);
+                        }}
+                      />
+                    ) : null}
+                  </ActionPanel>
+                }
+              />
+            ) : null}
+            <List.Item
+              title={messages.distance}
+              subtitle={
+                homePoint
+                  ? [distanceFilterLabel, sortsByDistance ? messages.nearestFirst : ""]
+                      .filter(Boolean)
+                      .join(` ${SMALL_DOT} `)
+                  : messages.setHomePointHint
+              }
+              icon={Icon.Geopin}
+              accessories={
+                homePoint
+                  ? [
+                      ...(resolvingDetails ? [{ text: messages.locatingVenues }] : []),
+                      { text: homePoint.label, icon: Icon.House, tooltip: messages.homePoint },
+                    ]
+                  : [{ icon: Icon.ChevronRight }]
+              }
+              actions={
+                homePoint ? (
+                  <ActionPanel>
+                    <Action
+                      title={messages.nextDistanceFilter}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                      onAction={nextDistanceFilter}
+                    />
+                    <Action
+                      title={sortsByDistance ? messages.sortByTime : messages.sortByDistance}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                      onAction={toggleSortMode}
+                    />
+                    <Action
+                      title={messages.show(messages.anyDistance)}
+                      onAction={() => setMaxDistanceKm(null)}
+                    />
+                    {DISTANCE_FILTER_KM.map((km) => (
+                      <Action
+                        key={km}
+                        title={messages.show(messages.withinDistance(formatDistance(km, locale)))}
+                        onAction={() => setMaxDistanceKm(km)}
+                      />
+                    ))}
+                    <Action.Push title={messages.changeHomePoint} icon={Icon.House} target={homePointForm} />
+                    <Action
+                      title={messages.clearHomePoint}
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      onAction={() => {
+                        void removeHomePoint();
+                      }}
+                    />
+                  </ActionPanel>
+                ) : (
+                  <ActionPanel>
+                    <Action.Push title={messages.setHomePoint} icon={Icon.House} target={homePointForm} />
+                  </ActionPanel>
+                )
+              }
+            />
           </List.Section>
 
           {daySections.length ? (
             daySections.map((section) => (
-              <List.Section key={section.id} title={section.title}>
+              <List.Section
+                key={section.id}
+                title={section.title}
+                subtitle={
+                  isDayComplete(section.id, firstIncompleteKey)
+                    ? messages.daySectionComplete(section.events.length)
+                    : messages.daySectionPartial(section.events.length)
+                }
+              >
                 {section.events.map((event) => {
                   const resolvedEventUrl = resolveEventUrl(event.url);
-                  const timeLabel = formatEventTime(event.startTime, sectionTimezone);
-                  const liveTag = relativeStartTag(event);
+                  const eventTowns = mergedListing?.townsByEventId[event.id] || [];
+                  const eventTownSlug = eventTowns[0]?.slug || effectiveTownSlug;
+                  const eventTownName = eventTowns[0]?.name || activeTownName;
+                  const eventTimezone = timezoneForEvent(event);
+                  const timeLabel = formatEventTime(event.startTime, eventTimezone, dateFormat);
+                  const series = collapsedEvents.seriesByEventId[event.id];
+                  const liveTag = relativeStartTag(event, dateFormat);
                   const tagParts = splitEventTags(event.tags || []);
                   const accessories: List.Item.Accessory[] = [];
-                  const statusLabel =
-                    liveTag === "NOW"
-                      ? "· NOW"
-                      : liveTag
-                        ? `· ${liveTag}`
-                        : "";
+                  const statusLabel = liveTag ? `${SMALL_DOT} ${liveTag}` : "";
                   const categoriesLabel = toCategoriesLabel(tagParts.categories);
                   const subtitle = [statusLabel, categoriesLabel].filter(Boolean).join(" · ");
+                  if (isSaved(event.id)) {
+                    accessories.push({
+                      icon: { source: Icon.Star, tintColor: Color.Yellow },
+                      tooltip: messages.inMyPlans,
+                    });
+                  }
+                  if (series) {
+                    accessories.push(
+                      {
+                        tag: { value: series.frequency || messages.repeats, color: Color.Purple },
+                        tooltip: messages.recurrence,
+                      },
+                      { text: messages.dateCount(series.events.length) },
+                    );
+                  }
+                  if (eventTowns.length) {
+                    accessories.push({
+                      tag: { value: eventTowns.map((town) => town.name).join(", "), color: Color.Blue },
+                      tooltip: messages.towns,
+                    });
+                  }
+                  const followsVenue = isFollowedVenue(event.venueName);
                   accessories.push({
-                    icon: Icon.Pin,
+                    icon: followsVenue ? { source: Icon.Heart, tintColor: Color.Magenta } : Icon.Pin,
                     text: {
-                      value: event.venueName || activeTownName,
-                      color: Color.SecondaryText,
+                      value: event.venueName || eventTownName,
+                      color: followsVenue ? Color.Magenta : Color.SecondaryText,
                     },
+                    tooltip: followsVenue ? messages.following : undefined,
                   });
+                  if (priceFilter !== "any") {
+                    const price = priceFor(event);
+                    const priceLabel =
+                      price?.kind === "free"
+                        ? messages.free
+                        : price
+                          ? formatParsedPrice(price, townCurrency, locale)
+                          : null;
+                    if (priceLabel) {
+                      accessories.push({ text: priceLabel, icon: Icon.Coins });
+                    }
+                  }
+                  const distanceKm = distanceFor(event);
+                  if (homePoint && distanceKm !== null) {
+                    const distanceLabel = formatDistance(distanceKm, locale);
+                    accessories.push({
+                      text: distanceLabel,
+                      tooltip: messages.distanceFrom(distanceLabel, homePoint.label),
+                    });
+                  }
                   const title = [timeLabel, event.title].filter(Boolean).join("  ");
 
                   return (
@@ -803,65 +1673,158 @@ export default function Command(
                       accessories={accessories}
                       actions={
                         <ActionPanel>
-                          <ActionPanel.Section title="Event">
+                          <ActionPanel.Section title={messages.event}>
+                            {series ? (
+                              <Action.Push
+                                title={messages.viewAllDates}
+                                icon={Icon.List}
+                                target={
+                                  <EventSeriesView
+                                    series={series}
+                                    timezone={eventTimezone}
+                                    apiBaseUrl={API_BASE_URL}
+                                    townSlug={eventTownSlug}
+                                    townName={eventTownName}
+                                    onSavedChange={() => {
+                                      void reloadSavedEvents();
+                                    }}
+                                  />
+                                }
+                              />
+                            ) : null}
                             <Action.Push
-                              title="View Event Details"
+                              title={series ? messages.viewNextDate : messages.viewEventDetails}
                               target={
                                 <EventDetailView
                                   event={event}
-                                  timezone={sectionTimezone}
+                                  timezone={eventTimezone}
                                   url={resolvedEventUrl}
-                                  apiBaseUrl={PROD_API_BASE_URL}
+                                  apiBaseUrl={API_BASE_URL}
+                                  townSlug={eventTownSlug}
+                                  townName={eventTownName}
+                                  onSavedChange={() => {
+                                    void reloadSavedEvents();
+                                  }}
                                 />
                               }
                             />
+                            <Action
+                              title={isSaved(event.id) ? messages.removeFromMyPlans : messages.saveToMyPlans}
+                              icon={isSaved(event.id) ? Icon.StarDisabled : Icon.Star}
+                              shortcut={{ modifiers: ["cmd"], key: "s" }}
+                              onAction={() => {
+                                void toggleSaved({
+                                  event,
+                                  townSlug: eventTownSlug,
+                                  townName: eventTownName,
+                                  timezone: eventTimezone,
+                                });
+                              }}
+                            />
                             <Action.OpenInBrowser
-                              title="Open on Website"
+                              title={messages.openOnWebsite}
                               url={resolvedEventUrl}
                             />
                             <Action.CopyToClipboard
-                              title="Copy Event Link"
+                              title={messages.copyEventLink}
                               content={resolvedEventUrl}
                             />
                           </ActionPanel.Section>
-                          <ActionPanel.Section title="Filters">
+                          <ActionPanel.Section title={messages.venues}>
+                            <Action.Push
+                              title={messages.browseVenues}
+                              icon={Icon.Pin}
+                              shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+                              target={
+                                <VenuesView
+                                  events={displayResponseForActiveTown?.events || []}
+                                  townFor={townForEvent}
+                                  apiBaseUrl={API_BASE_URL}
+                                  onSavedChange={() => {
+                                    void reloadSavedEvents();
+                                  }}
+                                  onFollowedChange={() => {
+                                    void reloadFollowedVenues();
+                                  }}
+                                />
+                              }
+                            />
+                            {event.venueName ? (
+                              <Action
+                                title={followsVenue ? messages.unfollowVenue : messages.followVenue}
+                                icon={followsVenue ? Icon.HeartDisabled : Icon.Heart}
+                                shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+                                onAction={() => {
+                                  void toggleFollowedVenue(event.venueName);
+                                }}
+                              />
+                            ) : null}
+                          </ActionPanel.Section>
+                          <ActionPanel.Section title={messages.calendar}>
                             <Action
-                              title="Show Events Happening Now"
+                              title={messages.exportListedEvents}
+                              icon={Icon.Calendar}
+                              shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                              onAction={() => {
+                                void exportListedEvents();
+                              }}
+                            />
+                          </ActionPanel.Section>
+                          <ActionPanel.Section title={messages.filters}>
+                            <Action
+                              title={messages.showEventsHappeningNow}
                               onAction={() => applyTimeWindow("now")}
                             />
                             <Action
-                              title="Next Category"
+                              title={messages.nextCategory}
                               shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
                               onAction={nextCategory}
                             />
                             <Action
-                              title="Previous Category"
+                              title={messages.previousCategory}
                               shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
                               onAction={previousCategory}
                             />
                             <Action
-                              title="Next Time Window"
+                              title={messages.nextTimeWindow}
                               shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
                               onAction={nextTimeWindow}
                             />
                             <Action
-                              title="Previous Time Window"
+                              title={messages.previousTimeWindow}
                               shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
                               onAction={previousTimeWindow}
                             />
+                            {homePoint ? (
+                              <Action
+                                title={sortsByDistance ? messages.sortByTime : messages.sortByDistance}
+                                shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                                onAction={toggleSortMode}
+                              />
+                            ) : null}
+                            {homePoint ? (
+                              <Action
+                                title={messages.nextDistanceFilter}
+                                shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                                onAction={nextDistanceFilter}
+                              />
+                            ) : null}
                             <Action
-                              title="Show Today + Tomorrow"
+                              title={messages.showTodayTomorrow}
                               onAction={() => applyTimeWindow("today_tomorrow")}
                             />
                             <Action
-                              title="Show Kids Events"
+                              title={messages.showKidsEvents}
                               onAction={() => applyCategory("Kids")}
                             />
                             <Action
-                              title="Show All Categories"
+                              title={messages.showAllCategories}
                               onAction={() => applyCategory(CATEGORY_ALL)}
                             />
                           </ActionPanel.Section>
+                          <ActionPanel.Section title={messages.savedSearches}>
+                            {savedSearchActions}
+                          </ActionPanel.Section>
                         </ActionPanel>
                       }
                     />
@@ -870,31 +1833,31 @@ export default function Command(
               </List.Section>
             ))
           ) : shouldShowLoadingResults ? (
-            <List.Section title="Today">
+            <List.Section title={messages.timeWindows.today}>
               <List.Item
-                title="Loading events…"
-                subtitle="Pulling the latest listings for your town."
+                title={messages.loadingEvents}
+                subtitle={messages.loadingEventsHint}
                 icon={Icon.Clock}
               />
             </List.Section>
           ) : shouldShowNoEvents ? (
-            <List.Section title="Today">
+            <List.Section title={messages.timeWindows.today}>
               <List.Item
-                title="No events for this search"
-                subtitle="Try broadening your query or switch to another time window."
+                title={messages.noEventsForSearch}
+                subtitle={messages.noEventsHint}
                 icon={Icon.Calendar}
                 actions={
                   <ActionPanel>
                     <Action
-                      title="Show All Upcoming"
+                      title={messages.showAllUpcoming}
                       onAction={() => applyTimeWindow("all_upcoming")}
                     />
                     <Action
-                      title="Search This Weekend"
-                      onAction={() => setSearchText("what's on this weekend")}
+                      title={messages.searchThisWeekend}
+                      onAction={() => setSearchText(messages.thisWeekendQuery)}
                     />
                     <Action
-                      title="Show Events Happening Now"
+                      title={messages.showEventsHappeningNow}
                       onAction={() => applyTimeWindow("now")}
                     />
                   </ActionPanel>
@@ -902,42 +1865,104 @@ export default function Command(
               />
             </List.Section>
           ) : null}
+          {showsQuickSearches ? (
+            <List.Section title={messages.quickSearches}>
+              {savedSearches.map((search) => (
+                <List.Item
+                  key={`saved-${search.id}`}
+                  title={search.name}
+                  subtitle={search.query}
+                  icon={Icon.MagnifyingGlass}
+                  accessories={search.townName ? [{ text: search.townName, icon: Icon.Pin }] : []}
+                  actions={
+                    <ActionPanel>
+                      <Action
+                        title={messages.runSearch}
+                        icon={Icon.ArrowRight}
+                        onAction={() => {
+                          void applySavedSearch(search);
+                        }}
+                      />
+                      <Action.CreateQuicklink
+                        title={messages.createQuicklink}
+                        quicklink={{ link: savedSearchDeeplink(search), name: search.name }}
+                      />
+                      {savedSearchActions}
+                    </ActionPanel>
+                  }
+                />
+              ))}
+              {QUICK_QUERY_PRESETS.map((preset) => (
+                <List.Item
+                  key={`preset-${preset.id}`}
+                  title={messages.quickQueryPresets[preset.id].title}
+                  subtitle={messages.quickQueryPresets[preset.id].subtitle}
+                  icon={Icon.Bolt}
+                  actions={
+                    <ActionPanel>
+                      <Action
+                        title={messages.runSearch}
+                        icon={Icon.ArrowRight}
+                        onAction={() => setSearchText(preset.query)}
+                      />
+                      {savedSearchActions}
+                    </ActionPanel>
+                  }
+                />
+              ))}
+            </List.Section>
+          ) : null}
         </>
       )}
 
-      {errorMessage ? (
-        <List.Section title="Connection">
-          <List.Item
-            title="Unable to load TownSpot events"
-            subtitle={errorMessage}
-            icon={Icon.ExclamationMark}
-          />
+      {errorMessage || skippedEventCount ? (
+        <List.Section title={messages.connection}>
+          {errorMessage ? (
+            <List.Item
+              title={
+                cacheAgeLabel
+                  ? messages.offlineShowing(cacheAgeLabel)
+                  : messages.unableToLoadEvents
+              }
+              subtitle={errorMessage}
+              icon={Icon.ExclamationMark}
+              actions={<ActionPanel>{diagnosticsAction}</ActionPanel>}
+            />
+          ) : null}
+          {skippedEventCount ? (
+            <List.Item
+              title={messages.skippedMalformedEvents(skippedEventCount)}
+              subtitle={messages.skippedMalformedEventsHint}
+              icon={{ source: Icon.Warning, tintColor: Color.Yellow }}
+              actions={<ActionPanel>{diagnosticsAction}</ActionPanel>}
+            />
+          ) : null}
         </List.Section>
       ) : null}
 
       {zonesError ? (
-        <List.Section title="Hometown">
+        <List.Section title={messages.hometown}>
           <List.Item
-            title="Active towns unavailable"
+            title={messages.activeTownsUnavailable}
             subtitle={zonesError}
             icon={Icon.ExclamationMark}
             actions={
               <ActionPanel>
                 <Action.Push
-                  title="Tell us your town"
+                  title={messages.tellUsYourTown}
                   target={<WaitlistFormView endpointUrl={WAITLIST_ENDPOINT} />}
                 />
               </ActionPanel>
             }
           />
           <List.Item
-            title="Not from around here, huh?"
-            subtitle="Tell us your town →"
+            title={messages.notFromAroundHereHuh}
+            subtitle={messages.tellUsYourTownArrow}
             icon={Icon.SpeechBubble}
             actions={
               <ActionPanel>
                 <Action.Push
-                  title="Tell us your town"
+                  title={messages.tellUsYourTown}
                   target={<WaitlistFormView endpointUrl={WAITLIST_ENDPOINT} />}
                 />
               </ActionPanel>
@@ -947,4 +1972,23 @@ export default function Command(
       ) : null}
     </List>
   );
+};
+
+export default function Command(
+  props: LaunchProps<{ launchContext?: EventLaunchContext | SavedSearchLaunchContext }>,
+) {
+  const launchContext = props.launchContext;
+  if (launchContext && "event" in launchContext) {
+    return (
+      <EventDetailView
+        event={launchContext.event}
+        timezone={launchContext.timezone}
+        url={resolveEventUrl(launchContext.event.url)}
+        apiBaseUrl={API_BASE_URL}
+        townSlug={launchContext.townSlug}
+        townName={launchContext.townName}
+      />
+    );
+  }
+  return <TownSpotList launchContext={launchContext} />;
 }
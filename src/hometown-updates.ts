@@ -0,0 +1,123 @@
+import {
+  environment,
+  LaunchType,
+  LocalStorage,
+  showHUD,
+  showToast,
+  Toast,
+  updateCommandMetadata,
+} from "@raycast/api";
+import { describeApiError } from "./lib/api-client";
+import { resolveApiEnvironment, withEnvironmentLabel } from "./lib/api-environment";
+import { dateFormatPreferences, DEFAULT_TIMEZONE, formatClock, localTimezone } from "./lib/date-format";
+import { filterEventsByTimeWindow } from "./lib/event-listing";
+import { appendEventPage, hasMorePages } from "./lib/event-pages";
+import { messagesForLocale, preferredLocale } from "./lib/i18n";
+import { findNewEvents, loadSeenEvents, saveSeenEvents } from "./lib/new-events";
+import { askTownspot } from "./lib/townspot";
+import { HOME_ZONE_STORAGE_KEY } from "./lib/townspot-ai";
+import { fetchActiveZones } from "./lib/zones";
+
+const API_BASE_URL = resolveApiEnvironment().apiBaseUrl;
+const API_EVENT_FETCH_LIMIT = 120;
+// Caps a background check at a few hundred events however busy the town is.
+const MAX_EVENT_PAGES = 5;
+const SMALL_DOT = "·";
+
+const notify = async (title: string, message?: string): Promise<void> => {
+  if (environment.launchType === LaunchType.Background) {
+    await showHUD(message ? `${title} ${SMALL_DOT} ${message}` : title);
+    return;
+  }
+  await showToast({ style: Toast.Style.Success, title, message });
+};
+
+export default async function Command() {
+  const locale = preferredLocale();
+  const messages = messagesForLocale(locale);
+  const dateFormat = dateFormatPreferences();
+  const isBackground = environment.launchType === LaunchType.Background;
+
+  const storedId = await LocalStorage.getItem<string>(HOME_ZONE_STORAGE_KEY);
+  const homeZoneId = Number(storedId || "");
+  if (!storedId || !Number.isFinite(homeZoneId)) {
+    await updateCommandMetadata({ subtitle: withEnvironmentLabel(messages.setHometownFirst, messages) });
+    if (!isBackground) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.noHometownSet,
+        message: messages.noHometownSetHint,
+      });
+    }
+    return;
+  }
+
+  try {
+    const zones = await fetchActiveZones(API_BASE_URL);
+    const homeZone = zones.find((zone) => zone.id === homeZoneId);
+    if (!homeZone) {
+      await updateCommandMetadata({ subtitle: withEnvironmentLabel(messages.hometownInactive, messages) });
+      return;
+    }
+
+    const fetchPage = (offset: number) =>
+      askTownspot({
+        query: "what's on all upcoming",
+        townSlug: homeZone.slug,
+        locale,
+        apiBaseUrl: API_BASE_URL,
+        limit: API_EVENT_FETCH_LIMIT,
+        offset,
+        conversation: [],
+      });
+    let response = await fetchPage(0);
+    for (let page = 1; page < MAX_EVENT_PAGES && hasMorePages(response); page += 1) {
+      response = appendEventPage(response, await fetchPage(response.nextOffset ?? 0));
+    }
+    const timezone = response.town?.timezone || DEFAULT_TIMEZONE;
+    const upcomingEvents = filterEventsByTimeWindow(response.events || [], timezone, "all_upcoming");
+
+    const previous = await loadSeenEvents(homeZone.slug);
+    const newEvents = findNewEvents(upcomingEvents, previous);
+    await saveSeenEvents(homeZone.slug, upcomingEvents, previous);
+
+    const checkedLabel = messages.checkedAt(formatClock(new Date(), localTimezone(), dateFormat));
+    if (!newEvents.length) {
+      await updateCommandMetadata({
+        subtitle: withEnvironmentLabel(
+          `${homeZone.name} ${SMALL_DOT} ${messages.noNewEventsShort} ${SMALL_DOT} ${checkedLabel}`,
+          messages,
+        ),
+      });
+      if (!isBackground) {
+        await showToast({
+          style: Toast.Style.Success,
+          title: previous ? messages.noNewEvents : messages.watchingEvents(upcomingEvents.length),
+          message: homeZone.name,
+        });
+      }
+      return;
+    }
+
+    const countLabel = messages.newEventCount(newEvents.length);
+    await updateCommandMetadata({
+      subtitle: withEnvironmentLabel(`${homeZone.name} ${SMALL_DOT} ${countLabel} ${SMALL_DOT} ${checkedLabel}`, messages),
+    });
+    await notify(
+      messages.newEventsIn(countLabel, homeZone.name),
+      newEvents
+        .slice(0, 3)
+        .map((event) => event.title)
+        .join(", "),
+    );
+  } catch (error) {
+    await updateCommandMetadata({ subtitle: withEnvironmentLabel(messages.couldNotReachTownSpot, messages) });
+    if (!isBackground) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.couldNotCheckNewEvents,
+        message: describeApiError(error, messages, messages.couldNotReachTownSpot),
+      });
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { updateCommandMetadata } from "@raycast/api";
+import { useEffect } from "react";
+import { environmentLabel } from "../lib/api-environment";
+import { getMessages } from "../lib/i18n";
+
+// Flags a non-production server in the command's subtitle; production keeps the manifest subtitle.
+export const useEnvironmentSubtitle = () => {
+  useEffect(() => {
+    const label = environmentLabel(getMessages());
+    void updateCommandMetadata({ subtitle: label || null });
+  }, []);
+};
@@ -0,0 +1,65 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getMessages } from "../lib/i18n";
+import {
+  addFollowedVenue,
+  FollowedVenue,
+  loadFollowedVenues,
+  removeFollowedVenue,
+  venueKey,
+} from "../lib/venues";
+
+export const useFollowedVenues = () => {
+  const [followedVenues, setFollowedVenues] = useState<FollowedVenue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async (): Promise<void> => {
+    try {
+      setFollowedVenues(await loadFollowedVenues());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const followedKeys = useMemo(
+    () => new Set(followedVenues.map((venue) => venue.key)),
+    [followedVenues],
+  );
+
+  const isFollowed = useCallback(
+    (venueName: string) => {
+      const key = venueKey(venueName);
+      return Boolean(key) && followedKeys.has(key);
+    },
+    [followedKeys],
+  );
+
+  const toggleFollowed = useCallback(
+    async (venueName: string): Promise<void> => {
+      const key = venueKey(venueName);
+      if (!key) return;
+      if (followedKeys.has(key)) {
+        setFollowedVenues(await removeFollowedVenue(key));
+        await showToast({
+          style: Toast.Style.Success,
+          title: getMessages().unfollowedVenue,
+          message: venueName,
+        });
+        return;
+      }
+      setFollowedVenues(await addFollowedVenue(venueName));
+      await showToast({
+        style: Toast.Style.Success,
+        title: getMessages().followingVenue,
+        message: venueName,
+      });
+    },
+    [followedKeys],
+  );
+
+  return { followedVenues, isLoading, isFollowed, toggleFollowed, reload };
+};
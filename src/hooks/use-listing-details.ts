@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { EventDetails, fetchEventDetails, readCachedEventDetails } from "../lib/event-details";
+import { Coordinates, eventCoordinates } from "../lib/home-point";
+import { RaycastEvent } from "../types";
+
+const LOOKUP_CONCURRENCY = 4;
+
+// The few detail fields the list filters on.
+export type ListingDetails = {
+  coordinates: Coordinates | null;
+  priceInfo: string | null;
+  isFree: boolean | null;
+  address: string | null;
+};
+
+type ListingDetailsNeeds = {
+  coordinates: boolean;
+  price: boolean;
+  address?: boolean;
+};
+
+// null means the details request failed; it isn't retried until the next launch.
+type DetailsLookup = Record<string, ListingDetails | null>;
+
+const hasListingPrice = (event: RaycastEvent): boolean =>
+  Boolean(String(event.priceInfo || "").trim()) || typeof event.isFree === "boolean";
+
+const toListingDetails = (details: EventDetails): ListingDetails => ({
+  coordinates:
+    typeof details.lat === "number" && typeof details.lng === "number"
+      ? { lat: details.lat, lng: details.lng }
+      : null,
+  priceInfo: String(details.priceInfo || "").trim() || null,
+  isFree: typeof details.isFree === "boolean" ? details.isFree : null,
+  address: String(details.locationAddress || "").trim() || null,
+});
+
+const lookupDetails = async (
+  apiBaseUrl: string,
+  eventId: string,
+  signal: AbortSignal,
+): Promise<ListingDetails | null> => {
+  try {
+    return toListingDetails(await fetchEventDetails(apiBaseUrl, eventId, signal));
+  } catch {
+    return null;
+  }
+};
+
+// Listing results lack addresses and don't always carry coordinates or prices; fill the gaps from event details.
+// Only the events passed in are looked up, so callers should pass the already-filtered list. Lookups are
+// keyed on which ids are missing: a new list reorders the queue, but requests already under way finish.
+export const useListingDetails = (
+  events: RaycastEvent[],
+  needs: ListingDetailsNeeds,
+  apiBaseUrl: string,
+) => {
+  const [lookup, setLookup] = useState<DetailsLookup>({});
+  const [isResolving, setIsResolving] = useState(false);
+  const lookupRef = useRef(lookup);
+  lookupRef.current = lookup;
+  const queueRef = useRef<string[]>([]);
+  const inFlightRef = useRef(new Set<string>());
+  const controllerRef = useRef<AbortController | null>(null);
+  const needsCoordinates = needs.coordinates;
+  const needsPrice = needs.price;
+  const needsAddress = Boolean(needs.address);
+
+  // Newline-joined so the effect below only reruns when the set of incomplete events changes.
+  const incompleteKey = useMemo(() => {
+    if (!needsCoordinates && !needsPrice && !needsAddress) return "";
+    const incomplete = events
+      .filter(
+        (event) =>
+          needsAddress ||
+          (needsCoordinates && !eventCoordinates(event)) ||
+          (needsPrice && !hasListingPrice(event)),
+      )
+      .map((event) => event.id);
+    return [...new Set(incomplete)].join("\n");
+  }, [events, needsCoordinates, needsPrice, needsAddress]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => {
+      controller.abort();
+      controllerRef.current = null;
+      queueRef.current = [];
+      inFlightRef.current.clear();
+      setIsResolving(false);
+    };
+  }, [apiBaseUrl]);
+
+  useEffect(() => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+
+    const missing: string[] = [];
+    const fromCache: DetailsLookup = {};
+    for (const eventId of incompleteKey ? incompleteKey.split("\n") : []) {
+      if (eventId in lookupRef.current || inFlightRef.current.has(eventId)) continue;
+      const cached = readCachedEventDetails(eventId);
+      if (cached) {
+        fromCache[eventId] = toListingDetails(cached);
+      } else {
+        missing.push(eventId);
+      }
+    }
+
+    if (Object.keys(fromCache).length) {
+      setLookup((previous) => ({ ...previous, ...fromCache }));
+    }
+    // Ids that dropped out of the list are no longer worth fetching.
+    queueRef.current = missing;
+    const idleWorkers = Math.min(LOOKUP_CONCURRENCY - inFlightRef.current.size, missing.length);
+    if (idleWorkers <= 0) return;
+
+    const worker = async () => {
+      while (queueRef.current.length && !controller.signal.aborted) {
+        const eventId = queueRef.current.shift() as string;
+        inFlightRef.current.add(eventId);
+        const details = await lookupDetails(apiBaseUrl, eventId, controller.signal);
+        if (controller.signal.aborted) return;
+        inFlightRef.current.delete(eventId);
+        setLookup((previous) => ({ ...previous, [eventId]: details }));
+      }
+      if (!controller.signal.aborted && !inFlightRef.current.size) setIsResolving(false);
+    };
+
+    setIsResolving(true);
+    for (let index = 0; index < idleWorkers; index += 1) void worker();
+  }, [incompleteKey, apiBaseUrl]);
+
+  const coordinatesFor = useCallback(
+    (event: RaycastEvent): Coordinates | null =>
+      eventCoordinates(event) || lookup[event.id]?.coordinates || null,
+    [lookup],
+  );
+
+  const priceFieldsFor = useCallback(
+    (event: RaycastEvent): { priceInfo: string | null; isFree: boolean | null } =>
+      hasListingPrice(event)
+        ? { priceInfo: event.priceInfo || null, isFree: event.isFree ?? null }
+        : { priceInfo: lookup[event.id]?.priceInfo || null, isFree: lookup[event.id]?.isFree ?? null },
+    [lookup],
+  );
+
+  const addressFor = useCallback(
+    (event: RaycastEvent): string | null => lookup[event.id]?.address || null,
+    [lookup],
+  );
+
+  return { coordinatesFor, priceFieldsFor, addressFor, isResolving };
+};
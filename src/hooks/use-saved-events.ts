@@ -0,0 +1,60 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getMessages } from "../lib/i18n";
+import {
+  addSavedEvent,
+  loadSavedEvents,
+  removeSavedEvent,
+  SavedEvent,
+} from "../lib/saved-events";
+import { RaycastEvent } from "../types";
+
+type SaveTarget = {
+  event: RaycastEvent;
+  townSlug: string;
+  townName?: string;
+  timezone: string;
+};
+
+export const useSavedEvents = () => {
+  const [savedEvents, setSavedEvents] = useState<SavedEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async (): Promise<void> => {
+    try {
+      setSavedEvents(await loadSavedEvents());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const savedIds = useMemo(
+    () => new Set(savedEvents.map((entry) => entry.event.id)),
+    [savedEvents],
+  );
+
+  const isSaved = useCallback((eventId: string) => savedIds.has(eventId), [savedIds]);
+
+  const toggleSaved = useCallback(
+    async (target: SaveTarget): Promise<void> => {
+      if (savedIds.has(target.event.id)) {
+        setSavedEvents(await removeSavedEvent(target.event.id));
+        await showToast({ style: Toast.Style.Success, title: getMessages().removedFromMyPlans });
+        return;
+      }
+      setSavedEvents(await addSavedEvent(target));
+      await showToast({
+        style: Toast.Style.Success,
+        title: getMessages().savedToMyPlans,
+        message: target.event.title,
+      });
+    },
+    [savedIds],
+  );
+
+  return { savedEvents, isLoading, isSaved, toggleSaved, reload };
+};
@@ -0,0 +1,46 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { getMessages } from "../lib/i18n";
+import {
+  addSavedSearch,
+  loadSavedSearches,
+  moveSavedSearch,
+  removeSavedSearch,
+  SavedSearch,
+  SavedSearchDraft,
+  updateSavedSearch,
+} from "../lib/saved-searches";
+
+export const useSavedSearches = () => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async (): Promise<void> => {
+    try {
+      setSavedSearches(await loadSavedSearches());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  // Creates a new saved search, or replaces the one with `id`.
+  const saveSearch = useCallback(async (draft: SavedSearchDraft, id?: string): Promise<void> => {
+    setSavedSearches(id ? await updateSavedSearch(id, draft) : await addSavedSearch(draft));
+    await showToast({ style: Toast.Style.Success, title: getMessages().searchSaved, message: draft.name });
+  }, []);
+
+  const deleteSearch = useCallback(async (search: SavedSearch): Promise<void> => {
+    setSavedSearches(await removeSavedSearch(search.id));
+    await showToast({ style: Toast.Style.Success, title: getMessages().searchDeleted, message: search.name });
+  }, []);
+
+  const moveSearch = useCallback(async (id: string, offset: -1 | 1): Promise<void> => {
+    setSavedSearches(await moveSavedSearch(id, offset));
+  }, []);
+
+  return { savedSearches, isLoading, saveSearch, deleteSearch, moveSearch, reload };
+};
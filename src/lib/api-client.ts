@@ -0,0 +1,225 @@
+import { Messages } from "./i18n";
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_BACKOFF_MS = 400;
+
+export type RequestOptions = {
+  method?: "GET" | "POST";
+  body?: unknown;
+  // Per attempt; every retry gets the full timeout again.
+  timeoutMs?: number;
+  // Extra attempts after network errors, timeouts and 5xx responses.
+  retries?: number;
+  // First retry delay; later retries double it.
+  backoffMs?: number;
+  signal?: AbortSignal;
+};
+
+// Every request failure is one of these, so views can say what actually went wrong.
+export class TownSpotApiError extends Error {
+  readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = "TownSpotApiError";
+    this.url = url;
+  }
+}
+
+export class TownSpotNetworkError extends TownSpotApiError {
+  constructor(url: string, cause?: unknown) {
+    const details = cause instanceof Error ? cause.message : "network error";
+    super(`Could not reach TownSpot at ${url} (${details})`, url);
+    this.name = "TownSpotNetworkError";
+  }
+}
+
+export class TownSpotTimeoutError extends TownSpotApiError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`TownSpot did not respond within ${timeoutMs} ms at ${url}`, url);
+    this.name = "TownSpotTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class TownSpotHttpError extends TownSpotApiError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(url: string, status: number, body: string) {
+    super(`TownSpot request failed (${status}) at ${url}${body ? `: ${body.slice(0, 200)}` : ""}`, url);
+    this.name = "TownSpotHttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class TownSpotPayloadError extends TownSpotApiError {
+  constructor(url: string, details: string) {
+    super(`TownSpot sent an unexpected response at ${url} (${details})`, url);
+    this.name = "TownSpotPayloadError";
+  }
+}
+
+// The caller cancelled the request; not worth showing to anyone.
+export class TownSpotAbortError extends TownSpotApiError {
+  constructor(url: string) {
+    super(`Request to ${url} was cancelled`, url);
+    this.name = "TownSpotAbortError";
+  }
+}
+
+const isRetryable = (error: unknown): boolean =>
+  error instanceof TownSpotNetworkError ||
+  error instanceof TownSpotTimeoutError ||
+  (error instanceof TownSpotHttpError && (error.status >= 500 || error.status === 429));
+
+// Tries the next candidate URL when a host is unreachable or the path doesn't exist there.
+const triesNextCandidate = (error: unknown): boolean =>
+  error instanceof TownSpotNetworkError || (error instanceof TownSpotHttpError && error.status === 404);
+
+const wait = (ms: number, url: string, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TownSpotAbortError(url));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TownSpotAbortError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const attempt = async (url: string, options: RequestOptions, timeoutMs: number): Promise<Response> => {
+  if (options.signal?.aborted) throw new TownSpotAbortError(url);
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const hasBody = options.body !== undefined;
+    const response = await fetch(url, {
+      method: options.method || (hasBody ? "POST" : "GET"),
+      headers: {
+        Accept: "application/json",
+        ...(hasBody ? { "Content-Type": "application/json" } : {}),
+      },
+      body: hasBody ? JSON.stringify(options.body) : undefined,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new TownSpotHttpError(response.url || url, response.status, body.trim());
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof TownSpotApiError) throw error;
+    if (timedOut) throw new TownSpotTimeoutError(url, timeoutMs);
+    if (options.signal?.aborted) throw new TownSpotAbortError(url);
+    throw new TownSpotNetworkError(url, error);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+const requestOnce = async (url: string, options: RequestOptions): Promise<Response> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+
+  for (let attemptIndex = 0; ; attemptIndex += 1) {
+    try {
+      return await attempt(url, options, timeoutMs);
+    } catch (error) {
+      if (attemptIndex >= retries || !isRetryable(error)) throw error;
+      const jitter = Math.random() * backoffMs * 0.25;
+      await wait(backoffMs * 2 ** attemptIndex + jitter, url, options.signal);
+    }
+  }
+};
+
+// Returns the first successful response from `urls`, tried in order.
+export const request = async (urls: string | string[], options: RequestOptions = {}): Promise<Response> => {
+  const candidates = Array.isArray(urls) ? urls : [urls];
+  let lastError: unknown;
+  for (const url of candidates) {
+    try {
+      return await requestOnce(url, options);
+    } catch (error) {
+      lastError = error;
+      if (!triesNextCandidate(error)) break;
+    }
+  }
+  throw lastError;
+};
+
+// `parse` turns the decoded body into `T`, throwing when it can't; without it the body is trusted as-is.
+export const requestJson = async <T>(
+  urls: string | string[],
+  options: RequestOptions = {},
+  parse?: (payload: unknown, url: string) => T,
+): Promise<T> => {
+  const response = await request(urls, options);
+  const url = response.url || (Array.isArray(urls) ? urls[0] : urls);
+  let payload: unknown;
+  try {
+    payload = await response.json();
+  } catch {
+    throw new TownSpotPayloadError(url, "invalid JSON");
+  }
+  return parse ? parse(payload, url) : (payload as T);
+};
+
+export const normalizeApiBaseUrl = (apiBaseUrl: string): string => {
+  const value = String(apiBaseUrl || "").trim();
+  if (!value) {
+    throw new Error("TownSpot API Base URL is required.");
+  }
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    return `http://${value}`;
+  }
+  return value;
+};
+
+// Each path under the API base, with a 127.0.0.1 copy after every localhost URL for local servers.
+export const apiUrls = (apiBaseUrl: string, ...paths: string[]): string[] => {
+  const base = normalizeApiBaseUrl(apiBaseUrl).replace(/\/$/, "");
+  return [
+    ...new Set(
+      paths.flatMap((path) => {
+        const url = `${base}${path}`;
+        return [url, url.replace("localhost", "127.0.0.1")];
+      }),
+    ),
+  ];
+};
+
+export const isAbortError = (error: unknown): boolean => error instanceof TownSpotAbortError;
+
+export const describeApiError = (error: unknown, messages: Messages, fallback: string): string => {
+  if (error instanceof TownSpotTimeoutError) return messages.apiTimeout(Math.round(error.timeoutMs / 1000));
+  if (error instanceof TownSpotNetworkError) return messages.apiNetworkError;
+  if (error instanceof TownSpotPayloadError) return messages.apiBadPayload;
+  if (error instanceof TownSpotHttpError) {
+    if (error.status === 429) return messages.apiRateLimited;
+    if (error.status === 404) return messages.apiNotFound;
+    if (error.status >= 500) return messages.apiServerError(error.status);
+    return messages.apiRequestFailed(error.status);
+  }
+  return error instanceof Error ? error.message : fallback;
+};
@@ -0,0 +1,63 @@
+import { getPreferenceValues } from "@raycast/api";
+import { normalizeApiBaseUrl } from "./api-client";
+import { Messages } from "./i18n";
+
+export type ApiEnvironmentId = "prod" | "staging" | "local";
+
+export const API_ENVIRONMENT_BASE_URLS: Record<ApiEnvironmentId, string> = {
+  prod: "https://api.townspot.co/api",
+  staging: "https://staging-api.townspot.co/api",
+  local: "http://localhost:3000/api",
+};
+
+export type ApiEnvironment = {
+  id: ApiEnvironmentId;
+  apiBaseUrl: string;
+  // The API Base URL preference replaced the profile's default URL.
+  isCustomUrl: boolean;
+};
+
+type ApiPreferences = {
+  apiEnvironment?: string;
+  apiBaseUrl?: string;
+};
+
+const isApiEnvironmentId = (value: string | undefined): value is ApiEnvironmentId =>
+  Boolean(value) && Object.prototype.hasOwnProperty.call(API_ENVIRONMENT_BASE_URLS, value as string);
+
+export const resolveApiEnvironment = (): ApiEnvironment => {
+  const preferences = getPreferenceValues<ApiPreferences>();
+  const id = isApiEnvironmentId(preferences.apiEnvironment) ? preferences.apiEnvironment : "prod";
+  const customUrl = String(preferences.apiBaseUrl || "").trim();
+  return {
+    id,
+    apiBaseUrl: customUrl ? normalizeApiBaseUrl(customUrl).replace(/\/$/, "") : API_ENVIRONMENT_BASE_URLS[id],
+    isCustomUrl: Boolean(customUrl),
+  };
+};
+
+// Scopes a cache or storage key to the API in use, so switching to Local or Staging never serves
+// listings, zones or seen events recorded against another server.
+export const apiScopedKey = (key: string): string => `${resolveApiEnvironment().apiBaseUrl}|${key}`;
+
+export const waitlistEndpoint = (apiBaseUrl: string): string => `${apiBaseUrl}/waitlist`;
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// e.g. "Local (localhost:3000)"; empty for the stock production API, which needs no flagging.
+export const environmentLabel = (messages: Messages, environment = resolveApiEnvironment()): string => {
+  if (environment.id === "prod" && !environment.isCustomUrl) return "";
+  return `${messages.apiEnvironments[environment.id]} (${hostOf(environment.apiBaseUrl)})`;
+};
+
+// Appends the environment to a command subtitle when it isn't production.
+export const withEnvironmentLabel = (subtitle: string, messages: Messages): string => {
+  const label = environmentLabel(messages);
+  return label ? `${subtitle} · ${label}` : subtitle;
+};
@@ -0,0 +1,212 @@
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { EventDetails } from "./event-details";
+import { getEventWindowMs } from "./event-listing";
+import { RaycastEvent } from "../types";
+
+export type CalendarEntry = {
+  uid: string;
+  title: string;
+  startMs: number;
+  endMs: number;
+  timezone?: string;
+  location?: string;
+  geo?: { lat: number; lng: number };
+  url?: string;
+  description?: string;
+};
+
+const PRODUCT_ID = "-//TownSpot//Raycast Extension//EN";
+const MAX_LINE_OCTETS = 75;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const formatUtcStamp = (valueMs: number): string => {
+  const value = new Date(valueMs);
+  return (
+    `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}` +
+    `T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}Z`
+  );
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Times go out in UTC: the TZID form would need a VTIMEZONE with the zone's full DST rules to stay
+// right for every event in a multi-event export, and calendar apps show UTC times in local time anyway.
+const dateLines = (entry: CalendarEntry): string[] => [
+  `DTSTART:${formatUtcStamp(entry.startMs)}`,
+  `DTEND:${formatUtcStamp(entry.endMs)}`,
+];
+
+const escapeText = (value: string): string =>
+  String(value || "")
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// RFC 5545 caps content lines at 75 octets; longer lines continue after CRLF + space.
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const entryLines = (entry: CalendarEntry, stampMs: number): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${escapeText(entry.uid)}`,
+    `DTSTAMP:${formatUtcStamp(stampMs)}`,
+    ...dateLines(entry),
+    `SUMMARY:${escapeText(entry.title)}`,
+  ];
+  if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+  if (entry.geo) lines.push(`GEO:${entry.geo.lat};${entry.geo.lng}`);
+  if (entry.url) lines.push(`URL:${entry.url}`);
+  if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+export const calendarEntryFromEvent = (
+  event: RaycastEvent,
+  url: string,
+): CalendarEntry | null => {
+  const window = getEventWindowMs(event);
+  if (!window) return null;
+
+  const title = String(event.title || "").trim() || "TownSpot event";
+  const venue = String(event.venueName || "").trim();
+
+  return {
+    uid: `${event.id}@townspot.co`,
+    title,
+    startMs: window.startMs,
+    endMs: window.endMs,
+    location: venue || undefined,
+    url: url || undefined,
+    description: url || undefined,
+  };
+};
+
+type DetailsCalendarInput = {
+  event: RaycastEvent;
+  details: EventDetails | null;
+  url: string;
+  description: string | null;
+};
+
+const hasCoordinate = (value: number | null | undefined): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const calendarEntryFromDetails = (
+  input: DetailsCalendarInput,
+): CalendarEntry | null => {
+  const { event, details, url } = input;
+  if (!details) return calendarEntryFromEvent(event, url);
+
+  const window = getEventWindowMs({
+    ...event,
+    startTime: details.startTime || event.startTime,
+    endTime: details.endTime || event.endTime,
+  });
+  if (!window) return null;
+
+  const timezone = String(details.resolvedTimezone || details.timezone || "").trim();
+  const venue = String(details.locationName || event.venueName || "").trim();
+  const address = String(details.locationAddress || "").trim();
+  const location = [venue, address].filter(Boolean).join(", ");
+  const price = String(details.priceInfo || "").trim();
+  const descriptionBlocks = [
+    price ? `Price: ${price}` : "",
+    input.description || "",
+    url,
+  ].filter(Boolean);
+
+  return {
+    uid: `${details.uuid || event.id}@townspot.co`,
+    title: String(details.title || event.title || "").trim() || "TownSpot event",
+    startMs: window.startMs,
+    endMs: window.endMs,
+    timezone: timezone && isValidTimezone(timezone) ? timezone : undefined,
+    location: location || undefined,
+    geo:
+      hasCoordinate(details.lat) && hasCoordinate(details.lng)
+        ? { lat: details.lat, lng: details.lng }
+        : undefined,
+    url: url || undefined,
+    description: descriptionBlocks.join("\n\n") || undefined,
+  };
+};
+
+export const googleCalendarUrl = (entry: CalendarEntry): string => {
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: entry.title,
+    dates: `${formatUtcStamp(entry.startMs)}/${formatUtcStamp(entry.endMs)}`,
+  });
+  if (entry.description) params.set("details", entry.description);
+  if (entry.location) params.set("location", entry.location);
+  if (entry.timezone) params.set("ctz", entry.timezone);
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+};
+
+export const buildCalendarFile = (
+  entries: CalendarEntry[],
+  calendarName = "TownSpot",
+): string => {
+  const stampMs = Date.now();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...entries.flatMap((entry) => entryLines(entry, stampMs)),
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
+
+export const calendarFileName = (label: string): string => {
+  const slug = String(label || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "townspot-events"}.ics`;
+};
+
+export const saveCalendarFile = async (
+  fileName: string,
+  contents: string,
+): Promise<string> => {
+  const filePath = join(homedir(), "Downloads", fileName);
+  await writeFile(filePath, contents, "utf8");
+  return filePath;
+};
@@ -0,0 +1,115 @@
+import { resolveEventUrl } from "./event-listing";
+import { messagesForLocale } from "./i18n";
+import { RaycastEvent } from "../types";
+
+export type CitationIssue = {
+  kind: "unknown_citation" | "unverified_link" | "unverified_title";
+  value: string;
+};
+
+export type CitationReport = {
+  markdown: string;
+  citedIndices: number[];
+  issues: CitationIssue[];
+};
+
+const CITATION_PATTERN = /\[(\d{1,3})\](?!\()/g;
+const BOLD_PATTERN = /\*\*([^*\n]+)\*\*/g;
+const LINK_OR_URL_PATTERN = /\[([^\]\n]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s)<>\]]+)/g;
+const MIN_TITLE_MATCH_LENGTH = 4;
+
+const normalizeUrl = (value: string): string =>
+  String(value || "")
+    .trim()
+    .replace(/[.,;:!?]+$/, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+
+const normalizeTitle = (value: string): string =>
+  String(value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const buildVerifiedUrls = (events: RaycastEvent[]): Set<string> => {
+  const urls = new Set<string>();
+  for (const event of events) {
+    if (!event.url) continue;
+    urls.add(normalizeUrl(event.url));
+    urls.add(normalizeUrl(resolveEventUrl(event.url)));
+  }
+  return urls;
+};
+
+const buildKnownNames = (events: RaycastEvent[]): string[] =>
+  events
+    .flatMap((event) => [event.title, event.venueName])
+    .map(normalizeTitle)
+    .filter((value) => value.length >= MIN_TITLE_MATCH_LENGTH);
+
+const matchesKnownName = (candidate: string, knownNames: string[]): boolean => {
+  const normalized = normalizeTitle(candidate);
+  if (normalized.length < MIN_TITLE_MATCH_LENGTH) return true;
+  return knownNames.some((name) => name.includes(normalized) || normalized.includes(name));
+};
+
+// Verified events are numbered from 1 in the prompt; the model cites them as [n].
+export const validateAnswerCitations = (
+  answer: string,
+  events: RaycastEvent[],
+  locale: string,
+): CitationReport => {
+  const messages = messagesForLocale(locale);
+  const verifiedUrls = buildVerifiedUrls(events);
+  const knownNames = buildKnownNames(events);
+  const issues: CitationIssue[] = [];
+  const citedIndices = new Set<number>();
+
+  let markdown = String(answer || "").replace(BOLD_PATTERN, (match, title: string) => {
+    if (matchesKnownName(title, knownNames)) return match;
+    issues.push({ kind: "unverified_title", value: title.trim() });
+    return `${match} _(${messages.unverified})_`;
+  });
+
+  markdown = markdown.replace(
+    LINK_OR_URL_PATTERN,
+    (match, linkText: string | undefined, linkUrl: string | undefined, bareUrl: string | undefined) => {
+      const url = linkUrl || bareUrl || "";
+      if (verifiedUrls.has(normalizeUrl(url))) return match;
+      issues.push({ kind: "unverified_link", value: url });
+      const note = `_(${messages.unverifiedLink})_`;
+      return linkText ? `${match} ${note}` : `\`${url}\` ${note}`;
+    },
+  );
+
+  markdown = markdown.replace(CITATION_PATTERN, (match, rawIndex: string) => {
+    const index = Number(rawIndex);
+    const event = events[index - 1];
+    if (!event) {
+      issues.push({ kind: "unknown_citation", value: match });
+      return `${match} _(${messages.unknownSource})_`;
+    }
+    citedIndices.add(index);
+    return event.url ? `[[${index}]](${resolveEventUrl(event.url)})` : match;
+  });
+
+  return {
+    markdown,
+    citedIndices: Array.from(citedIndices).sort((a, b) => a - b),
+    issues,
+  };
+};
+
+export const buildCitationSummaryMarkdown = (report: CitationReport, locale: string): string => {
+  const messages = messagesForLocale(locale);
+  if (!report.issues.length) {
+    if (!report.citedIndices.length) return `> ${messages.noVerifiedCitations}`;
+    return `> ✓ ${messages.citesVerifiedEvents(report.citedIndices.length)}`;
+  }
+  return [
+    `> ⚠️ ${messages.unverifiedItems(report.issues.length)}`,
+    ...report.issues.map((issue) => `> - ${messages.citationIssues[issue.kind]}: ${issue.value}`),
+  ].join("\n");
+};
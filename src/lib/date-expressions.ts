@@ -0,0 +1,526 @@
+import { DEFAULT_TIMEZONE } from "./date-format";
+import { CustomDateRange } from "./event-listing";
+import { foldText, Language, languageForLocale } from "./i18n";
+
+type PartOfDay = "morning" | "afternoon" | "evening" | "night";
+
+type Meridiem = "am" | "pm" | "h";
+
+type PhraseTable = {
+  weekdays: Record<string, number>;
+  months: Record<string, number>;
+  numbers: Record<string, number>;
+  today: string[];
+  tonight: string[];
+  tomorrow: string[];
+  dayAfterTomorrow: string[];
+  thisWeekend: string[];
+  nextWeekend: string[];
+  nextBefore: string[];
+  nextAfter: string[];
+  thisBefore: string[];
+  inPrefixes: string[];
+  dayUnits: string[];
+  weekUnits: string[];
+  partsOfDay: Record<PartOfDay, string[]>;
+  rangeStart: string[];
+  rangeJoin: string[];
+  after: string[];
+  before: string[];
+  at: string[];
+  dayOfMonthPrefixes: string[];
+};
+
+type ParseDateExpressionOptions = {
+  locale: string;
+  timezone: string;
+  now?: Date;
+};
+
+const PART_OF_DAY_MINUTES: Record<PartOfDay, [number, number]> = {
+  morning: [6 * 60, 12 * 60],
+  afternoon: [12 * 60, 18 * 60],
+  evening: [18 * 60, 24 * 60],
+  night: [20 * 60, 24 * 60],
+};
+
+const PHRASES: Record<Language, PhraseTable> = {
+  en: {
+    weekdays: {
+      monday: 1, mon: 1, tuesday: 2, tue: 2, tues: 2, wednesday: 3, wed: 3, thursday: 4, thu: 4, thurs: 4,
+      friday: 5, fri: 5, saturday: 6, sat: 6, sunday: 7,
+    },
+    months: {
+      january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3, april: 4, apr: 4, may: 5, june: 6, jun: 6,
+      july: 7, jul: 7, august: 8, aug: 8, september: 9, sep: 9, sept: 9, october: 10, oct: 10,
+      november: 11, nov: 11, december: 12, dec: 12,
+    },
+    numbers: { a: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 },
+    today: ["today"],
+    tonight: ["tonight"],
+    tomorrow: ["tomorrow"],
+    dayAfterTomorrow: ["day after tomorrow", "the day after tomorrow"],
+    thisWeekend: ["this weekend", "weekend"],
+    nextWeekend: ["next weekend"],
+    nextBefore: ["next"],
+    nextAfter: [],
+    thisBefore: ["this", "on", "this coming"],
+    inPrefixes: ["in"],
+    dayUnits: ["day", "days"],
+    weekUnits: ["week", "weeks"],
+    partsOfDay: {
+      morning: ["morning", "in the morning"],
+      afternoon: ["afternoon", "in the afternoon"],
+      evening: ["evening", "in the evening"],
+      night: ["night", "at night"],
+    },
+    rangeStart: ["between", "from"],
+    rangeJoin: ["and", "to", "until", "till"],
+    after: ["after", "from"],
+    before: ["before", "by"],
+    at: ["at", "around"],
+    dayOfMonthPrefixes: ["on the"],
+  },
+  es: {
+    weekdays: {
+      lunes: 1, martes: 2, miercoles: 3, jueves: 4, viernes: 5, sabado: 6, domingo: 7,
+    },
+    months: {
+      enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6, julio: 7, agosto: 8,
+      septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12,
+    },
+    numbers: { un: 1, una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10 },
+    today: ["hoy"],
+    tonight: ["esta noche"],
+    tomorrow: ["manana"],
+    dayAfterTomorrow: ["pasado manana"],
+    thisWeekend: ["este fin de semana", "el fin de semana", "finde", "este finde"],
+    nextWeekend: ["el proximo fin de semana", "proximo fin de semana", "el fin de semana que viene"],
+    nextBefore: ["el proximo", "proximo", "el siguiente"],
+    nextAfter: ["que viene"],
+    thisBefore: ["este", "el"],
+    inPrefixes: ["dentro de", "en"],
+    dayUnits: ["dia", "dias"],
+    weekUnits: ["semana", "semanas"],
+    partsOfDay: {
+      morning: ["por la manana", "de la manana"],
+      afternoon: ["por la tarde", "de la tarde", "tarde"],
+      evening: ["por la noche", "de la noche"],
+      night: ["noche"],
+    },
+    rangeStart: ["entre las", "entre", "de las", "de", "desde las", "desde"],
+    rangeJoin: ["y las", "a las", "hasta las", "y", "a"],
+    after: ["despues de las", "a partir de las"],
+    before: ["antes de las"],
+    at: ["a las"],
+    dayOfMonthPrefixes: ["en el dia", "en el", "el dia", "el", "dia"],
+  },
+  ca: {
+    weekdays: {
+      dilluns: 1, dimarts: 2, dimecres: 3, dijous: 4, divendres: 5, dissabte: 6, diumenge: 7,
+    },
+    months: {
+      gener: 1, febrer: 2, marc: 3, abril: 4, maig: 5, juny: 6, juliol: 7, agost: 8,
+      setembre: 9, octubre: 10, novembre: 11, desembre: 12,
+    },
+    numbers: { un: 1, una: 1, dos: 2, dues: 2, tres: 3, quatre: 4, cinc: 5, sis: 6, set: 7, vuit: 8, nou: 9, deu: 10 },
+    today: ["avui"],
+    tonight: ["aquesta nit", "aquest vespre"],
+    tomorrow: ["dema"],
+    dayAfterTomorrow: ["dema passat"],
+    thisWeekend: ["aquest cap de setmana", "el cap de setmana", "cap de setmana"],
+    nextWeekend: ["el proper cap de setmana", "proper cap de setmana", "el cap de setmana que ve"],
+    nextBefore: ["el proper", "proper", "el seguent"],
+    nextAfter: ["que ve"],
+    thisBefore: ["aquest", "el"],
+    inPrefixes: ["d aqui a", "daqui a", "en"],
+    dayUnits: ["dia", "dies"],
+    weekUnits: ["setmana", "setmanes"],
+    partsOfDay: {
+      morning: ["al mati", "pel mati", "del mati", "mati"],
+      afternoon: ["a la tarda", "per la tarda", "de la tarda", "tarda"],
+      evening: ["al vespre", "del vespre", "vespre"],
+      night: ["a la nit", "de la nit", "nit"],
+    },
+    rangeStart: ["entre les", "entre", "de les", "de", "des de les", "des de"],
+    rangeJoin: ["i les", "a les", "fins a les", "i", "a"],
+    after: ["despres de les", "a partir de les"],
+    before: ["abans de les"],
+    at: ["a les"],
+    dayOfMonthPrefixes: ["el dia", "el", "dia"],
+  },
+};
+
+// English stays available in every locale because people mix it into queries.
+const tablesForLocale = (locale: string): PhraseTable[] => {
+  const language = languageForLocale(locale);
+  return language === "en" ? [PHRASES.en] : [PHRASES[language], PHRASES.en];
+};
+
+export const normalizeDateQuery = (value: string): string =>
+  foldText(value)
+    .replace(/(\d)\s*[-–]\s*(\d)/g, "$1 to $2")
+    .replace(/[^a-z0-9:\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const alternation = (values: string[]): string =>
+  [...values]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+    .join("|");
+
+const phrasePattern = (values: string[]): RegExp =>
+  new RegExp(`(^| )(${alternation(values)})(?= |$)`);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateKeyFromUtc = (valueMs: number): string => new Date(valueMs).toISOString().slice(0, 10);
+
+const utcFromDateKey = (dateKey: string): number => Date.parse(`${dateKey}T00:00:00Z`);
+
+const addDays = (dateKey: string, days: number): string =>
+  dateKeyFromUtc(utcFromDateKey(dateKey) + days * DAY_MS);
+
+const weekdayOf = (dateKey: string): number => {
+  const day = new Date(utcFromDateKey(dateKey)).getUTCDay();
+  return day === 0 ? 7 : day;
+};
+
+const todayKeyInTimezone = (now: Date, timezone: string): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone || DEFAULT_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+
+type QueryScanner = {
+  take: (pattern: RegExp) => RegExpMatchArray | null;
+  takePhrase: (values: string[]) => boolean;
+  remainder: () => string;
+};
+
+const createScanner = (text: string): QueryScanner => {
+  let remaining = ` ${text} `;
+
+  // Returns the first match and blanks it out so later rules can't reuse the words.
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = remaining.match(pattern);
+    if (!match || match.index === undefined) return null;
+    remaining =
+      remaining.slice(0, match.index) +
+      " ".repeat(match[0].length) +
+      remaining.slice(match.index + match[0].length);
+    return match;
+  };
+
+  const takePhrase = (values: string[]): boolean => {
+    if (!values.length) return false;
+    return Boolean(take(phrasePattern(values)));
+  };
+
+  const remainder = (): string => remaining.replace(/\s+/g, " ").trim();
+
+  return { take, takePhrase, remainder };
+};
+
+const toNumber = (value: string, table: PhraseTable): number | null => {
+  if (/^\d+$/.test(value)) return Number(value);
+  return table.numbers[value] ?? null;
+};
+
+// A bare hour takes the meridiem of its context ("tonight at 8", "de 5 a 8 de la tarde"); without one,
+// 1–9 mean the afternoon or evening, since that's when most events start.
+const toMinutes = (
+  rawHour: string,
+  rawMinute: string | undefined,
+  meridiem: string | undefined,
+  fallbackMeridiem?: Meridiem,
+): number | null => {
+  let hour = Number(rawHour);
+  const minute = Number(rawMinute || 0);
+  if (!Number.isFinite(hour) || hour > 24 || minute > 59) return null;
+  const effectiveMeridiem = meridiem || fallbackMeridiem;
+  if (effectiveMeridiem === "h") return hour * 60 + minute;
+  if (effectiveMeridiem === "pm" && hour < 12) hour += 12;
+  if (effectiveMeridiem === "am" && hour === 12) hour = 0;
+  if (!effectiveMeridiem && hour >= 1 && hour <= 9) hour += 12;
+  return hour * 60 + minute;
+};
+
+const asMeridiem = (value: string | undefined): Meridiem | undefined =>
+  value === "am" || value === "pm" || value === "h" ? value : undefined;
+
+// Both ends of "between 6 and 9" share a meridiem unless one is given. An end that still lands before
+// the start is read as the afternoon ("from 11am to 2"), else as the next day ("10pm to 2am"), so
+// `endMinutes` can run past 24:00.
+const toMinutesRange = (
+  start: [string, string | undefined, string | undefined],
+  end: [string, string | undefined, string | undefined],
+  contextMeridiem: Meridiem | undefined,
+): [number, number] | null => {
+  const [startHour, startMinute, startMeridiem] = start;
+  const [endHour, endMinute, endMeridiem] = end;
+  const startMinutes = toMinutes(startHour, startMinute, startMeridiem, asMeridiem(endMeridiem) || contextMeridiem);
+  if (startMinutes === null) return null;
+  const startAfterNoon = Number(startHour) < 12 && startMinutes >= 12 * 60 ? "pm" : undefined;
+  let endMinutes = toMinutes(
+    endHour,
+    endMinute,
+    endMeridiem,
+    asMeridiem(startMeridiem) || startAfterNoon || contextMeridiem,
+  );
+  if (endMinutes === null) return null;
+  if (!endMeridiem && endMinutes <= startMinutes && endMinutes < 12 * 60) endMinutes += 12 * 60;
+  if (endMinutes <= startMinutes) {
+    const shiftedToEvening = !endMeridiem && Number(endHour) < 12 && endMinutes >= 12 * 60;
+    endMinutes = (shiftedToEvening ? endMinutes - 12 * 60 : endMinutes) + 24 * 60;
+  }
+  return endMinutes > startMinutes ? [startMinutes, endMinutes] : null;
+};
+
+const TIME = "(\\d{1,2})(?::(\\d{2}))? ?(am|pm|h)?";
+
+const parseTimeBounds = (
+  scanner: QueryScanner,
+  tables: PhraseTable[],
+  contextMeridiem: Meridiem | undefined,
+): [number, number] | null => {
+  for (const table of tables) {
+    const rangeMatch = scanner.take(
+      new RegExp(
+        `(?:^| )(?:(?:${alternation(table.rangeStart)}) )?${TIME} (?:${alternation(table.rangeJoin)}) ${TIME}(?= |$)`,
+      ),
+    );
+    if (rangeMatch) {
+      const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] = rangeMatch;
+      const hasPrefix = table.rangeStart.some((prefix) => rangeMatch[0].trim().startsWith(`${prefix} `));
+      if (hasPrefix || startMeridiem || endMeridiem) {
+        const range = toMinutesRange(
+          [startHour, startMinute, startMeridiem],
+          [endHour, endMinute, endMeridiem],
+          contextMeridiem,
+        );
+        if (range) return range;
+      }
+    }
+
+    const afterMatch = scanner.take(new RegExp(`(?:^| )(?:${alternation(table.after)}) ${TIME}(?= |$)`));
+    if (afterMatch) {
+      const minutes = toMinutes(afterMatch[1], afterMatch[2], afterMatch[3], contextMeridiem);
+      if (minutes !== null) return [minutes, 24 * 60];
+    }
+
+    const beforeMatch = scanner.take(new RegExp(`(?:^| )(?:${alternation(table.before)}) ${TIME}(?= |$)`));
+    if (beforeMatch) {
+      const minutes = toMinutes(beforeMatch[1], beforeMatch[2], beforeMatch[3], contextMeridiem);
+      if (minutes !== null) return [0, minutes];
+    }
+
+    const atMatch = scanner.take(new RegExp(`(?:^| )(?:${alternation(table.at)}) ${TIME}(?= |$)`));
+    if (atMatch) {
+      const minutes = toMinutes(atMatch[1], atMatch[2], atMatch[3], contextMeridiem);
+      if (minutes !== null) return [minutes, Math.min(24 * 60, minutes + 60)];
+    }
+  }
+
+  const bareMatch = scanner.take(/(?:^| )(\d{1,2})(?::(\d{2}))? ?(am|pm)(?= |$)/);
+  if (bareMatch) {
+    const minutes = toMinutes(bareMatch[1], bareMatch[2], bareMatch[3], contextMeridiem);
+    if (minutes !== null) return [minutes, Math.min(24 * 60, minutes + 60)];
+  }
+
+  return null;
+};
+
+const parsePartOfDay = (scanner: QueryScanner, tables: PhraseTable[]): PartOfDay | null => {
+  for (const table of tables) {
+    for (const part of Object.keys(table.partsOfDay) as PartOfDay[]) {
+      if (scanner.takePhrase(table.partsOfDay[part])) return part;
+    }
+  }
+  return null;
+};
+
+const upcomingWeekday = (todayKey: string, weekday: number): string => {
+  const offset = (weekday - weekdayOf(todayKey) + 7) % 7;
+  return addDays(todayKey, offset);
+};
+
+// "this weekend" on a Sunday is just today; otherwise the coming Saturday and Sunday.
+const weekendRange = (todayKey: string, weeksAhead: number): [string, string] => {
+  const weekday = weekdayOf(todayKey);
+  const saturday = weekday === 7 ? addDays(todayKey, -1) : upcomingWeekday(todayKey, 6);
+  const start = addDays(saturday, weeksAhead * 7);
+  const end = addDays(start, 1);
+  return [weeksAhead === 0 && start < todayKey ? todayKey : start, end];
+};
+
+const dayOfMonthKey = (todayKey: string, day: number, month?: number): string | null => {
+  const [year, currentMonth] = todayKey.split("-").map(Number);
+  const candidateMonth = month ?? currentMonth;
+  for (let yearOffset = 0; yearOffset <= 1; yearOffset += 1) {
+    for (let monthOffset = 0; monthOffset <= (month ? 0 : 1); monthOffset += 1) {
+      const monthIndex = candidateMonth - 1 + monthOffset;
+      const candidate = new Date(Date.UTC(year + yearOffset, monthIndex, day));
+      if (candidate.getUTCDate() !== day) continue;
+      const key = dateKeyFromUtc(candidate.getTime());
+      if (key >= todayKey) return key;
+    }
+  }
+  return null;
+};
+
+const parseDates = (
+  scanner: QueryScanner,
+  tables: PhraseTable[],
+  todayKey: string,
+): [string, string] | null => {
+  for (const table of tables) {
+    if (scanner.takePhrase(table.dayAfterTomorrow)) {
+      const key = addDays(todayKey, 2);
+      return [key, key];
+    }
+    if (scanner.takePhrase(table.nextWeekend)) return weekendRange(todayKey, 1);
+    if (scanner.takePhrase(table.thisWeekend)) return weekendRange(todayKey, 0);
+  }
+
+  // Explicit dates go first, taking any weekday written with them ("sat 14 nov", "el sábado 14 de noviembre").
+  for (const table of tables) {
+    const monthNames = alternation(Object.keys(table.months));
+    const weekdayPrefix = `(?:(?:${alternation(table.thisBefore)}) )?(?:(?:${alternation(Object.keys(table.weekdays))}) )?`;
+    const dayMonth = scanner.take(
+      new RegExp(
+        `(?:^| )${weekdayPrefix}(?:(?:${alternation(table.dayOfMonthPrefixes)}) )?(\\d{1,2})(?:st|nd|rd|th)? (?:of |de |d )?(${monthNames})(?= |$)`,
+      ),
+    );
+    const monthDay = dayMonth
+      ? null
+      : scanner.take(new RegExp(`(?:^| )${weekdayPrefix}(${monthNames}) (\\d{1,2})(?:st|nd|rd|th)?(?= |$)`));
+    if (dayMonth || monthDay) {
+      const day = Number(dayMonth ? dayMonth[1] : monthDay?.[2]);
+      const month = table.months[dayMonth ? dayMonth[2] : monthDay?.[1] || ""];
+      const key = dayOfMonthKey(todayKey, day, month);
+      if (key) return [key, key];
+    }
+  }
+
+  for (const table of tables) {
+    const weekdayNames = alternation(Object.keys(table.weekdays));
+    const nextWeekday =
+      scanner.take(new RegExp(`(?:^| )(?:${alternation(table.nextBefore)}) (${weekdayNames})(?= |$)`)) ||
+      (table.nextAfter.length
+        ? scanner.take(new RegExp(`(?:^| )(?:el )?(${weekdayNames}) (?:${alternation(table.nextAfter)})(?= |$)`))
+        : null);
+    if (nextWeekday) {
+      // "next Friday" means the Friday of next week, never the coming one.
+      const weekday = table.weekdays[nextWeekday[1]];
+      const mondayNextWeek = addDays(todayKey, 8 - weekdayOf(todayKey));
+      const key = addDays(mondayNextWeek, weekday - 1);
+      return [key, key];
+    }
+
+    const weekdayMatch = scanner.take(
+      new RegExp(`(?:^| )(?:(?:${alternation(table.thisBefore)}) )?(${weekdayNames})(?= |$)`),
+    );
+    if (weekdayMatch) {
+      const key = upcomingWeekday(todayKey, table.weekdays[weekdayMatch[1]]);
+      return [key, key];
+    }
+  }
+
+  for (const table of tables) {
+    // Needs a prefix ("on the 14th", "el 14"): a bare ordinal is as likely to be "2nd hand" as a date.
+    const dayOfMonth = scanner.take(
+      new RegExp(`(?:^| )(?:${alternation(table.dayOfMonthPrefixes)}) (\\d{1,2})(?:st|nd|rd|th)?(?= |$)`),
+    );
+    if (dayOfMonth) {
+      const key = dayOfMonthKey(todayKey, Number(dayOfMonth[1]));
+      if (key) return [key, key];
+    }
+  }
+
+  for (const table of tables) {
+    const numberWords = alternation(Object.keys(table.numbers));
+    const relative = scanner.take(
+      new RegExp(
+        `(?:^| )(?:${alternation(table.inPrefixes)}) (\\d{1,2}|${numberWords}) (${alternation([...table.dayUnits, ...table.weekUnits])})(?= |$)`,
+      ),
+    );
+    if (relative) {
+      const amount = toNumber(relative[1], table);
+      if (amount === null) continue;
+      if (table.weekUnits.includes(relative[2])) {
+        const start = addDays(todayKey, amount * 7);
+        return [start, addDays(start, 6)];
+      }
+      const key = addDays(todayKey, amount);
+      return [key, key];
+    }
+  }
+
+  for (const table of tables) {
+    if (scanner.takePhrase(table.tomorrow)) {
+      const key = addDays(todayKey, 1);
+      return [key, key];
+    }
+    if (scanner.takePhrase(table.today)) return [todayKey, todayKey];
+  }
+
+  return null;
+};
+
+type DateExpressionScan = {
+  range: CustomDateRange | null;
+  // The query with every date and time phrase removed.
+  remainder: string;
+};
+
+const scanDateExpression = (query: string, options: ParseDateExpressionOptions): DateExpressionScan => {
+  const normalized = normalizeDateQuery(query);
+  if (!normalized) return { range: null, remainder: "" };
+
+  const tables = tablesForLocale(options.locale);
+  const todayKey = todayKeyInTimezone(options.now || new Date(), options.timezone);
+  const scanner = createScanner(normalized);
+
+  let tonight = false;
+  for (const table of tables) {
+    if (scanner.takePhrase(table.tonight)) {
+      tonight = true;
+      break;
+    }
+  }
+
+  // The part of day is read first so it can say whether a bare "at 8" is morning or evening.
+  const partOfDay = parsePartOfDay(scanner, tables);
+  const contextMeridiem: Meridiem | undefined =
+    partOfDay === "morning" ? "am" : partOfDay || tonight ? "pm" : undefined;
+  const timeBounds = parseTimeBounds(scanner, tables, contextMeridiem);
+  const dates = parseDates(scanner, tables, todayKey);
+  const bounds =
+    timeBounds || (partOfDay ? PART_OF_DAY_MINUTES[partOfDay] : tonight ? PART_OF_DAY_MINUTES.evening : null);
+
+  if (!dates && !bounds) return { range: null, remainder: normalized };
+
+  const [startDate, endDate] = dates || [todayKey, todayKey];
+  return {
+    range: {
+      startDate,
+      endDate,
+      ...(bounds ? { startMinutes: bounds[0], endMinutes: bounds[1] } : {}),
+    },
+    remainder: scanner.remainder(),
+  };
+};
+
+export const parseDateExpression = (
+  query: string,
+  options: ParseDateExpressionOptions,
+): CustomDateRange | null => scanDateExpression(query, options).range;
+
+export const stripDateExpression = (query: string, options: ParseDateExpressionOptions): string =>
+  scanDateExpression(query, options).remainder;
@@ -0,0 +1,180 @@
+import { getPreferenceValues } from "@raycast/api";
+import { messagesForLocale, preferredLocale } from "./i18n";
+
+export const DEFAULT_TIMEZONE = "Europe/London";
+
+export type ClockFormat = "24h" | "12h";
+
+export type DateFormatOptions = {
+  locale: string;
+  clock: ClockFormat;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const dateFormatPreferences = (): DateFormatOptions => {
+  const { clockFormat } = getPreferenceValues<{ clockFormat?: string }>();
+  return {
+    locale: preferredLocale(),
+    clock: clockFormat === "12h" ? "12h" : "24h",
+  };
+};
+
+// The user's own clock, for times that aren't tied to a town (e.g. "checked at").
+export const localTimezone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+
+const capitalize = (value: string): string =>
+  value ? value.charAt(0).toLocaleUpperCase() + value.slice(1) : value;
+
+const clockFormatOptions = (options: DateFormatOptions): Intl.DateTimeFormatOptions =>
+  options.clock === "12h"
+    ? { hour: "numeric", minute: "2-digit", hourCycle: "h12" }
+    : { hour: "2-digit", minute: "2-digit", hourCycle: "h23" };
+
+export const parseDateValue = (value: string | undefined | null): Date | null => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed;
+};
+
+export const formatDateKey = (value: Date, timezone: string): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone || DEFAULT_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(value);
+
+// Calendar arithmetic on "YYYY-MM-DD" keys, so a DST change can't skip or repeat a day.
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export const formatClock = (
+  value: Date | null,
+  timezone: string,
+  options: DateFormatOptions,
+): string => {
+  if (!value) return "";
+  return new Intl.DateTimeFormat(options.locale, {
+    timeZone: timezone || DEFAULT_TIMEZONE,
+    ...clockFormatOptions(options),
+  }).format(value);
+};
+
+// Minutes after local midnight, as used by custom date ranges.
+export const formatMinutesOfDay = (minutes: number, options: DateFormatOptions): string =>
+  formatClock(
+    new Date(Date.UTC(2000, 0, 1, Math.floor(minutes / 60) % 24, minutes % 60)),
+    "UTC",
+    options,
+  );
+
+export const formatShortDate = (
+  value: Date | null,
+  timezone: string,
+  options: DateFormatOptions,
+): string => {
+  if (!value) return "";
+  return new Intl.DateTimeFormat(options.locale, {
+    timeZone: timezone || DEFAULT_TIMEZONE,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  }).format(value);
+};
+
+// Formats a YYYY-MM-DD key without shifting it through any timezone.
+export const formatDateKeyLabel = (dateKey: string, options: DateFormatOptions): string =>
+  formatShortDate(new Date(`${dateKey}T12:00:00Z`), "UTC", options);
+
+export const formatDateTime = (
+  value: Date | null,
+  timezone: string,
+  options: DateFormatOptions,
+): string => {
+  const { timeToBeConfirmed } = messagesForLocale(options.locale);
+  if (!value) return timeToBeConfirmed;
+  const dayLabel = formatShortDate(value, timezone, options);
+  const timeLabel = formatClock(value, timezone, options);
+  if (dayLabel && timeLabel) return `${dayLabel}, ${timeLabel}`;
+  return dayLabel || timeLabel || timeToBeConfirmed;
+};
+
+export const formatTimeRange = (
+  startValue: string | undefined | null,
+  endValue: string | undefined | null,
+  timezone: string,
+  options: DateFormatOptions,
+): string => {
+  const { timeToBeConfirmed, timeRange } = messagesForLocale(options.locale);
+  const startDate = parseDateValue(startValue);
+  const endDate = parseDateValue(endValue);
+  const start = formatDateTime(startDate, timezone, options);
+  if (!endDate) return start;
+
+  const end = formatDateTime(endDate, timezone, options);
+  if (start === timeToBeConfirmed) return end;
+  if (end === timeToBeConfirmed) return start;
+  if (startDate && startDate.getTime() === endDate.getTime()) return start;
+  if (start === end) return start;
+
+  if (startDate && formatDateKey(startDate, timezone) === formatDateKey(endDate, timezone)) {
+    const dayLabel = formatShortDate(startDate, timezone, options);
+    const startClock = formatClock(startDate, timezone, options);
+    const endClock = formatClock(endDate, timezone, options);
+    if (startClock === endClock) return `${dayLabel}, ${startClock}`;
+    return `${dayLabel}, ${timeRange(startClock, endClock)}`;
+  }
+
+  return timeRange(start, end);
+};
+
+// Section titles: "Today", "Tomorrow", then the full weekday and date.
+export const formatDayTitle = (
+  value: Date,
+  timezone: string,
+  options: DateFormatOptions,
+  now = new Date(),
+): string => {
+  const key = formatDateKey(value, timezone);
+  const todayKey = formatDateKey(now, timezone);
+  const tomorrowKey = shiftDateKey(todayKey, 1);
+  if (key === todayKey || key === tomorrowKey) {
+    const relative = new Intl.RelativeTimeFormat(options.locale, { numeric: "auto" });
+    return capitalize(relative.format(key === todayKey ? 0 : 1, "day"));
+  }
+  return capitalize(
+    new Intl.DateTimeFormat(options.locale, {
+      timeZone: timezone || DEFAULT_TIMEZONE,
+      weekday: "long",
+      day: "2-digit",
+      month: "short",
+    }).format(value),
+  );
+};
+
+// "in 45 min", "in 2 hr" in the chosen language.
+export const formatStartsIn = (minutes: number, options: DateFormatOptions): string => {
+  const relative = new Intl.RelativeTimeFormat(options.locale, { style: "short" });
+  if (minutes < 60) return relative.format(Math.max(1, minutes), "minute");
+  return relative.format(Math.round(minutes / 60), "hour");
+};
+
+// "just now", "5 min ago", "yesterday" in the chosen language.
+export const formatTimeAgo = (
+  valueMs: number,
+  options: DateFormatOptions,
+  nowMs = Date.now(),
+): string => {
+  const minutes = Math.floor(Math.max(0, nowMs - valueMs) / MINUTE_MS);
+  if (minutes < 1) return messagesForLocale(options.locale).justNow;
+  const relative = new Intl.RelativeTimeFormat(options.locale, { numeric: "auto", style: "short" });
+  if (minutes < 60) return relative.format(-minutes, "minute");
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return relative.format(-hours, "hour");
+  return relative.format(-Math.floor(hours / 24), "day");
+};
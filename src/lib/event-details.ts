@@ -1,4 +1,7 @@
-import { normalizeApiBaseUrl } from "./townspot";
+import { Cache } from "@raycast/api";
+import { apiUrls, normalizeApiBaseUrl, requestJson } from "./api-client";
+import { apiScopedKey } from "./api-environment";
+import { fieldReader, isRecord, PayloadIssue, payloadIssue, rejectPayload, reportPayloadCheck } from "./payload-validation";
 
 export type EventDetails = {
   uuid: string;
@@ -36,69 +39,101 @@ export type EventDetails = {
   } | null;
 };
 
-const toNumber = (value: unknown): number | null => {
-  const parsed = typeof value === "number" ? value : Number(value);
-  if (!Number.isFinite(parsed)) return null;
-  return parsed;
+const cache = new Cache({ namespace: "townspot-event-details" });
+
+type SpottedBy = NonNullable<EventDetails["spottedBy"]>;
+
+const parseSpottedBy = (value: unknown, issues: PayloadIssue[]): SpottedBy | null => {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) {
+    issues.push(payloadIssue("spottedBy", "object", value, false));
+    return null;
+  }
+  const field = fieldReader(value, "spottedBy", issues);
+  return {
+    name: field.optionalString("name"),
+    org: field.optionalString("org"),
+    displayPref: field.optionalString("displayPref"),
+    subscriberId: field.optionalNumber("subscriberId"),
+    avatarUrl: field.optionalString("avatarUrl"),
+    spottedAt: field.optionalDate("spottedAt"),
+    isAreaAdmin: field.optionalBoolean("isAreaAdmin"),
+  };
 };
 
-const withLocalFallback = (url: string): string[] => {
-  const base = url.replace(/\/$/, "");
-  const fallback = base.replace("localhost", "127.0.0.1");
-  return [...new Set([base, fallback])];
+export const parseEventDetails = (payload: unknown, url: string, eventUuid: string): EventDetails => {
+  const issues: PayloadIssue[] = [];
+  const check = { source: "event-details" as const, label: eventUuid, url, itemCount: 1, droppedCount: 1, issues };
+  if (!isRecord(payload)) {
+    issues.push(payloadIssue("", "object", payload, true));
+    return rejectPayload(check);
+  }
+  const field = fieldReader(payload, "", issues);
+  const uuid = field.id("uuid");
+  const title = field.string("title");
+  if (!uuid || !title) return rejectPayload(check);
+
+  const categories = field.stringList("categories");
+  const details: EventDetails = {
+    uuid,
+    title,
+    createdAt: field.optionalDate("createdAt"),
+    updatedAt: field.optionalDate("updatedAt"),
+    description: field.optionalString("description"),
+    venueDescription: field.optionalString("venueDescription"),
+    locationName: field.optionalString("locationName"),
+    locationAddress: field.optionalString("locationAddress"),
+    startTime: field.optionalDate("startTime"),
+    endTime: field.optionalDate("endTime"),
+    startTimeLocal: field.optionalString("startTimeLocal"),
+    endTimeLocal: field.optionalString("endTimeLocal"),
+    timezone: field.optionalString("timezone"),
+    resolvedTimezone: field.optionalString("resolvedTimezone"),
+    categories: categories.length ? categories : null,
+    sourceUrl: field.optionalString("sourceUrl"),
+    imageUrl: field.optionalString("imageUrl"),
+    mainImgUrl: field.optionalString("mainImgUrl"),
+    priceInfo: field.optionalString("priceInfo"),
+    bookingRequired: field.optionalBoolean("bookingRequired"),
+    isFree: field.optionalBoolean("isFree"),
+    lat: field.optionalNumber("lat"),
+    lng: field.optionalNumber("lng"),
+    zoneName: field.optionalString("zoneName"),
+    spottedBy: parseSpottedBy(payload.spottedBy, issues),
+  };
+  reportPayloadCheck({ ...check, droppedCount: 0 });
+  return details;
 };
 
-const endpointCandidates = (base: string, eventUuid: string): string[] => {
-  const encoded = encodeURIComponent(eventUuid);
-  const direct = `${base}/events/get?eventUuid=${encoded}`;
-  if (base.endsWith("/api")) return [direct];
-  return [direct, `${base}/api/events/get?eventUuid=${encoded}`];
+const endpointPaths = (apiBaseUrl: string, eventUuid: string): string[] => {
+  const path = `/events/get?eventUuid=${encodeURIComponent(eventUuid)}`;
+  if (normalizeApiBaseUrl(apiBaseUrl).replace(/\/$/, "").endsWith("/api")) return [path];
+  return [path, `/api${path}`];
 };
 
 export const fetchEventDetails = async (
   apiBaseUrl: string,
   eventUuid: string,
+  signal?: AbortSignal,
 ): Promise<EventDetails> => {
-  const normalizedBase = normalizeApiBaseUrl(apiBaseUrl);
-  const candidates = withLocalFallback(normalizedBase);
-
-  let response: Response | undefined;
-  let lastError: string | undefined;
-
-  for (const base of candidates) {
-    for (const endpoint of endpointCandidates(base, eventUuid)) {
-      try {
-        const current = await fetch(endpoint, {
-          method: "GET",
-          headers: {
-            Accept: "application/json",
-          },
-        });
-        if (!current.ok) {
-          lastError = `status ${current.status}`;
-          continue;
-        }
-        response = current;
-        break;
-      } catch (error) {
-        lastError = error instanceof Error ? error.message : "network error";
-      }
-    }
-    if (response) {
-      break;
-    }
-  }
+  const details = await requestJson(
+    apiUrls(apiBaseUrl, ...endpointPaths(apiBaseUrl, eventUuid)),
+    { signal },
+    (payload, url) => parseEventDetails(payload, url, eventUuid),
+  );
+  cache.set(apiScopedKey(eventUuid), JSON.stringify(details));
+  return details;
+};
 
-  if (!response) {
-    throw new Error(`Unable to load event details (${lastError || "unknown error"})`);
+// Details fetched earlier (from any view), for offline use such as local search.
+export const readCachedEventDetails = (eventUuid: string): EventDetails | null => {
+  const stored = cache.get(apiScopedKey(eventUuid));
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as EventDetails;
+  } catch {
+    return null;
   }
-
-  const payload = (await response.json()) as EventDetails;
-  return {
-    ...payload,
-    lat: toNumber(payload.lat),
-    lng: toNumber(payload.lng),
-  };
 };
 
 export const googleMapsUrl = (
@@ -1,4 +1,16 @@
 import { RaycastEvent } from "../types";
+import {
+  DateFormatOptions,
+  DEFAULT_TIMEZONE,
+  formatClock,
+  formatDateKey,
+  formatDateKeyLabel,
+  formatDayTitle,
+  formatMinutesOfDay,
+  formatStartsIn,
+  shiftDateKey,
+} from "./date-format";
+import { messagesForLocale } from "./i18n";
 
 export type EventDaySection = {
   id: string;
@@ -13,18 +25,39 @@ export type TimeWindow =
   | "today_tomorrow"
   | "next_3_days"
   | "next_7_days"
-  | "this_week";
+  | "this_week"
+  | "custom";
 
-const DEFAULT_TIMEZONE = "Europe/London";
+// Calendar days (YYYY-MM-DD) interpreted in the town's timezone, both inclusive.
+// Optional minutes after local midnight narrow each day to a time of day.
+export type CustomDateRange = {
+  startDate: string;
+  endDate: string;
+  startMinutes?: number;
+  endMinutes?: number;
+};
+
+// One timezone for the whole list, or each event's own (e.g. its town's, when several towns are merged).
+export type EventTimezone = string | ((event: RaycastEvent) => string);
+
+const timezoneOf = (timezone: EventTimezone, event: RaycastEvent): string =>
+  typeof timezone === "string" ? timezone : timezone(event);
+
+const WEBSITE_BASE_URL = "https://townspot.co";
 const DEFAULT_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
 
-const formatDateKey = (value: Date, timezone: string): string =>
-  new Intl.DateTimeFormat("en-CA", {
-    timeZone: timezone || DEFAULT_TIMEZONE,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(value);
+export const resolveEventUrl = (rawUrl: string): string => {
+  const value = String(rawUrl || "").trim();
+  if (!value) return WEBSITE_BASE_URL;
+  try {
+    return new URL(value).toString();
+  } catch {
+    if (value.startsWith("/")) {
+      return `${WEBSITE_BASE_URL}${value}`;
+    }
+    return `${WEBSITE_BASE_URL}/${value}`;
+  }
+};
 
 const sortEvents = (events: RaycastEvent[]): RaycastEvent[] =>
   [...events].sort((a, b) => {
@@ -36,7 +69,7 @@ const sortEvents = (events: RaycastEvent[]): RaycastEvent[] =>
     return aTime - bTime;
   });
 
-const getEventWindowMs = (
+export const getEventWindowMs = (
   event: RaycastEvent,
 ): { startMs: number; endMs: number } | null => {
   const startMs = Date.parse(event.startTime || "");
@@ -51,13 +84,15 @@ const getEventWindowMs = (
   return { startMs, endMs };
 };
 
+export const hasEventEnded = (event: RaycastEvent, nowMs = Date.now()): boolean => {
+  const window = getEventWindowMs(event);
+  if (!window) return true;
+  return window.endMs <= nowMs;
+};
+
 const keepUpcomingEvents = (events: RaycastEvent[]): RaycastEvent[] => {
   const nowMs = Date.now();
-  return events.filter((event) => {
-    const window = getEventWindowMs(event);
-    if (!window) return false;
-    return window.endMs > nowMs;
-  });
+  return events.filter((event) => !hasEventEnded(event, nowMs));
 };
 
 export const isEventLiveNow = (event: RaycastEvent, nowMs = Date.now()): boolean => {
@@ -68,9 +103,10 @@ export const isEventLiveNow = (event: RaycastEvent, nowMs = Date.now()): boolean
 
 export const relativeStartTag = (
   event: RaycastEvent,
+  options: DateFormatOptions,
   nowMs = Date.now(),
 ): string | null => {
-  if (isEventLiveNow(event, nowMs)) return "NOW";
+  if (isEventLiveNow(event, nowMs)) return messagesForLocale(options.locale).liveNowTag;
 
   const window = getEventWindowMs(event);
   if (!window) return null;
@@ -78,14 +114,11 @@ export const relativeStartTag = (
 
   const minutesUntilStart = Math.ceil((window.startMs - nowMs) / (60 * 1000));
   if (minutesUntilStart <= 0 || minutesUntilStart > 180) return null;
-  return `in ${Math.min(minutesUntilStart, 60)}m`;
+  return formatStartsIn(minutesUntilStart, options);
 };
 
-const dateKeyForOffset = (base: Date, timezone: string, offsetDays: number): string => {
-  const shifted = new Date(base);
-  shifted.setUTCDate(shifted.getUTCDate() + offsetDays);
-  return formatDateKey(shifted, timezone);
-};
+const dateKeyForOffset = (base: Date, timezone: string, offsetDays: number): string =>
+  shiftDateKey(formatDateKey(base, timezone), offsetDays);
 
 const weekdayInTimezone = (value: Date, timezone: string): number => {
   const weekdayLabel = new Intl.DateTimeFormat("en-GB", {
@@ -106,38 +139,77 @@ const weekdayInTimezone = (value: Date, timezone: string): number => {
   return weekdays[weekdayLabel] || 1;
 };
 
-const dayLabel = (date: Date, timezone: string): string =>
-  new Intl.DateTimeFormat("en-GB", {
-    timeZone: timezone || DEFAULT_TIMEZONE,
-    weekday: "long",
-    day: "2-digit",
-    month: "short",
-  }).format(date);
-
-export const formatEventTime = (startTime: string, timezone: string): string => {
+export const formatEventTime = (
+  startTime: string,
+  timezone: string,
+  options: DateFormatOptions,
+): string => {
   const parsed = new Date(startTime);
   if (Number.isNaN(parsed.getTime())) return "";
-  return new Intl.DateTimeFormat("en-GB", {
+  return formatClock(parsed, timezone, options);
+};
+
+export const todayDateKey = (timezone: string, now = new Date()): string =>
+  formatDateKey(now, timezone);
+
+export const toDateKey = (value: Date): string =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+
+// Always 24h: this form is sent to the API, not shown to people.
+const formatMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+export const hasTimeOfDay = (range: CustomDateRange): boolean =>
+  Number.isFinite(range.startMinutes) && Number.isFinite(range.endMinutes);
+
+export const formatCustomRangeLabel = (range: CustomDateRange, options: DateFormatOptions): string => {
+  const start = formatDateKeyLabel(range.startDate, options);
+  const end = formatDateKeyLabel(range.endDate, options);
+  const days = start === end ? start : `${start} – ${end}`;
+  if (!hasTimeOfDay(range)) return days;
+  const startClock = formatMinutesOfDay(range.startMinutes as number, options);
+  const endClock = formatMinutesOfDay(range.endMinutes as number, options);
+  return `${days}, ${startClock}–${endClock}`;
+};
+
+export const formatCustomRangeForApi = (range: CustomDateRange): string => {
+  const days =
+    range.startDate === range.endDate
+      ? `on ${range.startDate}`
+      : `from ${range.startDate} to ${range.endDate}`;
+  if (!hasTimeOfDay(range)) return days;
+  return `${days} between ${formatMinutes(range.startMinutes as number)} and ${formatMinutes(range.endMinutes as number)}`;
+};
+
+const minutesInTimezone = (valueMs: number, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
     timeZone: timezone || DEFAULT_TIMEZONE,
     hour: "2-digit",
     minute: "2-digit",
-    hour12: false,
-  }).format(parsed);
+    hourCycle: "h23",
+  }).formatToParts(new Date(valueMs));
+  const hour = Number(parts.find((part) => part.type === "hour")?.value || 0);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value || 0);
+  return hour * 60 + minute;
 };
 
-export const filterEventsByTimeWindow = (
-  events: RaycastEvent[],
+// Keeps events that overlap the requested time of day on their start day.
+const overlapsTimeOfDay = (
+  event: RaycastEvent,
   timezone: string,
-  timeWindow: TimeWindow,
-): RaycastEvent[] => {
-  const now = new Date();
-  const nowMs = now.getTime();
-  if (timeWindow === "now") {
-    return events.filter((event) => isEventLiveNow(event, nowMs));
-  }
-  if (timeWindow === "all_upcoming") {
-    return keepUpcomingEvents(events);
-  }
+  range: CustomDateRange,
+): boolean => {
+  if (!hasTimeOfDay(range)) return true;
+  const window = getEventWindowMs(event);
+  if (!window) return false;
+  const startMinutes = minutesInTimezone(window.startMs, timezone);
+  const sameDay = formatDateKey(new Date(window.startMs), timezone) === formatDateKey(new Date(window.endMs), timezone);
+  const endMinutes = sameDay ? minutesInTimezone(window.endMs, timezone) : 24 * 60;
+  return startMinutes < (range.endMinutes as number) && endMinutes > (range.startMinutes as number);
+};
+
+// The calendar days a day-based window covers, counted from `now` in `timezone`.
+const windowDateKeys = (now: Date, timezone: string, timeWindow: TimeWindow): Set<string> => {
   const todayKey = formatDateKey(now, timezone);
   const allowedDateKeys = new Set<string>();
 
@@ -161,25 +233,67 @@ export const filterEventsByTimeWindow = (
       allowedDateKeys.add(dateKeyForOffset(now, timezone, offset));
     }
   }
+  return allowedDateKeys;
+};
+
+export const filterEventsByTimeWindow = (
+  events: RaycastEvent[],
+  eventTimezone: EventTimezone,
+  timeWindow: TimeWindow,
+  customRange?: CustomDateRange | null,
+): RaycastEvent[] => {
+  const now = new Date();
+  const nowMs = now.getTime();
+  if (timeWindow === "now") {
+    return events.filter((event) => isEventLiveNow(event, nowMs));
+  }
+  if (timeWindow === "all_upcoming") {
+    return keepUpcomingEvents(events);
+  }
+  if (timeWindow === "custom") {
+    if (!customRange) return keepUpcomingEvents(events);
+    // "10pm to 2am" ends past 24:00 and also takes the small hours after each day in the range.
+    const smallHoursEnd = hasTimeOfDay(customRange) ? (customRange.endMinutes as number) - 24 * 60 : 0;
+    return keepUpcomingEvents(events).filter((event) => {
+      const parsed = new Date(event.startTime || "");
+      if (Number.isNaN(parsed.getTime())) return false;
+      const timezone = timezoneOf(eventTimezone, event);
+      const eventDateKey = formatDateKey(parsed, timezone);
+      if (
+        smallHoursEnd > 0 &&
+        eventDateKey > customRange.startDate &&
+        eventDateKey <= shiftDateKey(customRange.endDate, 1) &&
+        minutesInTimezone(parsed.getTime(), timezone) < smallHoursEnd
+      ) {
+        return true;
+      }
+      if (eventDateKey < customRange.startDate || eventDateKey > customRange.endDate) return false;
+      return overlapsTimeOfDay(event, timezone, customRange);
+    });
+  }
+  const allowedKeysByTimezone = new Map<string, Set<string>>();
+  const allowedDateKeys = (timezone: string): Set<string> => {
+    const cached = allowedKeysByTimezone.get(timezone);
+    if (cached) return cached;
+    const keys = windowDateKeys(now, timezone, timeWindow);
+    allowedKeysByTimezone.set(timezone, keys);
+    return keys;
+  };
 
   return keepUpcomingEvents(events).filter((event) => {
     const parsed = new Date(event.startTime || "");
     if (Number.isNaN(parsed.getTime())) return false;
-    const eventDateKey = formatDateKey(parsed, timezone);
-    return allowedDateKeys.has(eventDateKey);
+    const timezone = timezoneOf(eventTimezone, event);
+    return allowedDateKeys(timezone).has(formatDateKey(parsed, timezone));
   });
 };
 
 export const groupEventsByDay = (
   events: RaycastEvent[],
-  timezone: string,
+  eventTimezone: EventTimezone,
+  options: DateFormatOptions,
 ): EventDaySection[] => {
   const now = new Date();
-  const todayKey = formatDateKey(now, timezone);
-  const tomorrow = new Date(now);
-  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-  const tomorrowKey = formatDateKey(tomorrow, timezone);
-
   const grouped = new Map<string, EventDaySection>();
   const sortedEvents = sortEvents(events);
 
@@ -187,17 +301,12 @@ export const groupEventsByDay = (
     const parsed = new Date(event.startTime || "");
     if (Number.isNaN(parsed.getTime())) continue;
 
+    const timezone = timezoneOf(eventTimezone, event);
     const key = formatDateKey(parsed, timezone);
     if (!grouped.has(key)) {
-      const title =
-        key === todayKey
-          ? "Today"
-          : key === tomorrowKey
-            ? "Tomorrow"
-            : dayLabel(parsed, timezone);
       grouped.set(key, {
         id: key,
-        title,
+        title: formatDayTitle(parsed, timezone, options, now),
         events: [],
       });
     }
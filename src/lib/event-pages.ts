@@ -0,0 +1,39 @@
+import { formatDateKey, parseDateValue } from "./date-format";
+import { RaycastResponse } from "../types";
+
+export const hasMorePages = (response: RaycastResponse | null | undefined): boolean =>
+  typeof response?.nextOffset === "number";
+
+// Adds the next page to a listing, skipping events it already has. A page that adds nothing ends
+// pagination, so a server that ignores `offset` can't keep the list loading forever.
+export const appendEventPage = (listing: RaycastResponse, page: RaycastResponse): RaycastResponse => {
+  const seenIds = new Set(listing.events.map((event) => event.id));
+  const newEvents = page.events.filter((event) => !seenIds.has(event.id));
+  return {
+    ...listing,
+    events: [...listing.events, ...newEvents],
+    nextOffset: newEvents.length ? page.nextOffset ?? null : null,
+  };
+};
+
+const lastStartMs = (response: RaycastResponse): number | null => {
+  const starts = response.events
+    .map((event) => parseDateValue(event.startTime)?.getTime())
+    .filter((value): value is number => typeof value === "number");
+  return starts.length ? Math.max(...starts) : null;
+};
+
+// The first day that may still be missing events: the day of the latest event loaded from any listing
+// that has more pages. Days before it are complete; null means every day is.
+export const firstIncompleteDayKey = (responses: RaycastResponse[], timezone: string): string | null => {
+  const keys = responses
+    .filter(hasMorePages)
+    .map(lastStartMs)
+    .filter((value): value is number => value !== null)
+    .map((value) => formatDateKey(new Date(value), timezone))
+    .sort();
+  return keys[0] ?? null;
+};
+
+export const isDayComplete = (dayKey: string, firstIncompleteKey: string | null): boolean =>
+  firstIncompleteKey === null || dayKey < firstIncompleteKey;
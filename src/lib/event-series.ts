@@ -0,0 +1,98 @@
+import { hasEventEnded } from "./event-listing";
+import { splitEventTags } from "./event-tags";
+import { foldText } from "./i18n";
+import { RaycastEvent } from "../types";
+
+export type EventSeries = {
+  id: string;
+  title: string;
+  venueName: string;
+  frequency: string | null;
+  // Upcoming occurrences, soonest first.
+  events: RaycastEvent[];
+};
+
+export type CollapsedEvents = {
+  // One row per series (its next listed occurrence) plus every one-off event, in input order.
+  events: RaycastEvent[];
+  seriesByEventId: Record<string, EventSeries>;
+};
+
+const normalizeKeyPart = (value: string): string =>
+  foldText(value || "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+export const eventSeriesKey = (event: RaycastEvent): string => {
+  const title = normalizeKeyPart(event.title);
+  if (!title) return "";
+  return `${title}|${normalizeKeyPart(event.venueName)}`;
+};
+
+const startMs = (event: RaycastEvent): number => {
+  const parsed = Date.parse(event.startTime || "");
+  return Number.isNaN(parsed) ? Number.POSITIVE_INFINITY : parsed;
+};
+
+const seriesFrequency = (events: RaycastEvent[]): string | null => {
+  for (const event of events) {
+    const frequency = splitEventTags(event.tags || []).frequency;
+    if (frequency && frequency !== "One-Off") return frequency;
+  }
+  return null;
+};
+
+// Builds series from every upcoming event so a series row can count dates outside the current filters.
+export const buildEventSeries = (events: RaycastEvent[], nowMs = Date.now()): Record<string, EventSeries> => {
+  const grouped = new Map<string, RaycastEvent[]>();
+  for (const event of events) {
+    if (hasEventEnded(event, nowMs)) continue;
+    const key = eventSeriesKey(event);
+    if (!key) continue;
+    const occurrences = grouped.get(key) || [];
+    if (occurrences.some((item) => item.id === event.id)) continue;
+    occurrences.push(event);
+    grouped.set(key, occurrences);
+  }
+
+  const seriesByKey: Record<string, EventSeries> = {};
+  for (const [key, occurrences] of grouped) {
+    if (occurrences.length < 2) continue;
+    const sorted = [...occurrences].sort((a, b) => startMs(a) - startMs(b));
+    seriesByKey[key] = {
+      id: `series:${sorted[0].id}`,
+      title: sorted[0].title,
+      venueName: sorted[0].venueName,
+      frequency: seriesFrequency(sorted),
+      events: sorted,
+    };
+  }
+  return seriesByKey;
+};
+
+export const collapseEventSeries = (
+  events: RaycastEvent[],
+  seriesByKey: Record<string, EventSeries>,
+): CollapsedEvents => {
+  const representativeByKey = new Map<string, RaycastEvent>();
+  for (const event of events) {
+    const key = eventSeriesKey(event);
+    if (!seriesByKey[key]) continue;
+    const current = representativeByKey.get(key);
+    if (!current || startMs(event) < startMs(current)) {
+      representativeByKey.set(key, event);
+    }
+  }
+
+  const seriesByEventId: Record<string, EventSeries> = {};
+  const collapsed = events.filter((event) => {
+    const key = eventSeriesKey(event);
+    const representative = representativeByKey.get(key);
+    if (!representative) return true;
+    if (representative !== event) return false;
+    seriesByEventId[event.id] = seriesByKey[key];
+    return true;
+  });
+
+  return { events: collapsed, seriesByEventId };
+};
@@ -1,9 +1,12 @@
 import { RaycastEvent } from "../types";
+import { messagesForLocale } from "./i18n";
+import { inferTimeframeFromQuery } from "./query-inference";
 
 type GroundedSummaryInput = {
   townName: string;
   query: string;
   events: RaycastEvent[];
+  locale: string;
 };
 
 type GroundedSummary = {
@@ -11,32 +14,29 @@ type GroundedSummary = {
   subtitle: string;
 };
 
-const normalizeQueryLabel = (query: string): string => {
-  const normalized = String(query || "").toLowerCase();
-  if (normalized.includes("tonight")) return "tonight";
-  if (normalized.includes("tomorrow")) return "tomorrow";
-  if (normalized.includes("this weekend")) return "this weekend";
-  if (normalized.includes("next week")) return "next week";
-  if (normalized.includes("this week")) return "this week";
-  return "in the next 7 days";
+const normalizeQueryLabel = (query: string, locale: string): string => {
+  const { timeframes } = messagesForLocale(locale);
+  const timeframe = inferTimeframeFromQuery(query, locale);
+  return timeframe ? timeframes[timeframe] : timeframes.next7Days;
 };
 
 export const buildGroundedSummary = (
   input: GroundedSummaryInput,
 ): GroundedSummary => {
-  const townName = String(input.townName || "your town");
-  const timeframe = normalizeQueryLabel(input.query);
+  const messages = messagesForLocale(input.locale);
+  const townName = String(input.townName || messages.yourTown);
+  const timeframe = normalizeQueryLabel(input.query, input.locale);
   const count = input.events.length;
 
   if (count === 0) {
     return {
-      title: `No events found in ${townName}`,
-      subtitle: `Try a broader search. Current window: ${timeframe}.`,
+      title: messages.noEventsFoundIn(townName),
+      subtitle: messages.tryBroaderSearch(timeframe),
     };
   }
 
   return {
-    title: `${count} event${count === 1 ? "" : "s"} in ${townName}`,
-    subtitle: `Showing results for ${timeframe}. Use arrow keys to browse.`,
+    title: messages.eventsIn(count, townName),
+    subtitle: messages.showingResultsFor(timeframe),
   };
 };
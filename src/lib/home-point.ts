@@ -0,0 +1,195 @@
+import { LocalStorage } from "@raycast/api";
+import { haversineKm } from "./location-context";
+import { apiUrls, requestJson, TownSpotHttpError, TownSpotPayloadError } from "./api-client";
+import { Messages } from "./i18n";
+import { fieldReader, isRecord } from "./payload-validation";
+import { sanitizeTownSlug } from "./townspot";
+import { RaycastEvent } from "../types";
+
+export const HOME_POINT_STORAGE_KEY = "townspot-home-point";
+
+export const DISTANCE_FILTER_KM = [1, 2, 5, 10, 25];
+
+export type HomePoint = {
+  lat: number;
+  lng: number;
+  label: string;
+};
+
+export type Coordinates = {
+  lat: number;
+  lng: number;
+};
+
+export type EventSortMode = "time" | "distance";
+
+type GeocodeMatch = {
+  coordinates: Coordinates | null;
+  label: string;
+};
+
+// How the geocoder answers an address it doesn't know, as opposed to a 404 for a missing route.
+const ADDRESS_NOT_FOUND_CODE = "address_not_found";
+
+const isAddressNotFound = (error: TownSpotHttpError): boolean => {
+  if (error.status !== 404) return false;
+  try {
+    const body = JSON.parse(error.body) as { code?: unknown } | null;
+    return body?.code === ADDRESS_NOT_FOUND_CODE;
+  } catch {
+    return false;
+  }
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed)) return null;
+  return parsed;
+};
+
+const isValidCoordinates = (lat: number, lng: number): boolean =>
+  Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const isHomePoint = (value: unknown): value is HomePoint => {
+  const candidate = value as HomePoint | null;
+  return Boolean(
+    candidate &&
+      typeof candidate === "object" &&
+      typeof candidate.lat === "number" &&
+      typeof candidate.lng === "number" &&
+      isValidCoordinates(candidate.lat, candidate.lng),
+  );
+};
+
+export const loadHomePoint = async (): Promise<HomePoint | null> => {
+  const stored = await LocalStorage.getItem<string>(HOME_POINT_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return isHomePoint(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveHomePoint = async (point: HomePoint): Promise<void> => {
+  await LocalStorage.setItem(HOME_POINT_STORAGE_KEY, JSON.stringify(point));
+};
+
+export const clearHomePoint = async (): Promise<void> => {
+  await LocalStorage.removeItem(HOME_POINT_STORAGE_KEY);
+};
+
+// Accepts "51.55, -0.14" or "51.55 -0.14".
+export const parseCoordinates = (value: string): Coordinates | null => {
+  const parts = String(value || "")
+    .trim()
+    .split(/[\s,;]+/)
+    .filter(Boolean);
+  if (parts.length !== 2) return null;
+  const lat = toNumber(parts[0]);
+  const lng = toNumber(parts[1]);
+  if (lat === null || lng === null || !isValidCoordinates(lat, lng)) return null;
+  return { lat, lng };
+};
+
+export const formatCoordinates = ({ lat, lng }: Coordinates): string =>
+  `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+
+const parseGeocodeMatch = (payload: unknown, url: string): GeocodeMatch => {
+  if (!isRecord(payload)) throw new TownSpotPayloadError(url, "expected an object");
+  const field = fieldReader(payload, "", []);
+  const lat = field.optionalNumber("lat");
+  const lng = field.optionalNumber("lng") ?? field.optionalNumber("lon");
+  return {
+    coordinates: lat !== null && lng !== null && isValidCoordinates(lat, lng) ? { lat, lng } : null,
+    label: (field.optionalString("label") || field.optionalString("formattedAddress") || "").trim(),
+  };
+};
+
+// Unknown addresses come back either without coordinates or as a 404 with `code: "address_not_found"`;
+// any other 404 (e.g. a server without the route) is left for `describeApiError`.
+export const geocodeAddress = async (
+  apiBaseUrl: string,
+  address: string,
+  messages: Messages,
+  townSlug?: string,
+): Promise<HomePoint> => {
+  const query = String(address || "").trim();
+  if (!query) {
+    throw new Error(messages.enterAddressToLookUp);
+  }
+
+  const params = new URLSearchParams({ q: query });
+  const zone = sanitizeTownSlug(townSlug || "");
+  if (zone) params.set("townSlug", zone);
+
+  let match: GeocodeMatch;
+  try {
+    match = await requestJson(apiUrls(apiBaseUrl, `/places/geocode?${params.toString()}`), {}, parseGeocodeMatch);
+  } catch (error) {
+    if (error instanceof TownSpotHttpError && isAddressNotFound(error)) {
+      throw new Error(messages.addressNotFound(query));
+    }
+    throw error;
+  }
+  if (!match.coordinates) {
+    throw new Error(messages.addressNotFound(query));
+  }
+
+  return { ...match.coordinates, label: match.label || query };
+};
+
+export const eventCoordinates = (event: RaycastEvent): Coordinates | null => {
+  const lat = toNumber(event.lat);
+  const lng = toNumber(event.lng);
+  if (lat === null || lng === null || !isValidCoordinates(lat, lng)) return null;
+  return { lat, lng };
+};
+
+export const distanceKmFrom = (point: Coordinates, target: Coordinates | null): number | null =>
+  target ? haversineKm(point.lat, point.lng, target.lat, target.lng) : null;
+
+// Events without a known venue location are dropped by a radius filter.
+export const filterEventsWithinKm = (
+  events: RaycastEvent[],
+  maxKm: number | null,
+  distanceFor: (event: RaycastEvent) => number | null,
+): RaycastEvent[] => {
+  if (maxKm === null) return events;
+  return events.filter((event) => {
+    const distance = distanceFor(event);
+    return distance !== null && distance <= maxKm;
+  });
+};
+
+// Stable nearest-first ordering; events with no known distance keep their order at the end.
+export const sortEventsByDistance = (
+  events: RaycastEvent[],
+  distanceFor: (event: RaycastEvent) => number | null,
+): RaycastEvent[] =>
+  events
+    .map((event, index) => ({ event, index, distance: distanceFor(event) }))
+    .sort((a, b) => {
+      if (a.distance === null && b.distance === null) return a.index - b.index;
+      if (a.distance === null) return 1;
+      if (b.distance === null) return -1;
+      return a.distance - b.distance || a.index - b.index;
+    })
+    .map((entry) => entry.event);
+
+export const formatDistance = (km: number, locale: string): string => {
+  if (km < 1) {
+    const metres = Math.max(50, Math.round((km * 1000) / 50) * 50);
+    return new Intl.NumberFormat(locale, { style: "unit", unit: "meter", unitDisplay: "short" }).format(
+      metres,
+    );
+  }
+  return new Intl.NumberFormat(locale, {
+    style: "unit",
+    unit: "kilometer",
+    unitDisplay: "short",
+    maximumFractionDigits: km < 10 ? 1 : 0,
+  }).format(km);
+};
@@ -0,0 +1,1163 @@
+import { getPreferenceValues } from "@raycast/api";
+import { ApiEnvironmentId } from "./api-environment";
+import { TimeWindow } from "./event-listing";
+import { PayloadSource } from "./payload-validation";
+import { QuickQueryPresetId } from "./query-presets";
+
+export type Language = "en" | "es" | "ca";
+
+export const DEFAULT_LOCALE = "en-GB";
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  es: "Spanish",
+  ca: "Catalan",
+};
+
+// The preference is free text but feeds every Intl formatter: "en_GB" is read as "en-GB", and anything
+// Intl would reject falls back to the default instead of throwing a RangeError.
+export const normalizeLocale = (locale: string | undefined): string => {
+  const normalized = String(locale || "").trim().replace(/_/g, "-");
+  if (!normalized) return DEFAULT_LOCALE;
+  try {
+    return Intl.getCanonicalLocales(normalized)[0] || DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export const languageForLocale = (locale: string): Language => {
+  const language = String(locale || "").trim().toLowerCase().slice(0, 2);
+  if (language === "es" || language === "ca") return language;
+  return "en";
+};
+
+export const languageName = (locale: string): string => LANGUAGE_NAMES[languageForLocale(locale)];
+
+// Lowercases and strips diacritics so "Música" and "musica" match the same phrase.
+export const foldText = (value: string): string =>
+  String(value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+export const preferredLocale = (): string =>
+  normalizeLocale(getPreferenceValues<{ locale?: string }>().locale);
+
+const plural = (count: number, one: string, many: string): string => `${count} ${count === 1 ? one : many}`;
+
+const en = {
+  // Shared
+  myPlans: "My Plans",
+  inMyPlans: "In My Plans",
+  saveToMyPlans: "Save to My Plans",
+  removeFromMyPlans: "Remove from My Plans",
+  savedToMyPlans: "Saved to My Plans",
+  removedFromMyPlans: "Removed from My Plans",
+  event: "Event",
+  calendar: "Calendar",
+  filters: "Filters",
+  when: "When",
+  categories: "Categories",
+  hometown: "Hometown",
+  yourTown: "your town",
+  viewEventDetails: "View Event Details",
+  openOnWebsite: "Open on Website",
+  copyEventLink: "Copy Event Link",
+  calendarExportFailed: "Calendar export failed",
+  couldNotReachTownSpot: "Could not reach TownSpot",
+  show: (label: string) => `Show ${label}`,
+  use: (label: string) => `Use ${label}`,
+
+  // Time windows
+  timeWindows: {
+    now: "Happening now",
+    all_upcoming: "All Upcoming",
+    today: "Today",
+    today_tomorrow: "Today + Tomorrow",
+    next_3_days: "Next 3 Days",
+    next_7_days: "Next 7 Days",
+    this_week: "This Week",
+  } satisfies Record<Exclude<TimeWindow, "custom">, string>,
+  customRange: "Custom Range",
+  customRangeItem: "Custom Range…",
+  customRangeLabel: (range: string) => `Custom: ${range}`,
+  pickStartAndEnd: "Pick start and end dates",
+  chooseDates: "Choose Dates",
+  chooseTimeWindow: "Choose Time Window",
+  chooseCategory: "Choose Category",
+  allCategory: "All",
+
+  // Distance
+  distance: "Distance",
+  homePoint: "Home point",
+  setHomePoint: "Set Home Point",
+  changeHomePoint: "Change Home Point",
+  clearHomePoint: "Clear Home Point",
+  homePointHint: "Enter an address to look it up, or paste coordinates as latitude, longitude.",
+  coordinates: "Coordinates",
+  enterAddressOrCoordinates: "Enter an address or coordinates.",
+  invalidCoordinates: "Coordinates should look like 51.5072, -0.1276.",
+  lookingUpAddress: "Looking up address...",
+  addressLookupFailed: "Address lookup failed",
+  enterAddressToLookUp: "Enter an address to look up.",
+  addressNotFound: (address: string) => `Could not find "${address}".`,
+  homePointSaved: "Home point saved",
+  homePointCleared: "Home point cleared",
+  setHomePointHint: "Set a home point to see how far away events are",
+  anyDistance: "Any distance",
+  withinDistance: (distance: string) => `Within ${distance}`,
+  nextDistanceFilter: "Next Distance Filter",
+  sortByDistance: "Sort by Distance",
+  sortByTime: "Sort by Time",
+  nearestFirst: "nearest first",
+  locatingVenues: "Locating venues...",
+  distanceFrom: (distance: string, place: string) => `${distance} from ${place}`,
+
+  // Price filter
+  anyPrice: "Any price",
+  underPrice: (amount: string) => `Under ${amount}`,
+  nextPriceFilter: "Next Price Filter",
+  checkingPrices: "Checking prices...",
+  priceFilterHint: "Unlisted prices are hidden while a price filter is on",
+
+  // Multiple towns
+  towns: "Towns",
+  chooseTowns: "Choose Towns",
+  townCount: (count: number) => plural(count, "town", "towns"),
+  selectTown: "Select Town",
+  deselectTown: "Deselect Town",
+  compareTowns: (count: number) => `Compare ${plural(count, "Town", "Towns")}`,
+  pickAtLeastTwoTowns: "Pick at least two towns to compare.",
+  onlyTown: (town: string) => `Only ${town}`,
+  addTownsHint: "press Enter to add neighbouring towns",
+  backToSingleTown: (town: string) => `Back to ${town} Only`,
+
+  // Recurring series
+  upcomingDates: "Upcoming Dates",
+  dateCount: (count: number) => plural(count, "date", "dates"),
+  repeats: "Repeats",
+  viewAllDates: "View All Dates",
+  viewNextDate: "View Next Date",
+
+  // Venues
+  venue: "Venue",
+  venues: "Venues",
+  browseVenues: "Browse Venues",
+  filterVenues: "Filter venues",
+  filterVenueEvents: (venue: string) => `Filter events at ${venue}`,
+  upcomingEventCount: (count: number) => plural(count, "upcoming event", "upcoming events"),
+  showVenueEvents: "Show Venue Events",
+  followVenue: "Follow Venue",
+  unfollowVenue: "Unfollow Venue",
+  followingVenue: "Following venue",
+  unfollowedVenue: "Unfollowed venue",
+  following: "Following",
+  followedVenues: "Followed Venues",
+  otherVenues: "Other Venues",
+  copyVenueAddress: "Copy Venue Address",
+  lookingUpAddresses: "Looking up addresses...",
+  noVenues: "No venues yet",
+  noVenuesHint: "Venues appear once events have loaded.",
+
+  // Saved searches
+  quickSearches: "Quick Searches",
+  savedSearches: "Saved Searches",
+  quickQueryPresets: {
+    tonight: { title: "Tonight Nearby", subtitle: "Immediate plans in your town" },
+    weekend: { title: "This Weekend", subtitle: "Best options for Saturday and Sunday" },
+    kids: { title: "Kids and Family", subtitle: "Family-friendly ideas" },
+    free: { title: "Free Events", subtitle: "No-cost options" },
+    music: { title: "Live Music", subtitle: "Gigs and live sets" },
+  } satisfies Record<QuickQueryPresetId, { title: string; subtitle: string }>,
+  runSearch: "Run Search",
+  saveCurrentSearch: "Save Current Search…",
+  newSavedSearch: "New Saved Search",
+  editSavedSearch: "Edit Saved Search",
+  deleteSavedSearch: "Delete Saved Search",
+  manageSavedSearches: "Manage Saved Searches",
+  saveSearch: "Save Search",
+  moveUp: "Move Up",
+  moveDown: "Move Down",
+  createQuicklink: "Create Quicklink",
+  copyDeeplink: "Copy Deeplink",
+  name: "Name",
+  searchQuery: "Search",
+  searchQueryPlaceholder: "live music, kids, free...",
+  category: "Category",
+  selectedTown: "Selected town",
+  enterSearchName: "Please enter a name.",
+  searchSaved: "Search saved",
+  searchDeleted: "Search deleted",
+  noSavedSearches: "No saved searches yet",
+  noSavedSearchesHint: "Press ⌘N to save the current search, or ⌘⇧S from the event list.",
+  savedSearchHint: "Each saved search can be turned into a Raycast quicklink from the Saved Searches list.",
+
+  // Custom range form
+  chooseStartDate: "Please choose a start date.",
+  endBeforeStart: "The end date must be on or after the start date.",
+  showEventsInRange: "Show Events in Range",
+  customRangeHint: "Dates are matched in the town's local time. Leave the end empty for a single day.",
+  from: "From",
+  to: "To",
+
+  // Waitlist
+  tellUsYourTown: "Tell us your town",
+  tellUsYourTownArrow: "Tell us your town →",
+  notFromAroundHere: "Not from around here?",
+  notFromAroundHereHuh: "Not from around here, huh?",
+  waitlistIntro: "Not from around here, huh? Tell us your town.",
+  invalidEmail: "Please enter a valid email address.",
+  missingLocation: "Please enter your town and country.",
+  waitlistThanks: "Thanks! We'll be in touch if we head your way.",
+  somethingWentWrong: "Something went wrong. Please try again.",
+  submitting: "Submitting...",
+  submit: "Submit",
+  yourEmail: "Your email",
+  yourTownCountry: "Your town, country",
+  anythingElse: "Anything else? (optional)",
+
+  // Event list
+  localsActive: (count: number) => `${count} locals active`,
+  localsActiveThisWeek: (count?: number) =>
+    count === undefined ? "locals active this week" : `${count} locals active this week`,
+  searchPlaceholder: (town: string) => `What's on in ${town}? Try kids, free, music, now...`,
+  loadingHometown: "Loading hometown...",
+  loadingYourHometown: "Loading your hometown...",
+  setHometown: "Set Hometown",
+  setHometownPrompt: "Set your hometown from the dropdown to start",
+  setHometownItem: "Set hometown...",
+  setHometownTo: (town: string) => `Set hometown: ${town}`,
+  activeTown: "Active town",
+  suggestedHometown: "Suggested hometown",
+  detectingHometown: "Finding the town nearest you...",
+  detectedNearYou: "Detected near you",
+  fallbackSuggestion: "Default suggestion",
+  detectedTownHint: "Matched from your approximate location",
+  fallbackTownHint: "We couldn't work out where you are",
+  resetHometown: "Reset hometown",
+  noEventsToExport: "No events to export",
+  exportedEvents: (count: number) => `Exported ${plural(count, "event", "events")}`,
+  openInCalendar: "Open in Calendar",
+  showInFinder: "Show in Finder",
+  pressEnterHint: (label: string) => `${label}. Press Enter, then use ↑/↓.`,
+  updatedAgo: (age: string) => `Updated ${age}`,
+  savedListings: "Saved listings",
+  eventCount: (count: number) => `${count} events`,
+  categoryCount: (count: number) => `${count} categories`,
+  daySectionComplete: (count: number) => `${plural(count, "event", "events")} · all loaded`,
+  daySectionPartial: (count: number) => `${plural(count, "event", "events")} so far · more as you scroll`,
+  loadMoreFailed: "Couldn't load more events",
+  allCategoriesHint: "All categories. Press Enter, then use ↑/↓.",
+  selectedCategoryHint: (category: string) => `Selected: ${category}. Press Enter, then use ↑/↓.`,
+  nextTimeWindow: "Next Time Window",
+  previousTimeWindow: "Previous Time Window",
+  nextCategory: "Next Category",
+  previousCategory: "Previous Category",
+  showAllCategories: "Show All Categories",
+  exportListedEvents: "Export Listed Events to Calendar",
+  showEventsHappeningNow: "Show Events Happening Now",
+  showTodayTomorrow: "Show Today + Tomorrow",
+  showKidsEvents: "Show Kids Events",
+  showAllUpcoming: "Show All Upcoming",
+  searchThisWeekend: "Search This Weekend",
+  thisWeekendQuery: "what's on this weekend",
+  loadingEvents: "Loading events…",
+  loadingEventsHint: "Pulling the latest listings for your town.",
+  noEventsForSearch: "No events for this search",
+  noEventsHint: "Try broadening your query or switch to another time window.",
+  connection: "Connection",
+  offlineShowing: (age: string) => `Offline · showing listings from ${age}`,
+  unableToLoadEvents: "Unable to load TownSpot events",
+  unableToReachTownSpot: "Unable to reach TownSpot",
+  unableToLoadTowns: "Unable to load active towns",
+  activeTownsUnavailable: "Active towns unavailable",
+
+  // API errors
+  apiNetworkError: "Can't reach TownSpot. Check your internet connection.",
+  apiTimeout: (seconds: number) => `TownSpot didn't respond within ${seconds} seconds.`,
+  apiServerError: (status: number) => `TownSpot is having trouble (${status}). Try again shortly.`,
+  apiRateLimited: "Too many requests to TownSpot. Wait a moment and try again.",
+  apiNotFound: "TownSpot couldn't find what was requested.",
+  apiRequestFailed: (status: number) => `TownSpot couldn't handle the request (${status}).`,
+  apiBadPayload: "TownSpot sent a response the extension couldn't read.",
+
+  // API environments
+  apiEnvironments: {
+    prod: "Production",
+    staging: "Staging",
+    local: "Local",
+  } satisfies Record<ApiEnvironmentId, string>,
+
+  // API diagnostics
+  apiDiagnostics: "API Diagnostics",
+  showApiDiagnostics: "Show API Diagnostics",
+  payloadSources: {
+    query: "Event listings",
+    "event-details": "Event details",
+    zones: "Town list",
+  } satisfies Record<PayloadSource, string>,
+  payloadIssueSubtitle: (expected: string, received: string) => `Expected ${expected}, got ${received}`,
+  payloadIssueSkipped: "Skipped",
+  payloadIssueDefaulted: "Defaulted",
+  payloadRejected: "Whole response rejected",
+  payloadSkippedCount: (skipped: number, total: number) => `${skipped} of ${total} skipped`,
+  skippedMalformedEvents: (count: number) => `Skipped ${plural(count, "malformed listing", "malformed listings")}`,
+  skippedMalformedEventsHint: "TownSpot sent data this version can't read.",
+  noPayloadIssues: "No payload problems recorded",
+  noPayloadIssuesHint: "Responses that fail validation show up here with the fields that failed.",
+  copyPayloadReport: "Copy Report as JSON",
+  clearDiagnostics: "Clear Diagnostics",
+  diagnosticsCleared: "Diagnostics cleared",
+
+  // Event details
+  where: "Where",
+  spottedBy: "Spotted by",
+  address: "Address",
+  recurrence: "Recurrence",
+  price: "Price",
+  town: "Town",
+  townSpotLink: "TownSpot Link",
+  openListing: "Open listing",
+  recurringEvent: (frequency: string) => `${frequency} recurring event`,
+  free: "Free",
+  paid: "Paid",
+  aLocal: "a local",
+  admin: "Admin",
+  timeToBeConfirmed: "TBC",
+  timeRange: (start: string, end: string) => `${start} to ${end}`,
+  justNow: "just now",
+  liveNowTag: "NOW",
+  unableToLoadDetails: "Unable to load event details",
+  couldNotLoadFullDetails: (error: string) => `Could not load full details (${error}).`,
+  calendarFileCreated: "Calendar file created",
+  quickActions: "Quick Actions",
+  openOnTownSpot: "Open on TownSpot",
+  shareOnWhatsApp: "Share on WhatsApp",
+  openSourceUrl: "Open Source URL",
+  addToCalendar: "Add to Calendar",
+  addToGoogleCalendar: "Add to Google Calendar",
+  maps: "Maps",
+  openInAppleMaps: "Open in Apple Maps",
+  openInGoogleMaps: "Open in Google Maps",
+  copy: "Copy",
+  copyShareMessage: "Copy Share Message",
+  copyEventName: "Copy Event Name",
+  copyEventTime: "Copy Event Time",
+  copyEventAddress: "Copy Event Address",
+
+  // My Plans
+  filterSavedEvents: "Filter saved events",
+  noSavedPlans: "No saved plans yet",
+  noSavedPlansHint: "Star events from TownSpot with ⌘S to keep them here.",
+
+  // What's on Now
+  openListingTooltip: "Open listing (⌥ for details)",
+  detailsFor: (title: string) => `Details: ${title}`,
+  liveNowIn: (town: string) => `Live now in ${town}`,
+  nowIn: (town: string) => `Now in ${town}`,
+  now: "Now",
+  nothingLiveNow: "Nothing live right now",
+  startingWithin3Hours: "Starting within 3 hours",
+  nothingStartingSoon: "Nothing starting soon",
+  openTownSpot: "Open TownSpot",
+
+  // Hometown updates
+  setHometownFirst: "Set Hometown in TownSpot first",
+  noHometownSet: "No hometown set",
+  noHometownSetHint: "Open TownSpot and choose your hometown.",
+  hometownInactive: "Hometown is no longer active",
+  noNewEvents: "No new events",
+  noNewEventsShort: "no new events",
+  checkedAt: (time: string) => `checked ${time}`,
+  newEventCount: (count: number) => plural(count, "new event", "new events"),
+  newEventsIn: (countLabel: string, town: string) => `${countLabel} in ${town}`,
+  watchingEvents: (count: number) => `Watching ${count} events`,
+  couldNotCheckNewEvents: "Could not check for new events",
+
+  // Ask TownSpot AI
+  askTownSpotAi: "Ask TownSpot AI",
+  askAFollowUp: "Ask a Follow-up",
+  askFollowUp: "Ask Follow-up",
+  askAnotherQuestion: "Ask Another Question",
+  startNewConversation: "Start New Conversation",
+  couldNotRunAi: "Could not run Ask TownSpot AI.",
+  aiFailed: "Ask TownSpot AI failed",
+  followUpIn: (town: string) => `Follow-up in ${town}`,
+  matchedTownFromQuery: (town: string) => `Matched town from query: ${town}`,
+  usingHometown: (town: string) => `Using hometown: ${town}`,
+  enterQuestion: "Enter a question",
+  enterQuestionHint: "Try: kids events this weekend",
+  followingUpOn: (prompt: string) => `Following up on "${prompt}". Try: what about Sunday instead?`,
+  askIntro: "Ask naturally. TownSpot AI will answer using TownSpot event listings.",
+  question: "Question",
+  questionPlaceholder: "kids events this weekend",
+  queryLabel: "Query",
+  noAnswer: "No answer.",
+  generatingAnswer: "Generating grounded answer…",
+  openFirstListing: "Open First Listing",
+  copyAiAnswer: "Copy AI Answer",
+  copyVerifiedListings: "Copy Verified Listings",
+  copiedVerifiedListings: "Copied verified listings",
+
+  // Citations
+  unverified: "unverified",
+  unverifiedLink: "unverified link",
+  unknownSource: "unknown source",
+  noVerifiedCitations: "No verified events were cited.",
+  citesVerifiedEvents: (count: number) => `Cites ${plural(count, "verified event", "verified events")}.`,
+  unverifiedItems: (count: number) => `${plural(count, "item", "items")} could not be verified:`,
+  citationIssues: {
+    unknown_citation: "Citation to an event that was not in the verified list",
+    unverified_link: "Link that does not match a verified listing",
+    unverified_title: "Event name that does not match a verified listing",
+  },
+
+  // Grounded summary
+  timeframes: {
+    tonight: "tonight",
+    tomorrow: "tomorrow",
+    thisWeekend: "this weekend",
+    nextWeek: "next week",
+    thisWeek: "this week",
+    next7Days: "in the next 7 days",
+  },
+  noEventsFoundIn: (town: string) => `No events found in ${town}`,
+  tryBroaderSearch: (timeframe: string) => `Try a broader search. Current window: ${timeframe}.`,
+  eventsIn: (count: number, town: string) => `${plural(count, "event", "events")} in ${town}`,
+  showingResultsFor: (timeframe: string) => `Showing results for ${timeframe}. Use arrow keys to browse.`,
+};
+
+export type Messages = typeof en;
+
+const es: Messages = {
+  myPlans: "Mis Planes",
+  inMyPlans: "En Mis Planes",
+  saveToMyPlans: "Guardar en Mis Planes",
+  removeFromMyPlans: "Quitar de Mis Planes",
+  savedToMyPlans: "Guardado en Mis Planes",
+  removedFromMyPlans: "Quitado de Mis Planes",
+  event: "Evento",
+  calendar: "Calendario",
+  filters: "Filtros",
+  when: "Cuándo",
+  categories: "Categorías",
+  hometown: "Tu ciudad",
+  yourTown: "tu ciudad",
+  viewEventDetails: "Ver detalles del evento",
+  openOnWebsite: "Abrir en la web",
+  copyEventLink: "Copiar enlace del evento",
+  calendarExportFailed: "No se pudo exportar al calendario",
+  couldNotReachTownSpot: "No se pudo conectar con TownSpot",
+  show: (label) => `Mostrar ${label}`,
+  use: (label) => `Usar ${label}`,
+
+  timeWindows: {
+    now: "Ahora mismo",
+    all_upcoming: "Todos los próximos",
+    today: "Hoy",
+    today_tomorrow: "Hoy + mañana",
+    next_3_days: "Próximos 3 días",
+    next_7_days: "Próximos 7 días",
+    this_week: "Esta semana",
+  },
+  customRange: "Rango personalizado",
+  customRangeItem: "Rango personalizado…",
+  customRangeLabel: (range) => `Personalizado: ${range}`,
+  pickStartAndEnd: "Elige las fechas de inicio y fin",
+  chooseDates: "Elegir fechas",
+  chooseTimeWindow: "Elegir periodo",
+  chooseCategory: "Elegir categoría",
+  allCategory: "Todas",
+
+  distance: "Distancia",
+  homePoint: "Punto de partida",
+  setHomePoint: "Fijar punto de partida",
+  changeHomePoint: "Cambiar punto de partida",
+  clearHomePoint: "Quitar punto de partida",
+  homePointHint: "Escribe una dirección para buscarla o pega coordenadas como latitud, longitud.",
+  coordinates: "Coordenadas",
+  enterAddressOrCoordinates: "Escribe una dirección o unas coordenadas.",
+  invalidCoordinates: "Las coordenadas deben tener este formato: 41.3874, 2.1686.",
+  lookingUpAddress: "Buscando la dirección...",
+  addressLookupFailed: "No se ha podido encontrar la dirección",
+  enterAddressToLookUp: "Escribe una dirección para buscarla.",
+  addressNotFound: (address) => `No se ha encontrado «${address}».`,
+  homePointSaved: "Punto de partida guardado",
+  homePointCleared: "Punto de partida eliminado",
+  setHomePointHint: "Fija un punto de partida para ver a qué distancia están los eventos",
+  anyDistance: "Cualquier distancia",
+  withinDistance: (distance) => `A menos de ${distance}`,
+  nextDistanceFilter: "Siguiente filtro de distancia",
+  sortByDistance: "Ordenar por distancia",
+  sortByTime: "Ordenar por hora",
+  nearestFirst: "los más cercanos primero",
+  locatingVenues: "Localizando los lugares...",
+  distanceFrom: (distance, place) => `A ${distance} de ${place}`,
+
+  anyPrice: "Cualquier precio",
+  underPrice: (amount) => `Menos de ${amount}`,
+  nextPriceFilter: "Siguiente filtro de precio",
+  checkingPrices: "Comprobando precios...",
+  priceFilterHint: "Los eventos sin precio se ocultan mientras el filtro está activo",
+
+  towns: "Ciudades",
+  chooseTowns: "Elegir ciudades",
+  townCount: (count) => plural(count, "ciudad", "ciudades"),
+  selectTown: "Seleccionar ciudad",
+  deselectTown: "Quitar ciudad",
+  compareTowns: (count) => `Comparar ${plural(count, "ciudad", "ciudades")}`,
+  pickAtLeastTwoTowns: "Elige al menos dos ciudades para comparar.",
+  onlyTown: (town) => `Solo ${town}`,
+  addTownsHint: "pulsa Intro para añadir ciudades vecinas",
+  backToSingleTown: (town) => `Volver solo a ${town}`,
+
+  upcomingDates: "Próximas fechas",
+  dateCount: (count) => plural(count, "fecha", "fechas"),
+  repeats: "Se repite",
+  viewAllDates: "Ver todas las fechas",
+  viewNextDate: "Ver la próxima fecha",
+
+  venue: "Lugar",
+  venues: "Lugares",
+  browseVenues: "Explorar lugares",
+  filterVenues: "Filtrar lugares",
+  filterVenueEvents: (venue) => `Filtrar eventos en ${venue}`,
+  upcomingEventCount: (count) => plural(count, "próximo evento", "próximos eventos"),
+  showVenueEvents: "Ver eventos del lugar",
+  followVenue: "Seguir lugar",
+  unfollowVenue: "Dejar de seguir lugar",
+  followingVenue: "Siguiendo el lugar",
+  unfollowedVenue: "Has dejado de seguir el lugar",
+  following: "Siguiendo",
+  followedVenues: "Lugares que sigues",
+  otherVenues: "Otros lugares",
+  copyVenueAddress: "Copiar dirección del lugar",
+  lookingUpAddresses: "Buscando direcciones...",
+  noVenues: "Aún no hay lugares",
+  noVenuesHint: "Los lugares aparecen cuando se cargan los eventos.",
+
+  quickSearches: "Búsquedas rápidas",
+  savedSearches: "Búsquedas guardadas",
+  quickQueryPresets: {
+    tonight: { title: "Esta noche cerca", subtitle: "Planes para ahora mismo en tu ciudad" },
+    weekend: { title: "Este fin de semana", subtitle: "Lo mejor para el sábado y el domingo" },
+    kids: { title: "Niños y familias", subtitle: "Ideas para toda la familia" },
+    free: { title: "Eventos gratis", subtitle: "Opciones sin coste" },
+    music: { title: "Música en directo", subtitle: "Conciertos y sesiones en directo" },
+  },
+  runSearch: "Ejecutar búsqueda",
+  saveCurrentSearch: "Guardar búsqueda actual…",
+  newSavedSearch: "Nueva búsqueda guardada",
+  editSavedSearch: "Editar búsqueda guardada",
+  deleteSavedSearch: "Eliminar búsqueda guardada",
+  manageSavedSearches: "Gestionar búsquedas guardadas",
+  saveSearch: "Guardar búsqueda",
+  moveUp: "Subir",
+  moveDown: "Bajar",
+  createQuicklink: "Crear quicklink",
+  copyDeeplink: "Copiar deeplink",
+  name: "Nombre",
+  searchQuery: "Búsqueda",
+  searchQueryPlaceholder: "música en directo, niños, gratis...",
+  category: "Categoría",
+  selectedTown: "Ciudad seleccionada",
+  enterSearchName: "Escribe un nombre.",
+  searchSaved: "Búsqueda guardada",
+  searchDeleted: "Búsqueda eliminada",
+  noSavedSearches: "Aún no hay búsquedas guardadas",
+  noSavedSearchesHint: "Pulsa ⌘N para guardar la búsqueda actual, o ⌘⇧S desde la lista de eventos.",
+  savedSearchHint: "Cada búsqueda guardada puede convertirse en un quicklink de Raycast desde la lista de búsquedas guardadas.",
+
+  chooseStartDate: "Elige una fecha de inicio.",
+  endBeforeStart: "La fecha de fin debe ser igual o posterior a la de inicio.",
+  showEventsInRange: "Mostrar eventos del rango",
+  customRangeHint: "Las fechas se comparan con la hora local de la ciudad. Deja el fin vacío para un solo día.",
+  from: "Desde",
+  to: "Hasta",
+
+  tellUsYourTown: "Dinos tu ciudad",
+  tellUsYourTownArrow: "Dinos tu ciudad →",
+  notFromAroundHere: "¿No eres de por aquí?",
+  notFromAroundHereHuh: "¿No eres de por aquí?",
+  waitlistIntro: "¿No eres de por aquí? Dinos tu ciudad.",
+  invalidEmail: "Introduce un correo electrónico válido.",
+  missingLocation: "Introduce tu ciudad y tu país.",
+  waitlistThanks: "¡Gracias! Te avisaremos si llegamos a tu zona.",
+  somethingWentWrong: "Algo ha fallado. Inténtalo de nuevo.",
+  submitting: "Enviando...",
+  submit: "Enviar",
+  yourEmail: "Tu correo electrónico",
+  yourTownCountry: "Tu ciudad, país",
+  anythingElse: "¿Algo más? (opcional)",
+
+  localsActive: (count) => `${count} vecinos activos`,
+  localsActiveThisWeek: (count) =>
+    count === undefined ? "vecinos activos esta semana" : `${count} vecinos activos esta semana`,
+  searchPlaceholder: (town) => `¿Qué hay en ${town}? Prueba niños, gratis, música, ahora...`,
+  loadingHometown: "Cargando tu ciudad...",
+  loadingYourHometown: "Cargando tu ciudad...",
+  setHometown: "Elegir tu ciudad",
+  setHometownPrompt: "Elige tu ciudad en el desplegable para empezar",
+  setHometownItem: "Elegir tu ciudad...",
+  setHometownTo: (town) => `Elegir como tu ciudad: ${town}`,
+  activeTown: "Ciudad activa",
+  suggestedHometown: "Ciudad sugerida",
+  detectingHometown: "Buscando la ciudad más cercana...",
+  detectedNearYou: "Detectada cerca de ti",
+  fallbackSuggestion: "Sugerencia por defecto",
+  detectedTownHint: "Según tu ubicación aproximada",
+  fallbackTownHint: "No hemos podido averiguar dónde estás",
+  resetHometown: "Cambiar tu ciudad",
+  noEventsToExport: "No hay eventos para exportar",
+  exportedEvents: (count) => `${plural(count, "evento exportado", "eventos exportados")}`,
+  openInCalendar: "Abrir en Calendario",
+  showInFinder: "Mostrar en el Finder",
+  pressEnterHint: (label) => `${label}. Pulsa Intro y usa ↑/↓.`,
+  updatedAgo: (age) => `Actualizado ${age}`,
+  savedListings: "Eventos guardados",
+  eventCount: (count) => `${count} eventos`,
+  categoryCount: (count) => `${count} categorías`,
+  daySectionComplete: (count) => `${plural(count, "evento", "eventos")} · completo`,
+  daySectionPartial: (count) => `${plural(count, "evento", "eventos")} por ahora · más al desplazarte`,
+  loadMoreFailed: "No se pudieron cargar más eventos",
+  allCategoriesHint: "Todas las categorías. Pulsa Intro y usa ↑/↓.",
+  selectedCategoryHint: (category) => `Seleccionada: ${category}. Pulsa Intro y usa ↑/↓.`,
+  nextTimeWindow: "Periodo siguiente",
+  previousTimeWindow: "Periodo anterior",
+  nextCategory: "Categoría siguiente",
+  previousCategory: "Categoría anterior",
+  showAllCategories: "Mostrar todas las categorías",
+  exportListedEvents: "Exportar eventos al calendario",
+  showEventsHappeningNow: "Mostrar eventos de ahora",
+  showTodayTomorrow: "Mostrar hoy + mañana",
+  showKidsEvents: "Mostrar eventos para niños",
+  showAllUpcoming: "Mostrar todos los próximos",
+  searchThisWeekend: "Buscar este fin de semana",
+  thisWeekendQuery: "qué hay este fin de semana",
+  loadingEvents: "Cargando eventos…",
+  loadingEventsHint: "Buscando los últimos eventos de tu ciudad.",
+  noEventsForSearch: "No hay eventos para esta búsqueda",
+  noEventsHint: "Prueba una búsqueda más amplia o cambia de periodo.",
+  connection: "Conexión",
+  offlineShowing: (age) => `Sin conexión · eventos de ${age}`,
+  unableToLoadEvents: "No se pudieron cargar los eventos de TownSpot",
+  unableToReachTownSpot: "No se pudo conectar con TownSpot",
+  unableToLoadTowns: "No se pudieron cargar las ciudades activas",
+  activeTownsUnavailable: "Ciudades activas no disponibles",
+
+  apiNetworkError: "No se puede conectar con TownSpot. Revisa tu conexión a internet.",
+  apiTimeout: (seconds) => `TownSpot no ha respondido en ${seconds} segundos.`,
+  apiServerError: (status) => `TownSpot tiene problemas (${status}). Vuelve a intentarlo en un momento.`,
+  apiRateLimited: "Demasiadas peticiones a TownSpot. Espera un momento y vuelve a intentarlo.",
+  apiNotFound: "TownSpot no ha encontrado lo que se ha pedido.",
+  apiRequestFailed: (status) => `TownSpot no ha podido atender la petición (${status}).`,
+  apiBadPayload: "TownSpot ha enviado una respuesta que la extensión no puede leer.",
+
+  apiEnvironments: {
+    prod: "Producción",
+    staging: "Pruebas",
+    local: "Local",
+  },
+  apiDiagnostics: "Diagnóstico de la API",
+  showApiDiagnostics: "Ver diagnóstico de la API",
+  payloadSources: {
+    query: "Listados de eventos",
+    "event-details": "Detalles del evento",
+    zones: "Lista de ciudades",
+  },
+  payloadIssueSubtitle: (expected, received) => `Se esperaba ${expected}, llegó ${received}`,
+  payloadIssueSkipped: "Omitido",
+  payloadIssueDefaulted: "Valor por defecto",
+  payloadRejected: "Respuesta rechazada por completo",
+  payloadSkippedCount: (skipped, total) => `${skipped} de ${total} omitidos`,
+  skippedMalformedEvents: (count) =>
+    `${plural(count, "evento omitido", "eventos omitidos")} por datos incorrectos`,
+  skippedMalformedEventsHint: "TownSpot ha enviado datos que esta versión no puede leer.",
+  noPayloadIssues: "No hay problemas de datos registrados",
+  noPayloadIssuesHint: "Las respuestas que no superen la validación aparecerán aquí con los campos fallidos.",
+  copyPayloadReport: "Copiar informe como JSON",
+  clearDiagnostics: "Borrar diagnóstico",
+  diagnosticsCleared: "Diagnóstico borrado",
+
+  where: "Dónde",
+  spottedBy: "Visto por",
+  address: "Dirección",
+  recurrence: "Repetición",
+  price: "Precio",
+  town: "Ciudad",
+  townSpotLink: "Enlace de TownSpot",
+  openListing: "Abrir evento",
+  recurringEvent: (frequency) => `Evento recurrente (${frequency})`,
+  free: "Gratis",
+  paid: "De pago",
+  aLocal: "un vecino",
+  admin: "Admin",
+  timeToBeConfirmed: "Por confirmar",
+  timeRange: (start, end) => `${start} a ${end}`,
+  justNow: "ahora mismo",
+  liveNowTag: "AHORA",
+  unableToLoadDetails: "No se pudieron cargar los detalles del evento",
+  couldNotLoadFullDetails: (error) => `No se pudieron cargar todos los detalles (${error}).`,
+  calendarFileCreated: "Archivo de calendario creado",
+  quickActions: "Acciones rápidas",
+  openOnTownSpot: "Abrir en TownSpot",
+  shareOnWhatsApp: "Compartir por WhatsApp",
+  openSourceUrl: "Abrir enlace original",
+  addToCalendar: "Añadir al calendario",
+  addToGoogleCalendar: "Añadir a Google Calendar",
+  maps: "Mapas",
+  openInAppleMaps: "Abrir en Apple Maps",
+  openInGoogleMaps: "Abrir en Google Maps",
+  copy: "Copiar",
+  copyShareMessage: "Copiar mensaje para compartir",
+  copyEventName: "Copiar nombre del evento",
+  copyEventTime: "Copiar hora del evento",
+  copyEventAddress: "Copiar dirección del evento",
+
+  filterSavedEvents: "Filtrar eventos guardados",
+  noSavedPlans: "Aún no tienes planes guardados",
+  noSavedPlansHint: "Marca eventos de TownSpot con ⌘S para tenerlos aquí.",
+
+  openListingTooltip: "Abrir evento (⌥ para ver detalles)",
+  detailsFor: (title) => `Detalles: ${title}`,
+  liveNowIn: (town) => `Ahora en ${town}`,
+  nowIn: (town) => `Ahora en ${town}`,
+  now: "Ahora",
+  nothingLiveNow: "No hay nada ahora mismo",
+  startingWithin3Hours: "Empiezan en las próximas 3 horas",
+  nothingStartingSoon: "No empieza nada pronto",
+  openTownSpot: "Abrir TownSpot",
+
+  setHometownFirst: "Elige primero tu ciudad en TownSpot",
+  noHometownSet: "No has elegido tu ciudad",
+  noHometownSetHint: "Abre TownSpot y elige tu ciudad.",
+  hometownInactive: "Tu ciudad ya no está activa",
+  noNewEvents: "No hay eventos nuevos",
+  noNewEventsShort: "sin eventos nuevos",
+  checkedAt: (time) => `revisado a las ${time}`,
+  newEventCount: (count) => plural(count, "evento nuevo", "eventos nuevos"),
+  newEventsIn: (countLabel, town) => `${countLabel} en ${town}`,
+  watchingEvents: (count) => `Siguiendo ${count} eventos`,
+  couldNotCheckNewEvents: "No se pudieron buscar eventos nuevos",
+
+  askTownSpotAi: "Preguntar a TownSpot AI",
+  askAFollowUp: "Hacer otra pregunta sobre esto",
+  askFollowUp: "Preguntar más",
+  askAnotherQuestion: "Hacer otra pregunta",
+  startNewConversation: "Empezar una conversación nueva",
+  couldNotRunAi: "No se pudo ejecutar TownSpot AI.",
+  aiFailed: "TownSpot AI ha fallado",
+  followUpIn: (town) => `Seguimiento en ${town}`,
+  matchedTownFromQuery: (town) => `Ciudad detectada en la pregunta: ${town}`,
+  usingHometown: (town) => `Usando tu ciudad: ${town}`,
+  enterQuestion: "Escribe una pregunta",
+  enterQuestionHint: "Prueba: eventos para niños este fin de semana",
+  followingUpOn: (prompt) => `Sobre "${prompt}". Prueba: ¿y el domingo?`,
+  askIntro: "Pregunta con naturalidad. TownSpot AI responderá con los eventos de TownSpot.",
+  question: "Pregunta",
+  questionPlaceholder: "eventos para niños este fin de semana",
+  queryLabel: "Pregunta",
+  noAnswer: "Sin respuesta.",
+  generatingAnswer: "Generando respuesta verificada…",
+  openFirstListing: "Abrir el primer evento",
+  copyAiAnswer: "Copiar respuesta de la IA",
+  copyVerifiedListings: "Copiar eventos verificados",
+  copiedVerifiedListings: "Eventos verificados copiados",
+
+  unverified: "sin verificar",
+  unverifiedLink: "enlace sin verificar",
+  unknownSource: "fuente desconocida",
+  noVerifiedCitations: "No se ha citado ningún evento verificado.",
+  citesVerifiedEvents: (count) => `Cita ${plural(count, "evento verificado", "eventos verificados")}.`,
+  unverifiedItems: (count) =>
+    count === 1 ? "1 elemento no se ha podido verificar:" : `${count} elementos no se han podido verificar:`,
+  citationIssues: {
+    unknown_citation: "Cita a un evento que no estaba en la lista verificada",
+    unverified_link: "Enlace que no coincide con ningún evento verificado",
+    unverified_title: "Nombre de evento que no coincide con ningún evento verificado",
+  },
+
+  timeframes: {
+    tonight: "esta noche",
+    tomorrow: "mañana",
+    thisWeekend: "este fin de semana",
+    nextWeek: "la semana que viene",
+    thisWeek: "esta semana",
+    next7Days: "los próximos 7 días",
+  },
+  noEventsFoundIn: (town) => `No hay eventos en ${town}`,
+  tryBroaderSearch: (timeframe) => `Prueba una búsqueda más amplia. Periodo actual: ${timeframe}.`,
+  eventsIn: (count, town) => `${plural(count, "evento", "eventos")} en ${town}`,
+  showingResultsFor: (timeframe) => `Resultados para ${timeframe}. Usa las flechas para navegar.`,
+};
+
+const ca: Messages = {
+  myPlans: "Els Meus Plans",
+  inMyPlans: "Als Meus Plans",
+  saveToMyPlans: "Desa als Meus Plans",
+  removeFromMyPlans: "Treu dels Meus Plans",
+  savedToMyPlans: "Desat als Meus Plans",
+  removedFromMyPlans: "Tret dels Meus Plans",
+  event: "Esdeveniment",
+  calendar: "Calendari",
+  filters: "Filtres",
+  when: "Quan",
+  categories: "Categories",
+  hometown: "El teu poble",
+  yourTown: "el teu poble",
+  viewEventDetails: "Mostra els detalls de l'esdeveniment",
+  openOnWebsite: "Obre al web",
+  copyEventLink: "Copia l'enllaç de l'esdeveniment",
+  calendarExportFailed: "No s'ha pogut exportar al calendari",
+  couldNotReachTownSpot: "No s'ha pogut connectar amb TownSpot",
+  show: (label) => `Mostra ${label}`,
+  use: (label) => `Fes servir ${label}`,
+
+  timeWindows: {
+    now: "Ara mateix",
+    all_upcoming: "Tots els propers",
+    today: "Avui",
+    today_tomorrow: "Avui + demà",
+    next_3_days: "Propers 3 dies",
+    next_7_days: "Propers 7 dies",
+    this_week: "Aquesta setmana",
+  },
+  customRange: "Interval personalitzat",
+  customRangeItem: "Interval personalitzat…",
+  customRangeLabel: (range) => `Personalitzat: ${range}`,
+  pickStartAndEnd: "Tria les dates d'inici i de final",
+  chooseDates: "Tria les dates",
+  chooseTimeWindow: "Tria el període",
+  chooseCategory: "Tria la categoria",
+  allCategory: "Totes",
+
+  distance: "Distància",
+  homePoint: "Punt de partida",
+  setHomePoint: "Defineix el punt de partida",
+  changeHomePoint: "Canvia el punt de partida",
+  clearHomePoint: "Esborra el punt de partida",
+  homePointHint: "Escriu una adreça per cercar-la o enganxa coordenades com a latitud, longitud.",
+  coordinates: "Coordenades",
+  enterAddressOrCoordinates: "Escriu una adreça o unes coordenades.",
+  invalidCoordinates: "Les coordenades han de tenir aquest format: 41.3874, 2.1686.",
+  lookingUpAddress: "Cercant l'adreça...",
+  addressLookupFailed: "No s'ha pogut trobar l'adreça",
+  enterAddressToLookUp: "Escriu una adreça per cercar-la.",
+  addressNotFound: (address) => `No s'ha trobat «${address}».`,
+  homePointSaved: "Punt de partida desat",
+  homePointCleared: "Punt de partida esborrat",
+  setHomePointHint: "Defineix un punt de partida per veure a quina distància són els esdeveniments",
+  anyDistance: "Qualsevol distància",
+  withinDistance: (distance) => `A menys de ${distance}`,
+  nextDistanceFilter: "Següent filtre de distància",
+  sortByDistance: "Ordena per distància",
+  sortByTime: "Ordena per hora",
+  nearestFirst: "els més propers primer",
+  locatingVenues: "Localitzant els llocs...",
+  distanceFrom: (distance, place) => `A ${distance} de ${place}`,
+
+  anyPrice: "Qualsevol preu",
+  underPrice: (amount) => `Menys de ${amount}`,
+  nextPriceFilter: "Següent filtre de preu",
+  checkingPrices: "Comprovant els preus...",
+  priceFilterHint: "Els esdeveniments sense preu s'amaguen mentre el filtre és actiu",
+
+  towns: "Pobles",
+  chooseTowns: "Tria els pobles",
+  townCount: (count) => plural(count, "poble", "pobles"),
+  selectTown: "Selecciona el poble",
+  deselectTown: "Treu el poble",
+  compareTowns: (count) => `Compara ${plural(count, "poble", "pobles")}`,
+  pickAtLeastTwoTowns: "Tria com a mínim dos pobles per comparar.",
+  onlyTown: (town) => `Només ${town}`,
+  addTownsHint: "prem Retorn per afegir pobles veïns",
+  backToSingleTown: (town) => `Torna només a ${town}`,
+
+  upcomingDates: "Properes dates",
+  dateCount: (count) => plural(count, "data", "dates"),
+  repeats: "Es repeteix",
+  viewAllDates: "Mostra totes les dates",
+  viewNextDate: "Mostra la propera data",
+
+  venue: "Lloc",
+  venues: "Llocs",
+  browseVenues: "Explora els llocs",
+  filterVenues: "Filtra els llocs",
+  filterVenueEvents: (venue) => `Filtra els esdeveniments a ${venue}`,
+  upcomingEventCount: (count) => plural(count, "esdeveniment proper", "esdeveniments propers"),
+  showVenueEvents: "Mostra els esdeveniments del lloc",
+  followVenue: "Segueix el lloc",
+  unfollowVenue: "Deixa de seguir el lloc",
+  followingVenue: "Seguint el lloc",
+  unfollowedVenue: "Has deixat de seguir el lloc",
+  following: "Seguint",
+  followedVenues: "Llocs que segueixes",
+  otherVenues: "Altres llocs",
+  copyVenueAddress: "Copia l'adreça del lloc",
+  lookingUpAddresses: "Cercant adreces...",
+  noVenues: "Encara no hi ha llocs",
+  noVenuesHint: "Els llocs apareixen quan es carreguen els esdeveniments.",
+
+  quickSearches: "Cerques ràpides",
+  savedSearches: "Cerques desades",
+  quickQueryPresets: {
+    tonight: { title: "Aquesta nit a prop", subtitle: "Plans per ara mateix al teu poble" },
+    weekend: { title: "Aquest cap de setmana", subtitle: "El millor per dissabte i diumenge" },
+    kids: { title: "Infants i famílies", subtitle: "Idees per a tota la família" },
+    free: { title: "Esdeveniments gratuïts", subtitle: "Opcions sense cost" },
+    music: { title: "Música en directe", subtitle: "Concerts i sessions en directe" },
+  },
+  runSearch: "Executa la cerca",
+  saveCurrentSearch: "Desa la cerca actual…",
+  newSavedSearch: "Nova cerca desada",
+  editSavedSearch: "Edita la cerca desada",
+  deleteSavedSearch: "Elimina la cerca desada",
+  manageSavedSearches: "Gestiona les cerques desades",
+  saveSearch: "Desa la cerca",
+  moveUp: "Mou amunt",
+  moveDown: "Mou avall",
+  createQuicklink: "Crea un quicklink",
+  copyDeeplink: "Copia el deeplink",
+  name: "Nom",
+  searchQuery: "Cerca",
+  searchQueryPlaceholder: "música en directe, infants, gratis...",
+  category: "Categoria",
+  selectedTown: "Poble seleccionat",
+  enterSearchName: "Escriu un nom.",
+  searchSaved: "Cerca desada",
+  searchDeleted: "Cerca eliminada",
+  noSavedSearches: "Encara no hi ha cerques desades",
+  noSavedSearchesHint: "Prem ⌘N per desar la cerca actual, o ⌘⇧S des de la llista d'esdeveniments.",
+  savedSearchHint: "Cada cerca desada es pot convertir en un quicklink de Raycast des de la llista de cerques desades.",
+
+  chooseStartDate: "Tria una data d'inici.",
+  endBeforeStart: "La data de final ha de ser igual o posterior a la d'inici.",
+  showEventsInRange: "Mostra els esdeveniments de l'interval",
+  customRangeHint: "Les dates es comparen amb l'hora local del poble. Deixa el final buit per a un sol dia.",
+  from: "Des de",
+  to: "Fins a",
+
+  tellUsYourTown: "Digues-nos el teu poble",
+  tellUsYourTownArrow: "Digues-nos el teu poble →",
+  notFromAroundHere: "No ets d'aquí?",
+  notFromAroundHereHuh: "No ets d'aquí, oi?",
+  waitlistIntro: "No ets d'aquí, oi? Digues-nos el teu poble.",
+  invalidEmail: "Introdueix una adreça electrònica vàlida.",
+  missingLocation: "Introdueix el teu poble i el teu país.",
+  waitlistThanks: "Gràcies! T'avisarem si arribem a la teva zona.",
+  somethingWentWrong: "Alguna cosa ha fallat. Torna-ho a provar.",
+  submitting: "S'està enviant...",
+  submit: "Envia",
+  yourEmail: "La teva adreça electrònica",
+  yourTownCountry: "El teu poble, país",
+  anythingElse: "Alguna cosa més? (opcional)",
+
+  localsActive: (count) => `${count} veïns actius`,
+  localsActiveThisWeek: (count) =>
+    count === undefined ? "veïns actius aquesta setmana" : `${count} veïns actius aquesta setmana`,
+  searchPlaceholder: (town) => `Què hi ha a ${town}? Prova nens, gratis, música, ara...`,
+  loadingHometown: "S'està carregant el teu poble...",
+  loadingYourHometown: "S'està carregant el teu poble...",
+  setHometown: "Tria el teu poble",
+  setHometownPrompt: "Tria el teu poble al desplegable per començar",
+  setHometownItem: "Tria el teu poble...",
+  setHometownTo: (town) => `Tria com a poble: ${town}`,
+  activeTown: "Poble actiu",
+  suggestedHometown: "Poble suggerit",
+  detectingHometown: "Buscant el poble més proper...",
+  detectedNearYou: "Detectat a prop teu",
+  fallbackSuggestion: "Suggeriment per defecte",
+  detectedTownHint: "Segons la teva ubicació aproximada",
+  fallbackTownHint: "No hem pogut esbrinar on ets",
+  resetHometown: "Canvia el teu poble",
+  noEventsToExport: "No hi ha esdeveniments per exportar",
+  exportedEvents: (count) => `${plural(count, "esdeveniment exportat", "esdeveniments exportats")}`,
+  openInCalendar: "Obre al Calendari",
+  showInFinder: "Mostra al Finder",
+  pressEnterHint: (label) => `${label}. Prem Retorn i fes servir ↑/↓.`,
+  updatedAgo: (age) => `Actualitzat ${age}`,
+  savedListings: "Esdeveniments desats",
+  eventCount: (count) => `${count} esdeveniments`,
+  categoryCount: (count) => `${count} categories`,
+  daySectionComplete: (count) => `${plural(count, "esdeveniment", "esdeveniments")} · complet`,
+  daySectionPartial: (count) => `${plural(count, "esdeveniment", "esdeveniments")} de moment · més en desplaçar-te`,
+  loadMoreFailed: "No s'han pogut carregar més esdeveniments",
+  allCategoriesHint: "Totes les categories. Prem Retorn i fes servir ↑/↓.",
+  selectedCategoryHint: (category) => `Seleccionada: ${category}. Prem Retorn i fes servir ↑/↓.`,
+  nextTimeWindow: "Període següent",
+  previousTimeWindow: "Període anterior",
+  nextCategory: "Categoria següent",
+  previousCategory: "Categoria anterior",
+  showAllCategories: "Mostra totes les categories",
+  exportListedEvents: "Exporta els esdeveniments al calendari",
+  showEventsHappeningNow: "Mostra el que passa ara",
+  showTodayTomorrow: "Mostra avui + demà",
+  showKidsEvents: "Mostra esdeveniments per a nens",
+  showAllUpcoming: "Mostra tots els propers",
+  searchThisWeekend: "Cerca aquest cap de setmana",
+  thisWeekendQuery: "què hi ha aquest cap de setmana",
+  loadingEvents: "S'estan carregant els esdeveniments…",
+  loadingEventsHint: "Buscant els darrers esdeveniments del teu poble.",
+  noEventsForSearch: "No hi ha esdeveniments per a aquesta cerca",
+  noEventsHint: "Prova una cerca més àmplia o canvia de període.",
+  connection: "Connexió",
+  offlineShowing: (age) => `Sense connexió · esdeveniments de ${age}`,
+  unableToLoadEvents: "No s'han pogut carregar els esdeveniments de TownSpot",
+  unableToReachTownSpot: "No s'ha pogut connectar amb TownSpot",
+  unableToLoadTowns: "No s'han pogut carregar els pobles actius",
+  activeTownsUnavailable: "Pobles actius no disponibles",
+
+  apiNetworkError: "No es pot connectar amb TownSpot. Revisa la connexió a internet.",
+  apiTimeout: (seconds) => `TownSpot no ha respost en ${seconds} segons.`,
+  apiServerError: (status) => `TownSpot té problemes (${status}). Torna-ho a provar d'aquí a una estona.`,
+  apiRateLimited: "Massa peticions a TownSpot. Espera un moment i torna-ho a provar.",
+  apiNotFound: "TownSpot no ha trobat el que s'ha demanat.",
+  apiRequestFailed: (status) => `TownSpot no ha pogut atendre la petició (${status}).`,
+  apiBadPayload: "TownSpot ha enviat una resposta que l'extensió no pot llegir.",
+
+  apiEnvironments: {
+    prod: "Producció",
+    staging: "Proves",
+    local: "Local",
+  },
+  apiDiagnostics: "Diagnòstic de l'API",
+  showApiDiagnostics: "Mostra el diagnòstic de l'API",
+  payloadSources: {
+    query: "Llistats d'esdeveniments",
+    "event-details": "Detalls de l'esdeveniment",
+    zones: "Llista de pobles",
+  },
+  payloadIssueSubtitle: (expected, received) => `S'esperava ${expected}, ha arribat ${received}`,
+  payloadIssueSkipped: "Omès",
+  payloadIssueDefaulted: "Valor per defecte",
+  payloadRejected: "Resposta rebutjada del tot",
+  payloadSkippedCount: (skipped, total) => `${skipped} de ${total} omesos`,
+  skippedMalformedEvents: (count) =>
+    `${plural(count, "esdeveniment omès", "esdeveniments omesos")} per dades incorrectes`,
+  skippedMalformedEventsHint: "TownSpot ha enviat dades que aquesta versió no pot llegir.",
+  noPayloadIssues: "No hi ha problemes de dades registrats",
+  noPayloadIssuesHint: "Les respostes que no superin la validació apareixeran aquí amb els camps fallits.",
+  copyPayloadReport: "Copia l'informe com a JSON",
+  clearDiagnostics: "Esborra el diagnòstic",
+  diagnosticsCleared: "Diagnòstic esborrat",
+
+  where: "On",
+  spottedBy: "Vist per",
+  address: "Adreça",
+  recurrence: "Repetició",
+  price: "Preu",
+  town: "Poble",
+  townSpotLink: "Enllaç de TownSpot",
+  openListing: "Obre l'esdeveniment",
+  recurringEvent: (frequency) => `Esdeveniment recurrent (${frequency})`,
+  free: "Gratuït",
+  paid: "De pagament",
+  aLocal: "un veí",
+  admin: "Admin",
+  timeToBeConfirmed: "Per confirmar",
+  timeRange: (start, end) => `${start} a ${end}`,
+  justNow: "ara mateix",
+  liveNowTag: "ARA",
+  unableToLoadDetails: "No s'han pogut carregar els detalls de l'esdeveniment",
+  couldNotLoadFullDetails: (error) => `No s'han pogut carregar tots els detalls (${error}).`,
+  calendarFileCreated: "S'ha creat el fitxer de calendari",
+  quickActions: "Accions ràpides",
+  openOnTownSpot: "Obre a TownSpot",
+  shareOnWhatsApp: "Comparteix per WhatsApp",
+  openSourceUrl: "Obre l'enllaç original",
+  addToCalendar: "Afegeix al calendari",
+  addToGoogleCalendar: "Afegeix a Google Calendar",
+  maps: "Mapes",
+  openInAppleMaps: "Obre a Apple Maps",
+  openInGoogleMaps: "Obre a Google Maps",
+  copy: "Copia",
+  copyShareMessage: "Copia el missatge per compartir",
+  copyEventName: "Copia el nom de l'esdeveniment",
+  copyEventTime: "Copia l'hora de l'esdeveniment",
+  copyEventAddress: "Copia l'adreça de l'esdeveniment",
+
+  filterSavedEvents: "Filtra els esdeveniments desats",
+  noSavedPlans: "Encara no tens plans desats",
+  noSavedPlansHint: "Marca esdeveniments de TownSpot amb ⌘S per tenir-los aquí.",
+
+  openListingTooltip: "Obre l'esdeveniment (⌥ per als detalls)",
+  detailsFor: (title) => `Detalls: ${title}`,
+  liveNowIn: (town) => `Ara a ${town}`,
+  nowIn: (town) => `Ara a ${town}`,
+  now: "Ara",
+  nothingLiveNow: "No hi ha res ara mateix",
+  startingWithin3Hours: "Comencen en les properes 3 hores",
+  nothingStartingSoon: "No comença res aviat",
+  openTownSpot: "Obre TownSpot",
+
+  setHometownFirst: "Tria primer el teu poble a TownSpot",
+  noHometownSet: "No has triat el teu poble",
+  noHometownSetHint: "Obre TownSpot i tria el teu poble.",
+  hometownInactive: "El teu poble ja no està actiu",
+  noNewEvents: "No hi ha esdeveniments nous",
+  noNewEventsShort: "cap esdeveniment nou",
+  checkedAt: (time) => `revisat a les ${time}`,
+  newEventCount: (count) => plural(count, "esdeveniment nou", "esdeveniments nous"),
+  newEventsIn: (countLabel, town) => `${countLabel} a ${town}`,
+  watchingEvents: (count) => `Seguint ${count} esdeveniments`,
+  couldNotCheckNewEvents: "No s'han pogut buscar esdeveniments nous",
+
+  askTownSpotAi: "Pregunta a TownSpot AI",
+  askAFollowUp: "Fes una altra pregunta sobre això",
+  askFollowUp: "Pregunta més",
+  askAnotherQuestion: "Fes una altra pregunta",
+  startNewConversation: "Comença una conversa nova",
+  couldNotRunAi: "No s'ha pogut executar TownSpot AI.",
+  aiFailed: "TownSpot AI ha fallat",
+  followUpIn: (town) => `Seguiment a ${town}`,
+  matchedTownFromQuery: (town) => `Poble detectat a la pregunta: ${town}`,
+  usingHometown: (town) => `Fent servir el teu poble: ${town}`,
+  enterQuestion: "Escriu una pregunta",
+  enterQuestionHint: "Prova: activitats per a nens aquest cap de setmana",
+  followingUpOn: (prompt) => `Sobre "${prompt}". Prova: i diumenge?`,
+  askIntro: "Pregunta amb naturalitat. TownSpot AI respondrà amb els esdeveniments de TownSpot.",
+  question: "Pregunta",
+  questionPlaceholder: "activitats per a nens aquest cap de setmana",
+  queryLabel: "Pregunta",
+  noAnswer: "Sense resposta.",
+  generatingAnswer: "S'està generant una resposta verificada…",
+  openFirstListing: "Obre el primer esdeveniment",
+  copyAiAnswer: "Copia la resposta de la IA",
+  copyVerifiedListings: "Copia els esdeveniments verificats",
+  copiedVerifiedListings: "S'han copiat els esdeveniments verificats",
+
+  unverified: "sense verificar",
+  unverifiedLink: "enllaç sense verificar",
+  unknownSource: "font desconeguda",
+  noVerifiedCitations: "No s'ha citat cap esdeveniment verificat.",
+  citesVerifiedEvents: (count) =>
+    `Cita ${plural(count, "esdeveniment verificat", "esdeveniments verificats")}.`,
+  unverifiedItems: (count) =>
+    count === 1 ? "1 element no s'ha pogut verificar:" : `${count} elements no s'han pogut verificar:`,
+  citationIssues: {
+    unknown_citation: "Cita a un esdeveniment que no era a la llista verificada",
+    unverified_link: "Enllaç que no coincideix amb cap esdeveniment verificat",
+    unverified_title: "Nom d'esdeveniment que no coincideix amb cap esdeveniment verificat",
+  },
+
+  timeframes: {
+    tonight: "aquesta nit",
+    tomorrow: "demà",
+    thisWeekend: "aquest cap de setmana",
+    nextWeek: "la setmana que ve",
+    thisWeek: "aquesta setmana",
+    next7Days: "els propers 7 dies",
+  },
+  noEventsFoundIn: (town) => `No hi ha esdeveniments a ${town}`,
+  tryBroaderSearch: (timeframe) => `Prova una cerca més àmplia. Període actual: ${timeframe}.`,
+  eventsIn: (count, town) => `${plural(count, "esdeveniment", "esdeveniments")} a ${town}`,
+  showingResultsFor: (timeframe) => `Resultats per a ${timeframe}. Fes servir les fletxes per navegar.`,
+};
+
+const CATALOG: Record<Language, Messages> = { en, es, ca };
+
+export const messagesForLocale = (locale: string): Messages => CATALOG[languageForLocale(locale)];
+
+// Views read the extension-wide locale preference so pushed screens match their command.
+export const getMessages = (): Messages => messagesForLocale(preferredLocale());
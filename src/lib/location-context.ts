@@ -1,4 +1,6 @@
-import { normalizeApiBaseUrl, sanitizeTownSlug } from "./townspot";
+import { apiUrls, requestJson, TownSpotPayloadError } from "./api-client";
+import { fieldReader, isRecord } from "./payload-validation";
+import { sanitizeTownSlug } from "./townspot";
 
 const FALLBACK_TOWN_SLUG = "kentish-town";
 
@@ -20,30 +22,15 @@ type IpLocation = {
   countryCode?: string;
 };
 
-type ZoneMatchResponse = {
-  zone?: {
-    slug?: string;
-    name?: string;
-  } | null;
-};
-
-type IpApiResponse = {
-  latitude?: number | string;
-  longitude?: number | string;
-  lat?: number | string;
-  lon?: number | string;
-  country_code?: string;
+type ZoneMatch = {
+  slug: string;
+  name: string;
 };
 
-type ZoneListRecord = {
-  slug?: string;
-  name?: string;
-  lat?: number | string | null;
-  lng?: number | string | null;
-  country_code?: string;
-  countryCode?: string;
-  active?: boolean;
-  hidden?: boolean;
+type NearbyZone = ZoneMatch & {
+  lat: number;
+  lng: number;
+  countryCode: string | null;
 };
 
 const toTownName = (slug: string): string =>
@@ -53,41 +40,59 @@ const toTownName = (slug: string): string =>
     .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
     .join(" ");
 
-const withTimeout = async (url: string, timeoutMs: number): Promise<Response> => {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+// Detection is a nice-to-have, so it gets short timeouts and no retries.
+const DETECTION_REQUEST = { retries: 0 };
 
-  try {
-    return await fetch(url, { signal: controller.signal });
-  } finally {
-    clearTimeout(timeout);
-  }
-};
+const toTownSlug = (value: string | null): string => sanitizeTownSlug(value || "");
 
-const toNumber = (value: unknown): number | null => {
-  const parsed = typeof value === "number" ? value : Number(value);
-  if (!Number.isFinite(parsed)) return null;
-  return parsed;
+// Detection falls back quietly, so these parsers skip bad values rather than reporting them.
+const parseIpLocation = (payload: unknown, url: string): IpLocation | null => {
+  if (!isRecord(payload)) throw new TownSpotPayloadError(url, "expected an object");
+  const field = fieldReader(payload, "", []);
+  const lat = field.optionalNumber("latitude") ?? field.optionalNumber("lat");
+  const lng = field.optionalNumber("longitude") ?? field.optionalNumber("lon");
+  if (lat === null || lng === null) return null;
+
+  const isoCountryCode = (field.optionalString("country_code") || "").trim().toLowerCase();
+  // ipapi uses ISO codes; TownSpot zones list the UK as "uk".
+  const countryCode = isoCountryCode === "gb" ? "uk" : isoCountryCode;
+  return { lat, lng, countryCode: countryCode || undefined };
 };
 
-const fetchIpLocation = async (): Promise<IpLocation | null> => {
-  try {
-    const response = await withTimeout("https://ipapi.co/json/", 2200);
-    if (!response.ok) return null;
+const parseZoneMatch = (payload: unknown, url: string): ZoneMatch | null => {
+  if (!isRecord(payload)) throw new TownSpotPayloadError(url, "expected an object");
+  if (!isRecord(payload.zone)) return null;
+  const field = fieldReader(payload.zone, "zone", []);
+  const slug = toTownSlug(field.optionalString("slug"));
+  if (!slug) return null;
+  return { slug, name: (field.optionalString("name") || "").trim() || toTownName(slug) };
+};
 
-    const payload = (await response.json()) as IpApiResponse;
-    const lat = toNumber(payload.latitude ?? payload.lat);
-    const lng = toNumber(payload.longitude ?? payload.lon);
-    const countryCode = String(payload.country_code || "")
+// Keeps the visible zones with a name, slug and location; anything else can't be a nearest match.
+const parseNearbyZones = (payload: unknown, url: string): NearbyZone[] => {
+  if (!Array.isArray(payload)) throw new TownSpotPayloadError(url, "expected an array of zones");
+  return payload.flatMap((zone): NearbyZone[] => {
+    if (!isRecord(zone) || zone.hidden === true || zone.active === false) return [];
+    const field = fieldReader(zone, "", []);
+    const slug = toTownSlug(field.optionalString("slug"));
+    const name = (field.optionalString("name") || "").trim();
+    const lat = field.optionalNumber("lat");
+    const lng = field.optionalNumber("lng");
+    if (!slug || !name || lat === null || lng === null) return [];
+    const countryCode = (field.optionalString("country_code") || field.optionalString("countryCode") || "")
       .trim()
       .toLowerCase();
+    return [{ slug, name, lat, lng, countryCode: countryCode || null }];
+  });
+};
 
-    if (lat === null || lng === null) return null;
-    return {
-      lat,
-      lng,
-      countryCode: countryCode || undefined,
-    };
+const fetchIpLocation = async (): Promise<IpLocation | null> => {
+  try {
+    return await requestJson(
+      "https://ipapi.co/json/",
+      { ...DETECTION_REQUEST, timeoutMs: 2200 },
+      parseIpLocation,
+    );
   } catch {
     return null;
   }
@@ -97,19 +102,14 @@ const fetchZoneFromCoordinates = async (
   apiBaseUrl: string,
   lat: number,
   lng: number,
-): Promise<{ slug: string; name: string } | null> => {
+): Promise<ZoneMatch | null> => {
   try {
-    const normalizedBaseUrl = normalizeApiBaseUrl(apiBaseUrl).replace(/\/$/, "");
-    const endpoint = `${normalizedBaseUrl}/places/match-zone?lat=${encodeURIComponent(String(lat))}&lng=${encodeURIComponent(String(lng))}`;
-    const response = await withTimeout(endpoint, 1600);
-    if (!response.ok) return null;
-
-    const payload = (await response.json()) as ZoneMatchResponse;
-    const slug = sanitizeTownSlug(payload?.zone?.slug || "");
-    if (!slug) return null;
-
-    const name = String(payload?.zone?.name || "").trim() || toTownName(slug);
-    return { slug, name };
+    const params = new URLSearchParams({ lat: String(lat), lng: String(lng) });
+    return await requestJson(
+      apiUrls(apiBaseUrl, `/places/match-zone?${params.toString()}`),
+      { ...DETECTION_REQUEST, timeoutMs: 1600 },
+      parseZoneMatch,
+    );
   } catch {
     return null;
   }
@@ -117,7 +117,7 @@ const fetchZoneFromCoordinates = async (
 
 const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
 
-const haversineKm = (
+export const haversineKm = (
   lat1: number,
   lng1: number,
   lat2: number,
@@ -135,15 +135,10 @@ const haversineKm = (
   return earthRadiusKm * c;
 };
 
-const fetchJsonWithFallback = async (
-  urls: string[],
-): Promise<ZoneListRecord[] | null> => {
+const fetchZonesWithFallback = async (urls: string[]): Promise<NearbyZone[] | null> => {
   for (const url of urls) {
     try {
-      const response = await withTimeout(url, 2200);
-      if (!response.ok) continue;
-      const payload = (await response.json()) as ZoneListRecord[];
-      if (Array.isArray(payload)) return payload;
+      return await requestJson(url, { ...DETECTION_REQUEST, timeoutMs: 2200 }, parseNearbyZones);
     } catch {
       // try next endpoint
     }
@@ -151,60 +146,33 @@ const fetchJsonWithFallback = async (
   return null;
 };
 
-const findNearestZone = (
-  zones: ZoneListRecord[],
-  ipLocation: IpLocation,
-): { slug: string; name: string } | null => {
+const findNearestZone = (zones: NearbyZone[], ipLocation: IpLocation): ZoneMatch | null => {
   const preferredCountry = ipLocation.countryCode;
+  const candidates = zones.filter(
+    (zone) => !preferredCountry || !zone.countryCode || zone.countryCode === preferredCountry,
+  );
 
-  const candidates = zones.filter((zone) => {
-    if (zone.hidden === true || zone.active === false) return false;
-    const zoneSlug = sanitizeTownSlug(zone.slug || "");
-    const zoneName = String(zone.name || "").trim();
-    const zoneLat = toNumber(zone.lat);
-    const zoneLng = toNumber(zone.lng);
-    if (!zoneSlug || !zoneName || zoneLat === null || zoneLng === null) return false;
-
-    if (!preferredCountry) return true;
-    const zoneCountry = String(zone.country_code || zone.countryCode || "")
-      .trim()
-      .toLowerCase();
-    return !zoneCountry || zoneCountry === preferredCountry;
-  });
-
-  let best: { slug: string; name: string; distanceKm: number } | null = null;
-
+  let best: (ZoneMatch & { distanceKm: number }) | null = null;
   for (const zone of candidates) {
-    const zoneLat = toNumber(zone.lat);
-    const zoneLng = toNumber(zone.lng);
-    if (zoneLat === null || zoneLng === null) continue;
-    const distanceKm = haversineKm(ipLocation.lat, ipLocation.lng, zoneLat, zoneLng);
+    const distanceKm = haversineKm(ipLocation.lat, ipLocation.lng, zone.lat, zone.lng);
     if (!best || distanceKm < best.distanceKm) {
-      best = {
-        slug: sanitizeTownSlug(zone.slug || ""),
-        name: String(zone.name || "").trim(),
-        distanceKm,
-      };
+      best = { slug: zone.slug, name: zone.name, distanceKm };
     }
   }
 
-  if (!best || !best.slug || !best.name) return null;
-  return { slug: best.slug, name: best.name };
+  return best && { slug: best.slug, name: best.name };
 };
 
 const fetchNearestZoneByDistance = async (
   apiBaseUrl: string,
   ipLocation: IpLocation,
-): Promise<{ slug: string; name: string } | null> => {
-  const normalizedBaseUrl = normalizeApiBaseUrl(apiBaseUrl).replace(/\/$/, "");
-  const payload = await fetchJsonWithFallback([
-    `${normalizedBaseUrl}/locations/list?includeHidden=true`,
-    `${normalizedBaseUrl}/locations/list`,
-    `${normalizedBaseUrl}/list`,
-  ]);
+): Promise<ZoneMatch | null> => {
+  const zones = await fetchZonesWithFallback(
+    apiUrls(apiBaseUrl, "/locations/list?includeHidden=true", "/locations/list", "/list"),
+  );
 
-  if (!payload) return null;
-  return findNearestZone(payload, ipLocation);
+  if (!zones) return null;
+  return findNearestZone(zones, ipLocation);
 };
 
 export const resolveTownContext = async (
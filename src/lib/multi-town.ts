@@ -0,0 +1,71 @@
+import { LocalStorage } from "@raycast/api";
+import { foldText } from "./i18n";
+import { RaycastEvent, RaycastResponse, RaycastTown } from "../types";
+
+export const MULTI_TOWN_STORAGE_KEY = "townspot-multi-town-zone-ids";
+
+export type MergedTownListing = {
+  events: RaycastEvent[];
+  // Every town an event was listed in, in the order the towns were queried.
+  townsByEventId: Record<string, RaycastTown[]>;
+};
+
+export const loadMultiTownZoneIds = async (): Promise<number[]> => {
+  const stored = await LocalStorage.getItem<string>(MULTI_TOWN_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((id): id is number => Number.isFinite(id)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveMultiTownZoneIds = async (zoneIds: number[]): Promise<void> => {
+  if (!zoneIds.length) {
+    await LocalStorage.removeItem(MULTI_TOWN_STORAGE_KEY);
+    return;
+  }
+  await LocalStorage.setItem(MULTI_TOWN_STORAGE_KEY, JSON.stringify(zoneIds));
+};
+
+// Neighbouring zones can list the same event under different ids, so match on content too.
+const eventContentKey = (event: RaycastEvent): string => {
+  const title = foldText(event.title || "").replace(/\s+/g, " ").trim();
+  if (!title || !event.startTime) return "";
+  const venue = foldText(event.venueName || "").replace(/\s+/g, " ").trim();
+  return `${title}|${event.startTime}|${venue}`;
+};
+
+export const mergeTownResponses = (responses: RaycastResponse[]): MergedTownListing => {
+  const events: RaycastEvent[] = [];
+  const townsByEventId: Record<string, RaycastTown[]> = {};
+  const idByContentKey = new Map<string, string>();
+
+  for (const response of responses) {
+    for (const event of response.events || []) {
+      const contentKey = eventContentKey(event);
+      const existingId = townsByEventId[event.id] ? event.id : contentKey && idByContentKey.get(contentKey);
+      if (existingId) {
+        const towns = townsByEventId[existingId];
+        if (!towns.some((town) => town.slug === response.town.slug)) {
+          towns.push(response.town);
+        }
+        continue;
+      }
+
+      events.push(event);
+      townsByEventId[event.id] = [response.town];
+      if (contentKey) {
+        idByContentKey.set(contentKey, event.id);
+      }
+    }
+  }
+
+  return { events, townsByEventId };
+};
+
+export const formatTownNames = (names: string[], maxNames = 3): string => {
+  if (names.length <= maxNames) return names.join(" + ");
+  return `${names.slice(0, maxNames).join(" + ")} +${names.length - maxNames}`;
+};
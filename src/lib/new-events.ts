@@ -0,0 +1,68 @@
+import { LocalStorage } from "@raycast/api";
+import { RaycastEvent } from "../types";
+import { apiScopedKey } from "./api-environment";
+import { getEventWindowMs } from "./event-listing";
+
+const SEEN_EVENTS_STORAGE_PREFIX = "townspot-seen-events:";
+// How long to remember an event whose times can't be read.
+const UNDATED_EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type SeenEventsRecord = {
+  townSlug: string;
+  eventIds: string[];
+  // When each seen event ends, so finished ones can be forgotten.
+  endsAt: Record<string, number>;
+  checkedAt: string;
+};
+
+const storageKey = (townSlug: string): string => apiScopedKey(`${SEEN_EVENTS_STORAGE_PREFIX}${townSlug}`);
+
+export const loadSeenEvents = async (townSlug: string): Promise<SeenEventsRecord | null> => {
+  const stored = await LocalStorage.getItem<string>(storageKey(townSlug));
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored) as SeenEventsRecord;
+    if (!parsed || !Array.isArray(parsed.eventIds)) return null;
+    // Records saved before end times were kept have none; they expire on the next save.
+    return { ...parsed, endsAt: parsed.endsAt && typeof parsed.endsAt === "object" ? parsed.endsAt : {} };
+  } catch {
+    return null;
+  }
+};
+
+// Adds the events to those already seen and drops any that have ended, so events beyond the page
+// that was fetched this time stay seen until they're over.
+export const saveSeenEvents = async (
+  townSlug: string,
+  events: RaycastEvent[],
+  previous: SeenEventsRecord | null = null,
+  nowMs = Date.now(),
+): Promise<SeenEventsRecord> => {
+  const endsAt: Record<string, number> = {};
+  for (const id of previous?.eventIds || []) {
+    const endMs = previous?.endsAt[id];
+    if (typeof endMs === "number" && endMs > nowMs) endsAt[id] = endMs;
+  }
+  for (const event of events) {
+    endsAt[event.id] = getEventWindowMs(event)?.endMs ?? nowMs + UNDATED_EVENT_RETENTION_MS;
+  }
+
+  const record: SeenEventsRecord = {
+    townSlug,
+    eventIds: Object.keys(endsAt),
+    endsAt,
+    checkedAt: new Date(nowMs).toISOString(),
+  };
+  await LocalStorage.setItem(storageKey(townSlug), JSON.stringify(record));
+  return record;
+};
+
+export const findNewEvents = (
+  events: RaycastEvent[],
+  previous: SeenEventsRecord | null,
+): RaycastEvent[] => {
+  // The first run only records a baseline; everything would otherwise look new.
+  if (!previous) return [];
+  const seenIds = new Set(previous.eventIds);
+  return events.filter((event) => !seenIds.has(event.id));
+};
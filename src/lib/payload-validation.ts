@@ -0,0 +1,178 @@
+import { Cache } from "@raycast/api";
+import { TownSpotPayloadError } from "./api-client";
+
+const MAX_PAYLOAD_REPORTS = 25;
+const REPORTS_KEY = "reports";
+
+export type PayloadSource = "query" | "event-details" | "zones";
+
+export type PayloadIssue = {
+  // Dotted path into the payload, e.g. `events[3].startTime`.
+  path: string;
+  expected: string;
+  received: string;
+  // True when the containing item (or the whole payload) was discarded, false when a default was used.
+  dropped: boolean;
+};
+
+export type PayloadReport = {
+  source: PayloadSource;
+  // Town slug, event id or similar, so repeated checks of the same resource replace each other.
+  label: string;
+  url: string;
+  checkedAt: number;
+  itemCount: number;
+  droppedCount: number;
+  rejected: boolean;
+  issues: PayloadIssue[];
+};
+
+const cache = new Cache({ namespace: "townspot-api-diagnostics" });
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describeReceived = (value: unknown): string => {
+  if (value === undefined) return "missing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `array (${value.length})`;
+  if (typeof value === "string") {
+    return value.length > 40 ? `"${value.slice(0, 40)}…"` : `"${value}"`;
+  }
+  if (typeof value === "object") return "object";
+  return `${typeof value} ${String(value)}`;
+};
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+export const payloadIssue = (path: string, expected: string, value: unknown, dropped: boolean): PayloadIssue => ({
+  path,
+  expected,
+  received: describeReceived(value),
+  dropped,
+});
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === "string" && Boolean(value.trim()) && !Number.isNaN(new Date(value).getTime());
+
+const toFiniteNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || !value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Reads typed fields off one payload object. Required readers return undefined (and record a
+// dropping issue) when the value is unusable; optional readers fall back to null.
+export const fieldReader = (record: Record<string, unknown>, path: string, issues: PayloadIssue[]) => {
+  const fail = (key: string, expected: string, dropped: boolean): void => {
+    issues.push(payloadIssue(joinPath(path, key), expected, record[key], dropped));
+  };
+
+  const optional = <T>(key: string, expected: string, read: (value: unknown) => T | null): T | null => {
+    const value = record[key];
+    if (value === undefined || value === null) return null;
+    const parsed = read(value);
+    if (parsed === null) fail(key, expected, false);
+    return parsed;
+  };
+
+  return {
+    string: (key: string): string | undefined => {
+      const value = record[key];
+      if (typeof value === "string" && value.trim()) return value;
+      fail(key, "non-empty string", true);
+      return undefined;
+    },
+    // Ids arrive as strings from most endpoints but as numbers from some older ones.
+    id: (key: string): string | undefined => {
+      const value = record[key];
+      if (typeof value === "string" && value.trim()) return value;
+      if (typeof value === "number" && Number.isFinite(value)) return String(value);
+      fail(key, "string or number id", true);
+      return undefined;
+    },
+    number: (key: string): number | undefined => {
+      const parsed = toFiniteNumber(record[key]);
+      if (parsed !== null) return parsed;
+      fail(key, "number", true);
+      return undefined;
+    },
+    date: (key: string): string | undefined => {
+      const value = record[key];
+      if (isDateString(value)) return value;
+      fail(key, "ISO date string", true);
+      return undefined;
+    },
+    optionalString: (key: string): string | null =>
+      optional(key, "string", (value) => (typeof value === "string" ? value : null)),
+    optionalDate: (key: string): string | null =>
+      optional(key, "ISO date string", (value) => (isDateString(value) ? value : null)),
+    optionalNumber: (key: string): number | null => optional(key, "number", toFiniteNumber),
+    optionalBoolean: (key: string): boolean | null =>
+      optional(key, "boolean", (value) => (typeof value === "boolean" ? value : null)),
+    // Keeps the string entries of a list, noting any that were skipped.
+    stringList: (key: string): string[] => {
+      const value = record[key];
+      if (value === undefined || value === null) return [];
+      if (!Array.isArray(value)) {
+        fail(key, "array of strings", false);
+        return [];
+      }
+      return value.filter((item, index): item is string => {
+        if (typeof item === "string") return true;
+        issues.push(payloadIssue(`${joinPath(path, key)}[${index}]`, "string", item, true));
+        return false;
+      });
+    },
+  };
+};
+
+export const loadPayloadReports = (): PayloadReport[] => {
+  const stored = cache.get(REPORTS_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? (parsed as PayloadReport[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearPayloadReports = (): void => {
+  cache.remove(REPORTS_KEY);
+};
+
+// Payload problems found since `since`, for warning about the request that just finished.
+export const payloadReportsSince = (since: number, source?: PayloadSource): PayloadReport[] =>
+  loadPayloadReports().filter((report) => report.checkedAt >= since && (!source || report.source === source));
+
+type PayloadCheck = Omit<PayloadReport, "checkedAt" | "rejected">;
+
+const otherReports = (check: PayloadCheck): PayloadReport[] =>
+  loadPayloadReports().filter((item) => item.source !== check.source || item.label !== check.label);
+
+const recordPayloadReport = (report: PayloadReport): void => {
+  cache.set(REPORTS_KEY, JSON.stringify([report, ...otherReports(report)].slice(0, MAX_PAYLOAD_REPORTS)));
+};
+
+// Records what validation found; a clean payload clears any earlier report for the same resource.
+export const reportPayloadCheck = (check: PayloadCheck): void => {
+  if (check.issues.length) {
+    recordPayloadReport({ ...check, checkedAt: Date.now(), rejected: false });
+    return;
+  }
+  const reports = loadPayloadReports();
+  const others = otherReports(check);
+  if (others.length !== reports.length) cache.set(REPORTS_KEY, JSON.stringify(others));
+};
+
+// Records the issues and gives up on the whole payload.
+export const rejectPayload = (check: PayloadCheck): never => {
+  recordPayloadReport({ ...check, checkedAt: Date.now(), rejected: true });
+  const first = check.issues[0];
+  throw new TownSpotPayloadError(
+    check.url,
+    first ? `${first.path || "payload"}: expected ${first.expected}, got ${first.received}` : "invalid payload",
+  );
+};
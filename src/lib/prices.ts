@@ -0,0 +1,198 @@
+import { splitEventTags } from "./event-tags";
+import { foldText } from "./i18n";
+import { RaycastEvent } from "../types";
+
+export type PriceKind = "free" | "paid" | "donation";
+
+export type ParsedPrice = {
+  kind: PriceKind;
+  // null when the event is paid but the amount is unknown.
+  min: number | null;
+  // null when there's no upper bound ("from £8", "donation").
+  max: number | null;
+  currency: string | null;
+};
+
+// "any", "free", or the highest acceptable cheapest ticket in the town's currency.
+export type PriceFilter = "any" | "free" | number;
+
+export const PRICE_FILTER_LIMITS = [5, 10, 20];
+
+export const DEFAULT_CURRENCY = "GBP";
+
+const CURRENCY_MARKERS: [RegExp, string][] = [
+  [/^(£|gbp|pounds?|libras?|lliures?)$/, "GBP"],
+  [/^(€|eur|euros?)$/, "EUR"],
+  [/^(\$|usd|dollars?|dolares|dolars)$/, "USD"],
+];
+
+const FREE_PATTERN =
+  /\b(free|free entry|gratis|gratuit|gratuito|gratuita|gratuits|gratuitos|entrada libre|entrada lliure|no cost)\b/;
+const DONATION_PATTERN =
+  /\b(donations?|donativos?|donatius?|pay what you (can|want|feel|like)|pwyc|taquilla inversa|la voluntad|voluntat)\b/;
+const FROM_PATTERN = /\b(from|desde|des de|a partir de)\b/;
+// A separator followed by exactly three digits groups thousands ("£1,000", "1.500 €"); one or two
+// digits are pence or cents.
+const NUMBER = String.raw`\d{1,3}(?:[.,]\d{3}(?!\d))+(?:[.,]\d{1,2}(?!\d))?|\d+(?:[.,]\d{1,2}(?!\d))?`;
+const AMOUNT_PATTERN = new RegExp(
+  String.raw`(£|€|\$|\b(?:gbp|eur|usd)\b)?\s*(${NUMBER})\s*(£|€|\$|(?:gbp|eur|usd|pounds?|euros?|dollars?|libras?|lliures?|dolares|dolars)\b)?`,
+  "g",
+);
+const BARE_PRICE_PATTERN = new RegExp(String.raw`^\s*(?:${NUMBER})(?:\s*[-–]\s*(?:${NUMBER}))?\s*$`);
+
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  gb: "GBP",
+  uk: "GBP",
+  ie: "EUR",
+  es: "EUR",
+  ad: "EUR",
+  fr: "EUR",
+  pt: "EUR",
+  it: "EUR",
+  de: "EUR",
+  nl: "EUR",
+  us: "USD",
+};
+
+export const currencyForCountry = (countryCode?: string | null): string =>
+  COUNTRY_CURRENCIES[String(countryCode || "").trim().toLowerCase()] || DEFAULT_CURRENCY;
+
+const currencyFromMarker = (marker: string | undefined): string | null => {
+  if (!marker) return null;
+  const normalized = marker.trim();
+  const match = CURRENCY_MARKERS.find(([pattern]) => pattern.test(normalized));
+  return match ? match[1] : null;
+};
+
+const toAmount = (value: string): number => {
+  const decimals = /[.,](\d{1,2})$/.exec(value);
+  const whole = (decimals ? value.slice(0, decimals.index) : value).replace(/[.,]/g, "");
+  return Number(decimals ? `${whole}.${decimals[1]}` : whole);
+};
+
+type AmountMatch = {
+  amount: number;
+  currency: string | null;
+  end: number;
+  start: number;
+};
+
+const findAmounts = (text: string): AmountMatch[] => {
+  const matches: AmountMatch[] = [];
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const start = match.index ?? 0;
+    const before = text.slice(0, start);
+    const after = text.slice(start + match[0].length);
+    // Skip clock times and dates ("7pm", "19:00", "12/05").
+    const isTimeOrDate = /[:/.]$/.test(before) || /^(am|pm|h\b|:|\/)/.test(after.trimStart());
+    if (isTimeOrDate && !match[1] && !match[3]) continue;
+    matches.push({
+      amount: toAmount(match[2]),
+      currency: currencyFromMarker(match[1]) || currencyFromMarker(match[3]),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return matches;
+};
+
+// A bare number counts when it sits in a range with a priced one ("£5-10", "5–10€").
+const pricedAmounts = (text: string, amounts: AmountMatch[]): AmountMatch[] =>
+  amounts.filter((amount, index) => {
+    if (amount.currency) return true;
+    const isRangeWith = (other: AmountMatch | undefined, gap: string): boolean =>
+      Boolean(other?.currency) && /^\s*(-|–|—|to|a|y|i)\s*$/.test(gap);
+    const previous = amounts[index - 1];
+    const next = amounts[index + 1];
+    return (
+      (previous ? isRangeWith(previous, text.slice(previous.end, amount.start)) : false) ||
+      (next ? isRangeWith(next, text.slice(amount.end, next.start)) : false)
+    );
+  });
+
+export const parsePriceInfo = (
+  priceInfo: string | null | undefined,
+  isFree?: boolean | null,
+): ParsedPrice | null => {
+  const text = foldText(String(priceInfo || "")).replace(/\s+/g, " ").trim();
+  const amounts = text ? findAmounts(text) : [];
+  const priced = pricedAmounts(text, amounts);
+  const values = (priced.length ? priced : BARE_PRICE_PATTERN.test(text) ? amounts : []).map(
+    (item) => item.amount,
+  );
+  const currency = priced.find((item) => item.currency)?.currency || null;
+
+  if (DONATION_PATTERN.test(text)) {
+    return { kind: "donation", min: 0, max: values.length ? Math.max(...values) : null, currency };
+  }
+
+  const positive = values.filter((value) => value > 0);
+  if (!positive.length) {
+    // Only zero amounts ("£0") count as free too.
+    if (isFree === true || FREE_PATTERN.test(text) || values.length) {
+      return { kind: "free", min: 0, max: 0, currency };
+    }
+    if (isFree === false) {
+      return { kind: "paid", min: null, max: null, currency: null };
+    }
+    return null;
+  }
+
+  // "Free before 10pm, £5 after" still lets some people in for nothing.
+  return {
+    kind: "paid",
+    min: FREE_PATTERN.test(text) ? 0 : Math.min(...values),
+    max: FROM_PATTERN.test(text) && positive.length === 1 ? null : Math.max(...values),
+    currency,
+  };
+};
+
+// Falls back to the Free/Paid tags when there's no price text to parse.
+export const eventPrice = (
+  event: RaycastEvent,
+  priceInfo: string | null | undefined,
+  isFree: boolean | null | undefined,
+): ParsedPrice | null => {
+  const parsed = parsePriceInfo(priceInfo, isFree);
+  if (parsed) return parsed;
+  const tagPrice = splitEventTags(event.tags || []).price;
+  if (tagPrice === "Free") return { kind: "free", min: 0, max: 0, currency: null };
+  if (tagPrice === "Paid") return { kind: "paid", min: null, max: null, currency: null };
+  return null;
+};
+
+// Unknown prices only pass "any"; prices in another currency never pass a limit.
+export const matchesPriceFilter = (
+  price: ParsedPrice | null,
+  filter: PriceFilter,
+  currency: string,
+): boolean => {
+  if (filter === "any") return true;
+  if (!price) return false;
+  if (filter === "free") return price.kind === "free";
+  if (price.kind === "free" || price.kind === "donation") return true;
+  if (price.min === null) return false;
+  if (price.currency && price.currency !== currency) return false;
+  return price.min <= filter;
+};
+
+export const formatMoney = (amount: number, currency: string, locale: string): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+export const formatParsedPrice = (
+  price: ParsedPrice,
+  fallbackCurrency: string,
+  locale: string,
+): string | null => {
+  if (price.kind !== "paid" || price.min === null) return null;
+  const currency = price.currency || fallbackCurrency;
+  const min = formatMoney(price.min, currency, locale);
+  if (price.max === null) return `${min}+`;
+  if (price.max === price.min) return min;
+  return `${min}–${formatMoney(price.max, currency, locale)}`;
+};
@@ -0,0 +1,200 @@
+import { TimeWindow } from "./event-listing";
+import { foldText, Language, languageForLocale } from "./i18n";
+
+export type InferredCategory = "Kids" | "Music" | "Food" | "Comedy" | "Art";
+
+export type Timeframe = "tonight" | "tomorrow" | "thisWeekend" | "nextWeek" | "thisWeek";
+
+type WindowPhrase =
+  | "now"
+  | "allUpcoming"
+  | "today"
+  | "tonight"
+  | "tomorrow"
+  | "thisWeekend"
+  | "thisWeek"
+  | "nextWeek"
+  | "next3Days"
+  | "next7Days";
+
+type InferencePhrases = {
+  categories: Record<InferredCategory, string[]>;
+  windows: Record<WindowPhrase, string[]>;
+  // Words that only mean "now" when they open the query ("ara" is also a common filler word).
+  leadingNow: string[];
+  // Words that carry no search meaning once intent has been read ("what's on in ...").
+  fillerWords: string[];
+};
+
+// Phrases are written without diacritics; queries are folded before matching.
+const PHRASES: Record<Language, InferencePhrases> = {
+  en: {
+    categories: {
+      Kids: ["kid", "kids", "children", "child", "baby", "babies", "family", "toddler", "toddlers"],
+      Music: ["music", "live", "dj", "concert", "gig"],
+      Food: ["food", "eat", "dinner", "lunch", "cafe", "restaurant"],
+      Comedy: ["comedy", "standup", "stand up", "comic"],
+      Art: ["art", "gallery", "museum", "exhibit"],
+    },
+    windows: {
+      now: ["right now", "happening now", "on now", "live now"],
+      allUpcoming: ["all upcoming"],
+      today: ["today"],
+      tonight: ["tonight"],
+      tomorrow: ["tomorrow"],
+      thisWeekend: ["this weekend"],
+      thisWeek: ["this week"],
+      nextWeek: ["next week"],
+      next3Days: ["next 3 days"],
+      next7Days: ["next 7 days"],
+    },
+    leadingNow: ["now"],
+    fillerWords: [
+      "what", "whats", "s", "on", "in", "at", "the", "a", "an", "for", "and", "or", "of", "to", "do", "is",
+      "are", "any", "some", "near", "me", "show", "find", "events", "event", "things", "something", "happening",
+    ],
+  },
+  es: {
+    categories: {
+      Kids: ["nino", "ninos", "nina", "ninas", "peques", "infantil", "infantiles", "familia", "familias", "bebe", "bebes"],
+      Music: ["musica", "en directo", "en vivo", "concierto", "conciertos"],
+      Food: ["comida", "comer", "cena", "cenar", "almuerzo", "restaurante", "cafeteria", "tapas"],
+      Comedy: ["comedia", "monologo", "monologos", "humor"],
+      Art: ["arte", "galeria", "museo", "exposicion", "exposiciones"],
+    },
+    windows: {
+      now: ["ahora mismo", "en este momento"],
+      allUpcoming: ["todos los proximos", "proximamente"],
+      today: ["hoy"],
+      tonight: ["esta noche"],
+      tomorrow: ["manana"],
+      thisWeekend: ["este fin de semana", "el fin de semana", "este finde", "finde"],
+      thisWeek: ["esta semana"],
+      nextWeek: ["la semana que viene", "semana que viene", "proxima semana", "siguiente semana"],
+      next3Days: ["proximos 3 dias", "proximos tres dias"],
+      next7Days: ["proximos 7 dias", "proximos siete dias"],
+    },
+    leadingNow: ["ahora"],
+    fillerWords: [
+      "que", "hay", "en", "de", "del", "el", "la", "los", "las", "un", "una", "unos", "unas", "y", "o", "para",
+      "por", "con", "planes", "plan", "eventos", "evento", "hacer", "algo", "cerca", "mi", "busca", "buscar",
+    ],
+  },
+  ca: {
+    categories: {
+      Kids: ["nen", "nens", "nena", "nenes", "canalla", "infantil", "infantils", "familia", "families", "nado", "nadons"],
+      Music: ["musica", "en directe", "en viu", "concert", "concerts"],
+      Food: ["menjar", "sopar", "dinar", "restaurant", "cafeteria", "tapes"],
+      Comedy: ["comedia", "monoleg", "monolegs", "humor"],
+      Art: ["art", "galeria", "museu", "exposicio", "exposicions"],
+    },
+    windows: {
+      now: ["ara mateix", "en aquest moment"],
+      allUpcoming: ["tots els propers", "properament"],
+      today: ["avui"],
+      tonight: ["aquesta nit", "aquest vespre"],
+      tomorrow: ["dema"],
+      thisWeekend: ["aquest cap de setmana", "el cap de setmana", "cap de setmana"],
+      thisWeek: ["aquesta setmana"],
+      nextWeek: ["la setmana que ve", "setmana que ve", "propera setmana", "setmana vinent"],
+      next3Days: ["propers 3 dies", "propers tres dies"],
+      next7Days: ["propers 7 dies", "propers set dies"],
+    },
+    leadingNow: ["ara"],
+    fillerWords: [
+      "que", "hi", "ha", "a", "al", "en", "de", "del", "el", "la", "l", "els", "les", "un", "una", "uns", "unes",
+      "i", "o", "per", "amb", "plans", "pla", "esdeveniments", "esdeveniment", "fer", "alguna", "cosa", "prop",
+    ],
+  },
+};
+
+const CATEGORY_ORDER: InferredCategory[] = ["Kids", "Music", "Food", "Comedy", "Art"];
+
+export const normalizeInferenceQuery = (value: string): string =>
+  foldText(value)
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// English stays available in every locale because people mix it into queries.
+const tablesForLocale = (locale: string): InferencePhrases[] => {
+  const language = languageForLocale(locale);
+  return language === "en" ? [PHRASES.en] : [PHRASES[language], PHRASES.en];
+};
+
+const containsPhrase = (query: string, phrase: string): boolean =>
+  ` ${query} `.includes(` ${phrase} `);
+
+const matchesWindow = (query: string, tables: InferencePhrases[], key: WindowPhrase): boolean =>
+  tables.some((table) => table.windows[key].some((phrase) => containsPhrase(query, phrase)));
+
+const isNowQuery = (query: string, tables: InferencePhrases[]): boolean =>
+  matchesWindow(query, tables, "now") ||
+  tables.some((table) =>
+    table.leadingNow.some((word) => query === word || query.startsWith(`${word} `)),
+  );
+
+export const inferCategoryFromQuery = (value: string, locale: string): InferredCategory | null => {
+  const query = normalizeInferenceQuery(value);
+  if (!query) return null;
+  const tables = tablesForLocale(locale);
+  return (
+    CATEGORY_ORDER.find((category) =>
+      tables.some((table) => table.categories[category].some((phrase) => containsPhrase(query, phrase))),
+    ) || null
+  );
+};
+
+export const inferTimeWindowFromQuery = (value: string, locale: string): TimeWindow | null => {
+  const query = normalizeInferenceQuery(value);
+  if (!query) return null;
+  const tables = tablesForLocale(locale);
+  if (isNowQuery(query, tables)) return "now";
+  if (matchesWindow(query, tables, "allUpcoming")) return "all_upcoming";
+  if (matchesWindow(query, tables, "tomorrow")) return "today_tomorrow";
+  if (matchesWindow(query, tables, "thisWeekend")) return "next_3_days";
+  if (matchesWindow(query, tables, "thisWeek")) return "this_week";
+  if (matchesWindow(query, tables, "next7Days") || matchesWindow(query, tables, "nextWeek")) {
+    return "next_7_days";
+  }
+  if (matchesWindow(query, tables, "next3Days")) return "next_3_days";
+  if (matchesWindow(query, tables, "today") || matchesWindow(query, tables, "tonight")) return "today";
+  return null;
+};
+
+export const hasExplicitTimeIntent = (value: string, locale: string): boolean => {
+  const query = normalizeInferenceQuery(value);
+  if (!query) return false;
+  const tables = tablesForLocale(locale);
+  if (isNowQuery(query, tables)) return true;
+  return (Object.keys(PHRASES.en.windows) as WindowPhrase[]).some((key) =>
+    matchesWindow(query, tables, key),
+  );
+};
+
+export const inferTimeframeFromQuery = (value: string, locale: string): Timeframe | null => {
+  const query = normalizeInferenceQuery(value);
+  if (!query) return null;
+  const tables = tablesForLocale(locale);
+  const order: Timeframe[] = ["tonight", "tomorrow", "thisWeekend", "nextWeek", "thisWeek"];
+  return order.find((key) => matchesWindow(query, tables, key)) || null;
+};
+
+// What's left of a query once time, category and filler words are removed, for local text search.
+export const stripIntentPhrases = (value: string, locale: string): string => {
+  let query = ` ${normalizeInferenceQuery(value)} `;
+  const tables = tablesForLocale(locale);
+  const phrases = tables.flatMap((table) => [
+    ...Object.values(table.windows).flat(),
+    ...Object.values(table.categories).flat(),
+    ...table.leadingNow,
+  ]);
+  for (const phrase of [...phrases].sort((a, b) => b.length - a.length)) {
+    query = query.split(` ${phrase} `).join(" ");
+  }
+  const fillerWords = new Set(tables.flatMap((table) => table.fillerWords));
+  return query
+    .split(" ")
+    .filter((word) => word && !fillerWords.has(word))
+    .join(" ");
+};
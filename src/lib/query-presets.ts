@@ -1,5 +1,7 @@
+export type QuickQueryPresetId = "tonight" | "weekend" | "kids" | "free" | "music";
+
 export type QuickQueryPreset = {
-  id: string;
+  id: QuickQueryPresetId;
   title: string;
   subtitle: string;
   query: string;
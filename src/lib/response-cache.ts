@@ -0,0 +1,95 @@
+import { Cache } from "@raycast/api";
+import { RaycastResponse } from "../types";
+import { apiScopedKey } from "./api-environment";
+import { ActiveZoneOption } from "./zones";
+
+const FRESH_TTL_MS = 5 * 60 * 1000;
+const MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+const ZONES_KEY = "zones";
+
+const cache = new Cache({ namespace: "townspot-responses" });
+
+export type ResponseCacheKey = {
+  townSlug: string;
+  locale: string;
+  query: string;
+};
+
+export type CachedResponse = {
+  response: RaycastResponse;
+  storedAt: number;
+  isFresh: boolean;
+};
+
+type StoredEntry = {
+  response: RaycastResponse;
+  storedAt: number;
+};
+
+const normalizeQuery = (query: string): string =>
+  String(query || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+const exactKey = (key: ResponseCacheKey): string =>
+  apiScopedKey(`query:${key.townSlug}:${key.locale}:${normalizeQuery(key.query)}`);
+
+// Last good response per town, used when the exact query has never been cached.
+const latestKey = (key: ResponseCacheKey): string => apiScopedKey(`latest:${key.townSlug}:${key.locale}`);
+
+const readEntry = (cacheKey: string, nowMs: number): CachedResponse | null => {
+  const stored = cache.get(cacheKey);
+  if (!stored) return null;
+
+  try {
+    const entry = JSON.parse(stored) as StoredEntry;
+    if (!entry?.response || !Number.isFinite(entry.storedAt)) return null;
+    const ageMs = nowMs - entry.storedAt;
+    if (ageMs > MAX_AGE_MS) {
+      cache.remove(cacheKey);
+      return null;
+    }
+    return {
+      response: entry.response,
+      storedAt: entry.storedAt,
+      isFresh: ageMs <= FRESH_TTL_MS,
+    };
+  } catch {
+    cache.remove(cacheKey);
+    return null;
+  }
+};
+
+export const readCachedResponse = (
+  key: ResponseCacheKey,
+  nowMs = Date.now(),
+): CachedResponse | null => readEntry(exactKey(key), nowMs);
+
+export const readLatestTownResponse = (
+  key: ResponseCacheKey,
+  nowMs = Date.now(),
+): CachedResponse | null => readEntry(latestKey(key), nowMs);
+
+export const writeCachedResponse = (
+  key: ResponseCacheKey,
+  response: RaycastResponse,
+  nowMs = Date.now(),
+): void => {
+  const serialized = JSON.stringify({ response, storedAt: nowMs } satisfies StoredEntry);
+  cache.set(exactKey(key), serialized);
+  cache.set(latestKey(key), serialized);
+};
+
+export const readCachedZones = (): ActiveZoneOption[] => {
+  const stored = cache.get(apiScopedKey(ZONES_KEY));
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as ActiveZoneOption[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const writeCachedZones = (zones: ActiveZoneOption[]): void => {
+  cache.set(apiScopedKey(ZONES_KEY), JSON.stringify(zones));
+};
@@ -0,0 +1,68 @@
+import { LocalStorage } from "@raycast/api";
+import { hasEventEnded } from "./event-listing";
+import { RaycastEvent } from "../types";
+
+export const SAVED_EVENTS_STORAGE_KEY = "townspot-saved-events";
+
+export type SavedEvent = {
+  event: RaycastEvent;
+  townSlug: string;
+  townName?: string;
+  timezone: string;
+  savedAt: string;
+};
+
+const isSavedEvent = (value: unknown): value is SavedEvent => {
+  const candidate = value as SavedEvent | null;
+  return Boolean(
+    candidate &&
+      typeof candidate === "object" &&
+      candidate.event &&
+      typeof candidate.event.id === "string" &&
+      typeof candidate.townSlug === "string",
+  );
+};
+
+const readSavedEvents = async (): Promise<SavedEvent[]> => {
+  const stored = await LocalStorage.getItem<string>(SAVED_EVENTS_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isSavedEvent) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeSavedEvents = async (entries: SavedEvent[]): Promise<void> => {
+  await LocalStorage.setItem(SAVED_EVENTS_STORAGE_KEY, JSON.stringify(entries));
+};
+
+// Drops entries whose event has ended so the list only ever holds upcoming plans.
+export const loadSavedEvents = async (nowMs = Date.now()): Promise<SavedEvent[]> => {
+  const entries = await readSavedEvents();
+  const upcoming = entries.filter((entry) => !hasEventEnded(entry.event, nowMs));
+  if (upcoming.length !== entries.length) {
+    await writeSavedEvents(upcoming);
+  }
+  return upcoming;
+};
+
+export const addSavedEvent = async (
+  entry: Omit<SavedEvent, "savedAt">,
+): Promise<SavedEvent[]> => {
+  const entries = await loadSavedEvents();
+  const next = [
+    ...entries.filter((item) => item.event.id !== entry.event.id),
+    { ...entry, savedAt: new Date().toISOString() },
+  ];
+  await writeSavedEvents(next);
+  return next;
+};
+
+export const removeSavedEvent = async (eventId: string): Promise<SavedEvent[]> => {
+  const entries = await loadSavedEvents();
+  const next = entries.filter((item) => item.event.id !== eventId);
+  await writeSavedEvents(next);
+  return next;
+};
@@ -0,0 +1,123 @@
+import { environment, LocalStorage } from "@raycast/api";
+import { CustomDateRange, TimeWindow } from "./event-listing";
+
+export const SAVED_SEARCHES_STORAGE_KEY = "townspot-saved-searches";
+
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string;
+  category: string;
+  timeWindow: TimeWindow;
+  customRange?: CustomDateRange | null;
+  // null runs the search in whichever town is selected.
+  townSlug: string | null;
+  townName?: string;
+  createdAt: string;
+};
+
+export type SavedSearchDraft = Omit<SavedSearch, "id" | "createdAt">;
+
+// Deeplinks carry the whole search so they still work if it's later deleted.
+export type SavedSearchLaunchContext = {
+  savedSearchId: string;
+  savedSearch: SavedSearchDraft;
+};
+
+const TIME_WINDOWS: TimeWindow[] = [
+  "now",
+  "all_upcoming",
+  "today",
+  "today_tomorrow",
+  "next_3_days",
+  "next_7_days",
+  "this_week",
+  "custom",
+];
+
+export const isSavedSearchDraft = (value: unknown): value is SavedSearchDraft => {
+  const candidate = value as SavedSearchDraft | null;
+  return Boolean(
+    candidate &&
+      typeof candidate === "object" &&
+      typeof candidate.name === "string" &&
+      typeof candidate.query === "string" &&
+      typeof candidate.category === "string" &&
+      TIME_WINDOWS.includes(candidate.timeWindow) &&
+      (candidate.townSlug === null || typeof candidate.townSlug === "string"),
+  );
+};
+
+const isSavedSearch = (value: unknown): value is SavedSearch =>
+  isSavedSearchDraft(value) && typeof (value as SavedSearch).id === "string";
+
+export const loadSavedSearches = async (): Promise<SavedSearch[]> => {
+  const stored = await LocalStorage.getItem<string>(SAVED_SEARCHES_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isSavedSearch) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeSavedSearches = async (searches: SavedSearch[]): Promise<void> => {
+  await LocalStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, JSON.stringify(searches));
+};
+
+const newSavedSearchId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const addSavedSearch = async (draft: SavedSearchDraft): Promise<SavedSearch[]> => {
+  const searches = await loadSavedSearches();
+  const next = [...searches, { ...draft, id: newSavedSearchId(), createdAt: new Date().toISOString() }];
+  await writeSavedSearches(next);
+  return next;
+};
+
+export const updateSavedSearch = async (id: string, draft: SavedSearchDraft): Promise<SavedSearch[]> => {
+  const searches = await loadSavedSearches();
+  const next = searches.map((search) => (search.id === id ? { ...search, ...draft } : search));
+  await writeSavedSearches(next);
+  return next;
+};
+
+export const removeSavedSearch = async (id: string): Promise<SavedSearch[]> => {
+  const searches = await loadSavedSearches();
+  const next = searches.filter((search) => search.id !== id);
+  await writeSavedSearches(next);
+  return next;
+};
+
+export const moveSavedSearch = async (id: string, offset: -1 | 1): Promise<SavedSearch[]> => {
+  const searches = await loadSavedSearches();
+  const index = searches.findIndex((search) => search.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= searches.length) return searches;
+  const next = [...searches];
+  [next[index], next[target]] = [next[target], next[index]];
+  await writeSavedSearches(next);
+  return next;
+};
+
+const toDraft = ({ id: _id, createdAt: _createdAt, ...draft }: SavedSearch): SavedSearchDraft => draft;
+
+export const savedSearchDeeplink = (search: SavedSearch): string => {
+  const context: SavedSearchLaunchContext = { savedSearchId: search.id, savedSearch: toDraft(search) };
+  const owner = encodeURIComponent(environment.ownerOrAuthorName);
+  const extension = encodeURIComponent(environment.extensionName);
+  return `raycast://extensions/${owner}/${extension}/ask?launchType=userInitiated&context=${encodeURIComponent(
+    JSON.stringify(context),
+  )}`;
+};
+
+// Prefers the stored copy so edits made after the quicklink was created still apply.
+export const resolveLaunchedSearch = async (
+  context: Partial<SavedSearchLaunchContext> | undefined,
+): Promise<SavedSearchDraft | null> => {
+  if (!context?.savedSearchId && !context?.savedSearch) return null;
+  const stored = (await loadSavedSearches()).find((search) => search.id === context.savedSearchId);
+  if (stored) return toDraft(stored);
+  return isSavedSearchDraft(context.savedSearch) ? context.savedSearch : null;
+};
@@ -0,0 +1,138 @@
+import { readCachedEventDetails } from "./event-details";
+import { splitEventTags } from "./event-tags";
+import { foldText } from "./i18n";
+import { RaycastEvent } from "../types";
+
+type IndexedField = {
+  tokens: string[];
+  text: string;
+  weight: number;
+};
+
+type IndexedEvent = {
+  event: RaycastEvent;
+  fields: IndexedField[];
+};
+
+export type EventSearchIndex = IndexedEvent[];
+
+export type EventSearchResult = {
+  event: RaycastEvent;
+  score: number;
+};
+
+const FIELD_WEIGHTS = {
+  title: 4,
+  venue: 2,
+  tags: 2,
+  description: 1,
+};
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const SUBSTRING_MATCH = 0.5;
+const FUZZY_MATCH = 0.4;
+const TITLE_PHRASE_BONUS = 2;
+
+const normalizeSearchText = (value: string): string =>
+  foldText(value || "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+export const tokenizeSearchText = (value: string): string[] =>
+  normalizeSearchText(value).split(" ").filter(Boolean);
+
+const indexField = (value: string, weight: number): IndexedField => {
+  const text = normalizeSearchText(value);
+  return { text, tokens: [...new Set(text.split(" ").filter(Boolean))], weight };
+};
+
+// Descriptions come from event details fetched earlier, so they sharpen results without extra requests.
+export const buildEventSearchIndex = (
+  events: RaycastEvent[],
+  descriptionFor: (event: RaycastEvent) => string = (event) =>
+    readCachedEventDetails(event.id)?.description || "",
+): EventSearchIndex =>
+  events.map((event) => {
+    const tagParts = splitEventTags(event.tags || []);
+    return {
+      event,
+      fields: [
+        indexField(event.title, FIELD_WEIGHTS.title),
+        indexField(event.venueName, FIELD_WEIGHTS.venue),
+        indexField([...tagParts.categories, tagParts.frequency || ""].join(" "), FIELD_WEIGHTS.tags),
+        indexField(descriptionFor(event), FIELD_WEIGHTS.description),
+      ],
+    };
+  });
+
+// Edit distance, giving up as soon as it's clear the result will exceed `max`.
+const boundedEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const allowedTypos = (term: string): number => {
+  if (term.length >= 7) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+};
+
+const matchQuality = (term: string, token: string): number => {
+  if (token === term) return EXACT_MATCH;
+  if (token.startsWith(term)) return PREFIX_MATCH;
+  if (term.length >= 3 && token.includes(term)) return SUBSTRING_MATCH;
+  const typos = allowedTypos(term);
+  if (!typos) return 0;
+  // Compare against the token's start too, so "jaz" still reaches "jazzy" while typing.
+  const candidate = token.length > term.length + typos ? token.slice(0, term.length) : token;
+  return boundedEditDistance(term, candidate, typos) <= typos ? FUZZY_MATCH : 0;
+};
+
+const termScore = (term: string, fields: IndexedField[]): number => {
+  let best = 0;
+  for (const field of fields) {
+    for (const token of field.tokens) {
+      best = Math.max(best, matchQuality(term, token) * field.weight);
+      if (best >= EXACT_MATCH * FIELD_WEIGHTS.title) return best;
+    }
+  }
+  return best;
+};
+
+// Every term has to match somewhere; results come back best first, ties in listing order.
+export const searchEvents = (index: EventSearchIndex, query: string): EventSearchResult[] => {
+  const terms = [...new Set(tokenizeSearchText(query))];
+  if (!terms.length) return index.map(({ event }) => ({ event, score: 0 }));
+  const phrase = terms.join(" ");
+
+  const results: (EventSearchResult & { order: number })[] = [];
+  index.forEach((entry, order) => {
+    let score = 0;
+    for (const term of terms) {
+      const value = termScore(term, entry.fields);
+      if (!value) return;
+      score += value;
+    }
+    if (terms.length > 1 && entry.fields[0].text.includes(phrase)) {
+      score += TITLE_PHRASE_BONUS;
+    }
+    results.push({ event: entry.event, score, order });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ event, score }) => ({ event, score }));
+};
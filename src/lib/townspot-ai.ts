@@ -1,4 +1,6 @@
 import { LocalStorage } from "@raycast/api";
+import { DateFormatOptions, formatDateTime, parseDateValue } from "./date-format";
+import { foldText, languageName } from "./i18n";
 import { fetchActiveZones } from "./zones";
 import { RaycastEvent } from "../types";
 
@@ -15,30 +17,80 @@ export type ResolvedTown = {
   source: "home" | "query";
 };
 
+export type ConversationTurn = {
+  prompt: string;
+  town: ActiveTown;
+  timezone: string;
+  answer: string;
+  events: RaycastEvent[];
+};
+
 type BuildAiPromptInput = {
   query: string;
   townName: string;
   apiAnswer: string;
   events: RaycastEvent[];
+  timezone: string;
+  history?: ConversationTurn[];
+  dateFormat: DateFormatOptions;
 };
 
+const MAX_HISTORY_TURNS = 3;
+
 const sanitizeLabel = (value: string): string =>
   String(value || "").replace(/\s+/g, " ").trim();
 
-const eventLine = (event: RaycastEvent, index: number): string => {
+// Formatted in the town's timezone and the user's language, so the answer can quote it as-is.
+const eventStartLabel = (event: RaycastEvent, timezone: string, dateFormat: DateFormatOptions): string => {
+  const start = parseDateValue(event.startTime);
+  if (start) return formatDateTime(start, timezone, dateFormat);
+  return sanitizeLabel(event.startLabel) || "Time unknown";
+};
+
+const eventFields = (event: RaycastEvent, timezone: string, dateFormat: DateFormatOptions): string => {
   const title = sanitizeLabel(event.title) || "Untitled event";
-  const start = sanitizeLabel(event.startLabel) || sanitizeLabel(event.startTime) || "Time unknown";
+  const start = eventStartLabel(event, timezone, dateFormat);
   const venue = sanitizeLabel(event.venueName) || "Venue unknown";
   const tags = Array.isArray(event.tags) && event.tags.length ? event.tags.join(", ") : "No tags";
   const url = sanitizeLabel(event.url) || "No URL";
-  return `${index + 1}. ${title} | ${start} | ${venue} | ${tags} | ${url}`;
+  return `${title} | ${start} | ${venue} | ${tags} | ${url}`;
+};
+
+// Earlier turns are context only, so they stay unnumbered and can't be cited.
+const historyBlock = (history: ConversationTurn[], dateFormat: DateFormatOptions): string[] => {
+  const turns = history.slice(-MAX_HISTORY_TURNS);
+  if (!turns.length) return [];
+
+  const lines = [
+    "Conversation so far (oldest first). The latest user query may refine these earlier answers:",
+  ];
+  turns.forEach((turn, index) => {
+    const eventsBlock = turn.events
+      .map((event) => `- ${eventFields(event, turn.timezone, dateFormat)}`)
+      .join("\n");
+    lines.push(
+      "",
+      `Earlier query ${index + 1}: ${sanitizeLabel(turn.prompt)}`,
+      `Town: ${sanitizeLabel(turn.town.name) || "your town"}`,
+      `Your earlier answer: ${sanitizeLabel(turn.answer) || "No answer was given."}`,
+      "Verified events for that query:",
+      eventsBlock || "No verified events were returned.",
+    );
+  });
+  lines.push("");
+  return lines;
 };
 
+export const conversationForApi = (history: ConversationTurn[]): string[] =>
+  history.slice(-MAX_HISTORY_TURNS).map((turn) => sanitizeLabel(turn.prompt));
+
 export const buildTownspotAiPrompt = (input: BuildAiPromptInput): string => {
   const query = sanitizeLabel(input.query);
   const townName = sanitizeLabel(input.townName) || "your town";
   const apiAnswer = sanitizeLabel(input.apiAnswer);
-  const eventsBlock = input.events.map(eventLine).join("\n");
+  const eventsBlock = input.events
+    .map((event, index) => `[${index + 1}] ${eventFields(event, input.timezone, input.dateFormat)}`)
+    .join("\n");
 
   return [
     "You are TownSpot AI.",
@@ -46,7 +98,11 @@ export const buildTownspotAiPrompt = (input: BuildAiPromptInput): string => {
     "Do not invent events, venues, times, or links.",
     "If the user asks for something not present in the data, say you couldn't find a verified match and suggest broadening filters.",
     "Keep the response concise and practical.",
+    `Reply in ${languageName(input.dateFormat.locale)}, whatever language the listings are written in.`,
+    "Cite every event you mention with its number in square brackets, for example [2]. Only cite numbers from the verified events list.",
+    "Write event titles in bold exactly as listed, and use bold for nothing else.",
     "",
+    ...historyBlock(input.history || [], input.dateFormat),
     `User query: ${query}`,
     `Town: ${townName}`,
     `TownSpot API summary: ${apiAnswer || "No summary provided."}`,
@@ -56,13 +112,17 @@ export const buildTownspotAiPrompt = (input: BuildAiPromptInput): string => {
   ].join("\n");
 };
 
-export const buildVerifiedEventsMarkdown = (events: RaycastEvent[]): string => {
+export const buildVerifiedEventsMarkdown = (
+  events: RaycastEvent[],
+  timezone: string,
+  dateFormat: DateFormatOptions,
+): string => {
   if (!events.length) return "_No verified listings found._";
 
   return events
     .map((event) => {
       const title = sanitizeLabel(event.title) || "Untitled event";
-      const start = sanitizeLabel(event.startLabel) || sanitizeLabel(event.startTime) || "Time unknown";
+      const start = eventStartLabel(event, timezone, dateFormat);
       const venue = sanitizeLabel(event.venueName) || "Venue unknown";
       const tags = Array.isArray(event.tags) && event.tags.length ? event.tags.join(", ") : "";
       const link = sanitizeLabel(event.url);
@@ -74,8 +134,7 @@ export const buildVerifiedEventsMarkdown = (events: RaycastEvent[]): string => {
 };
 
 const normalizeForMatch = (value: string): string =>
-  String(value || "")
-    .toLowerCase()
+  foldText(value)
     .replace(/[^a-z0-9\s-]/g, " ")
     .replace(/-/g, " ")
     .replace(/\s+/g, " ")
@@ -90,7 +149,7 @@ const containsPhrase = (query: string, phrase: string): boolean => {
   return pattern.test(query);
 };
 
-const inferTownFromQuery = (query: string, towns: ActiveTown[]): ActiveTown | null => {
+export const inferTownFromQuery = (query: string, towns: ActiveTown[]): ActiveTown | null => {
   const normalizedQuery = normalizeForMatch(query);
   if (!normalizedQuery) return null;
 
@@ -1,4 +1,7 @@
-import { RaycastResponse, AskPayload } from "../types";
+import { apiUrls, requestJson } from "./api-client";
+import { DEFAULT_TIMEZONE } from "./date-format";
+import { fieldReader, isRecord, PayloadIssue, payloadIssue, rejectPayload, reportPayloadCheck } from "./payload-validation";
+import { RaycastEvent, RaycastResponse, RaycastTown, AskPayload } from "../types";
 
 const sanitizeQuery = (query: string): string => {
   const trimmed = String(query || "").trim().replace(/\s+/g, " ");
@@ -19,72 +22,125 @@ const sanitizeLocale = (locale: string): string => {
   return value;
 };
 
-export const normalizeApiBaseUrl = (apiBaseUrl: string): string => {
-  const value = String(apiBaseUrl || "").trim();
-  if (!value) {
-    throw new Error("TownSpot API Base URL is required.");
+const parseTown = (value: unknown, issues: PayloadIssue[]): RaycastTown | null => {
+  if (!isRecord(value)) {
+    issues.push(payloadIssue("town", "object", value, true));
+    return null;
   }
-  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
-    return `http://${value}`;
-  }
-  return value;
+  const field = fieldReader(value, "town", issues);
+  const name = field.string("name");
+  const slug = field.string("slug");
+  if (!name || !slug) return null;
+  const timezone = typeof value.timezone === "string" && value.timezone.trim() ? value.timezone : null;
+  if (!timezone) issues.push(payloadIssue("town.timezone", "time zone name", value.timezone, false));
+  return {
+    name,
+    slug,
+    timezone: timezone || DEFAULT_TIMEZONE,
+    countryCode: field.optionalString("countryCode") || undefined,
+  };
 };
 
-const buildLocalEndpointCandidates = (baseUrl: string): string[] => {
-  const normalized = baseUrl.replace(/\/$/, "");
-  const endpoint = `${normalized}/raycast/query`;
-  return [...new Set([endpoint, endpoint.replace("localhost", "127.0.0.1")])];
+// Events without an id, title or usable start time can't be listed, so they're skipped.
+const parseEvent = (value: unknown, path: string, issues: PayloadIssue[]): RaycastEvent | null => {
+  if (!isRecord(value)) {
+    issues.push(payloadIssue(path, "object", value, true));
+    return null;
+  }
+  const field = fieldReader(value, path, issues);
+  const id = field.id("id");
+  const title = field.string("title");
+  const startTime = field.date("startTime");
+  if (!id || !title || !startTime) return null;
+  return {
+    id,
+    title,
+    startTime,
+    endTime: field.optionalDate("endTime"),
+    venueName: field.optionalString("venueName") || "",
+    startLabel: field.optionalString("startLabel") || "",
+    tags: field.stringList("tags"),
+    url: field.optionalString("url") || "",
+    lat: field.optionalNumber("lat"),
+    lng: field.optionalNumber("lng"),
+    priceInfo: field.optionalString("priceInfo"),
+    isFree: field.optionalBoolean("isFree"),
+  };
 };
 
-const buildFailureMessage = (endpoint: string, details: string): string =>
-  `Could not reach TownSpot at ${endpoint}. Verify the server is running and reachable. ` +
-  `Try ${endpoint.replace("localhost", "127.0.0.1")} for 127.0.0.1 fallback. (${details})`;
-
-export const askTownspot = async (payload: AskPayload): Promise<RaycastResponse> => {
-  const query = sanitizeQuery(payload.query);
-  const townSlug = sanitizeTownSlug(payload.townSlug);
-  const locale = sanitizeLocale(payload.locale);
-  const apiBaseUrl = normalizeApiBaseUrl(payload.apiBaseUrl);
-  const candidateEndpoints = buildLocalEndpointCandidates(apiBaseUrl);
+export type ResponsePage = {
+  offset: number;
+  limit: number;
+};
 
-  let response: Response | undefined;
-  let lastError: Error | undefined;
+// Without `hasMore` from the server, a full page is taken to mean there may be more.
+const nextPageOffset = (
+  field: ReturnType<typeof fieldReader>,
+  rawCount: number,
+  page: ResponsePage | undefined,
+): number | null => {
+  if (!page) return null;
+  const hasMore = field.optionalBoolean("hasMore");
+  if (hasMore === null ? rawCount < page.limit : !hasMore) return null;
+  return rawCount > 0 ? page.offset + rawCount : null;
+};
 
-  for (const endpoint of candidateEndpoints) {
-    try {
-      response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-        body: JSON.stringify({
-          query,
-          townSlug,
-          locale,
-          limit: payload.limit || 8,
-          conversation: payload.conversation || [],
-        }),
-      });
-      break;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error("unknown network error");
-      response = undefined;
-    }
+export const parseRaycastResponse = (
+  payload: unknown,
+  url: string,
+  label: string,
+  page?: ResponsePage,
+): RaycastResponse => {
+  const issues: PayloadIssue[] = [];
+  const check = { source: "query" as const, label, url, itemCount: 0, droppedCount: 0, issues };
+  if (!isRecord(payload)) {
+    issues.push(payloadIssue("", "object", payload, true));
+    return rejectPayload(check);
   }
-
-  if (!response) {
-    const details = lastError?.message || "unknown network error";
-    throw new Error(buildFailureMessage(candidateEndpoints[0], details));
+  if (!Array.isArray(payload.events)) {
+    issues.push(payloadIssue("events", "array", payload.events, true));
+    return rejectPayload(check);
   }
 
-  const checkedEndpoint = response.url || candidateEndpoints[0];
+  const town = parseTown(payload.town, issues);
+  if (!town) return rejectPayload(check);
 
-  if (!response.ok) {
-    const details = await response.text();
-    throw new Error(`TownSpot query failed (${response.status}) at ${checkedEndpoint}: ${details || response.statusText}`);
-  }
+  const events = payload.events
+    .map((event, index) => parseEvent(event, `events[${index}]`, issues))
+    .filter((event): event is RaycastEvent => Boolean(event));
+  const field = fieldReader(payload, "", issues);
+  const response = {
+    answer: field.optionalString("answer") || "",
+    events,
+    town,
+    suggestions: field.stringList("suggestions"),
+    nextOffset: nextPageOffset(field, payload.events.length, page),
+  };
+  reportPayloadCheck({
+    ...check,
+    itemCount: payload.events.length,
+    droppedCount: payload.events.length - events.length,
+  });
+  return response;
+};
 
-  const body = (await response.json()) as RaycastResponse;
-  return body;
+export const askTownspot = async (payload: AskPayload): Promise<RaycastResponse> => {
+  const page = { offset: Math.max(0, Math.floor(payload.offset || 0)), limit: payload.limit || 8 };
+  return requestJson(
+    apiUrls(payload.apiBaseUrl, "/raycast/query"),
+    {
+      method: "POST",
+      body: {
+        query: sanitizeQuery(payload.query),
+        townSlug: sanitizeTownSlug(payload.townSlug),
+        locale: sanitizeLocale(payload.locale),
+        limit: page.limit,
+        offset: page.offset,
+        conversation: payload.conversation || [],
+      },
+      timeoutMs: payload.timeoutMs,
+      signal: payload.signal,
+    },
+    (response, url) => parseRaycastResponse(response, url, sanitizeTownSlug(payload.townSlug), page),
+  );
 };
@@ -0,0 +1,97 @@
+import { LocalStorage } from "@raycast/api";
+import { readCachedEventDetails } from "./event-details";
+import { hasEventEnded } from "./event-listing";
+import { foldText } from "./i18n";
+import { RaycastEvent } from "../types";
+
+export const FOLLOWED_VENUES_STORAGE_KEY = "townspot-followed-venues";
+
+export type FollowedVenue = {
+  key: string;
+  name: string;
+  followedAt: string;
+};
+
+export type VenueSummary = {
+  key: string;
+  name: string;
+  // Upcoming events at the venue, soonest first.
+  events: RaycastEvent[];
+};
+
+export const venueKey = (name: string): string =>
+  foldText(name || "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+// Listings name the venue; fetched details fill in a location name when the listing doesn't.
+export const eventVenueName = (event: RaycastEvent): string =>
+  String(event.venueName || "").trim() ||
+  String(readCachedEventDetails(event.id)?.locationName || "").trim();
+
+const startMs = (event: RaycastEvent): number => {
+  const parsed = Date.parse(event.startTime || "");
+  return Number.isNaN(parsed) ? Number.POSITIVE_INFINITY : parsed;
+};
+
+// Busiest venues first, then alphabetical.
+export const groupEventsByVenue = (events: RaycastEvent[], nowMs = Date.now()): VenueSummary[] => {
+  const venues = new Map<string, VenueSummary>();
+  for (const event of events) {
+    if (hasEventEnded(event, nowMs)) continue;
+    const name = eventVenueName(event);
+    const key = venueKey(name);
+    if (!key) continue;
+    const venue = venues.get(key) || { key, name, events: [] };
+    if (venue.events.some((item) => item.id === event.id)) continue;
+    venue.events.push(event);
+    venues.set(key, venue);
+  }
+
+  return [...venues.values()]
+    .map((venue) => ({ ...venue, events: [...venue.events].sort((a, b) => startMs(a) - startMs(b)) }))
+    .sort((a, b) => b.events.length - a.events.length || a.name.localeCompare(b.name));
+};
+
+const isFollowedVenue = (value: unknown): value is FollowedVenue => {
+  const candidate = value as FollowedVenue | null;
+  return Boolean(
+    candidate &&
+      typeof candidate === "object" &&
+      typeof candidate.key === "string" &&
+      typeof candidate.name === "string",
+  );
+};
+
+export const loadFollowedVenues = async (): Promise<FollowedVenue[]> => {
+  const stored = await LocalStorage.getItem<string>(FOLLOWED_VENUES_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isFollowedVenue) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeFollowedVenues = async (venues: FollowedVenue[]): Promise<void> => {
+  await LocalStorage.setItem(FOLLOWED_VENUES_STORAGE_KEY, JSON.stringify(venues));
+};
+
+export const addFollowedVenue = async (name: string): Promise<FollowedVenue[]> => {
+  const key = venueKey(name);
+  const venues = await loadFollowedVenues();
+  const next = [
+    ...venues.filter((venue) => venue.key !== key),
+    { key, name: name.trim(), followedAt: new Date().toISOString() },
+  ];
+  await writeFollowedVenues(next);
+  return next;
+};
+
+export const removeFollowedVenue = async (key: string): Promise<FollowedVenue[]> => {
+  const venues = await loadFollowedVenues();
+  const next = venues.filter((venue) => venue.key !== key);
+  await writeFollowedVenues(next);
+  return next;
+};
@@ -1,3 +1,5 @@
+import { request, TownSpotHttpError } from "./api-client";
+
 export type WaitlistPayload = {
   email: string;
   location: string;
@@ -6,38 +8,36 @@ export type WaitlistPayload = {
 
 const defaultError = "Something went wrong. Please try again.";
 
-const toErrorMessage = async (response: Response): Promise<string> => {
+const toErrorMessage = (body: string): string => {
   try {
-    const payload = (await response.json()) as { message?: string; error?: string };
+    const payload = JSON.parse(body) as { message?: string; error?: string };
     return payload.message || payload.error || defaultError;
   } catch {
     return defaultError;
   }
 };
 
+// Not retried, so a slow response can't turn into a duplicate signup.
 export const submitWaitlist = async (
   endpointUrl: string,
   payload: WaitlistPayload,
 ): Promise<void> => {
-  const response = await fetch(endpointUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: JSON.stringify({
-      email: payload.email.trim(),
-      location: payload.location.trim(),
-      message: payload.message?.trim() || null,
-      honeypot: "",
-    }),
-  });
-
-  if (response.status === 429) {
-    throw new Error("Too many submissions. Please try again later.");
-  }
-
-  if (!response.ok) {
-    throw new Error(await toErrorMessage(response));
+  try {
+    await request(endpointUrl, {
+      method: "POST",
+      body: {
+        email: payload.email.trim(),
+        location: payload.location.trim(),
+        message: payload.message?.trim() || null,
+        honeypot: "",
+      },
+      retries: 0,
+    });
+  } catch (error) {
+    if (!(error instanceof TownSpotHttpError)) throw error;
+    if (error.status === 429) {
+      throw new Error("Too many submissions. Please try again later.");
+    }
+    throw new Error(toErrorMessage(error.body));
   }
 };
@@ -1,4 +1,6 @@
-import { normalizeApiBaseUrl, sanitizeTownSlug } from "./townspot";
+import { apiUrls, requestJson } from "./api-client";
+import { fieldReader, isRecord, PayloadIssue, payloadIssue, rejectPayload, reportPayloadCheck } from "./payload-validation";
+import { sanitizeTownSlug } from "./townspot";
 
 export type ActiveZoneOption = {
   id: number;
@@ -15,88 +17,55 @@ export type ActiveZoneGroup = {
   zones: ActiveZoneOption[];
 };
 
-type RawZone = {
-  id?: number;
-  name?: string;
-  slug?: string;
-  country_code?: string;
-  countryCode?: string;
-  activeUsers?: number | string;
-  weeklyEventsCount?: number | string;
-  active?: boolean;
-  hidden?: boolean;
-};
-
-const toActiveZoneOption = (zone: RawZone): ActiveZoneOption | null => {
-  const id = Number(zone.id);
-  const slug = sanitizeTownSlug(zone.slug || "");
-  const name = String(zone.name || "").trim();
+// Hidden and inactive zones are expected in the list and skipped quietly; malformed ones are reported.
+const parseZone = (value: unknown, path: string, issues: PayloadIssue[]): ActiveZoneOption | null => {
+  if (!isRecord(value)) {
+    issues.push(payloadIssue(path, "object", value, true));
+    return null;
+  }
+  if (value.hidden === true || value.active === false) return null;
 
-  if (!Number.isFinite(id) || !slug || !name) return null;
-  if (zone.hidden === true) return null;
-  if (zone.active === false) return null;
-  const activeUsers = Number(zone.activeUsers);
-  const weeklyEventsCount = Number(zone.weeklyEventsCount);
+  const field = fieldReader(value, path, issues);
+  const id = field.number("id");
+  const name = field.string("name")?.trim();
+  const slug = sanitizeTownSlug(field.string("slug") || "");
+  if (id === undefined || !name || !slug) return null;
+  const activeUsers = field.optionalNumber("activeUsers");
+  const weeklyEventsCount = field.optionalNumber("weeklyEventsCount");
 
   return {
     id,
     name,
     slug,
-    countryCode: zone.country_code || zone.countryCode || undefined,
-    activeUsers: Number.isFinite(activeUsers) ? activeUsers : undefined,
-    weeklyEventsCount: Number.isFinite(weeklyEventsCount)
-      ? weeklyEventsCount
-      : undefined,
+    countryCode: field.optionalString("country_code") || field.optionalString("countryCode") || undefined,
+    activeUsers: activeUsers ?? undefined,
+    weeklyEventsCount: weeklyEventsCount ?? undefined,
   };
 };
 
-const fetchFromEndpoint = async (endpoint: string): Promise<Response> =>
-  fetch(endpoint, {
-    headers: {
-      Accept: "application/json",
-    },
-  });
-
-export const fetchActiveZones = async (
-  apiBaseUrl: string,
-): Promise<ActiveZoneOption[]> => {
-  const normalizedBaseUrl = normalizeApiBaseUrl(apiBaseUrl).replace(/\/$/, "");
-  const endpoints = [
-    `${normalizedBaseUrl}/locations/list`,
-    `${normalizedBaseUrl}/list`,
-  ];
-
-  let response: Response | null = null;
-  let lastStatus = 0;
-
-  for (const endpoint of endpoints) {
-    try {
-      const current = await fetchFromEndpoint(endpoint);
-      if (current.ok) {
-        response = current;
-        break;
-      }
-      lastStatus = current.status;
-    } catch {
-      lastStatus = 0;
-    }
-  }
-
-  if (!response) {
-    throw new Error(`Could not load active towns (${lastStatus || "network"})`);
+export const parseActiveZones = (payload: unknown, url: string): ActiveZoneOption[] => {
+  const issues: PayloadIssue[] = [];
+  const check = { source: "zones" as const, label: "zones", url, itemCount: 0, droppedCount: 0, issues };
+  if (!Array.isArray(payload)) {
+    issues.push(payloadIssue("", "array of zones", payload, true));
+    return rejectPayload(check);
   }
 
-  const payload = (await response.json()) as RawZone[];
-  const rawZones = Array.isArray(payload) ? payload : [];
-
-  const options = rawZones
-    .map(toActiveZoneOption)
+  const options = payload
+    .map((zone, index) => parseZone(zone, `[${index}]`, issues))
     .filter((item): item is ActiveZoneOption => Boolean(item))
     .sort((a, b) => a.name.localeCompare(b.name));
-
+  const droppedCount = new Set(issues.filter((issue) => issue.dropped).map((issue) => issue.path.split(".")[0])).size;
+  reportPayloadCheck({ ...check, itemCount: payload.length, droppedCount });
   return options;
 };
 
+export const fetchActiveZones = async (
+  apiBaseUrl: string,
+  signal?: AbortSignal,
+): Promise<ActiveZoneOption[]> =>
+  requestJson(apiUrls(apiBaseUrl, "/locations/list", "/list"), { signal }, parseActiveZones);
+
 const COUNTRY_LABELS: Record<string, string> = {
   uk: "United Kingdom",
   es: "Spain",
@@ -0,0 +1,155 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { useMemo } from "react";
+import { useEnvironmentSubtitle } from "./hooks/use-environment-subtitle";
+import { useSavedEvents } from "./hooks/use-saved-events";
+import { resolveApiEnvironment } from "./lib/api-environment";
+import { DateFormatOptions, dateFormatPreferences } from "./lib/date-format";
+import {
+  EventDaySection,
+  formatEventTime,
+  groupEventsByDay,
+  relativeStartTag,
+  resolveEventUrl,
+} from "./lib/event-listing";
+import { getMessages } from "./lib/i18n";
+import { SavedEvent } from "./lib/saved-events";
+import { EventDetailView } from "./views/event-detail-view";
+
+const API_BASE_URL = resolveApiEnvironment().apiBaseUrl;
+const SMALL_DOT = "·";
+
+type PlanSection = {
+  id: string;
+  title: string;
+  entries: SavedEvent[];
+};
+
+// Saved events can span towns, so each town's timezone decides its own day buckets.
+const groupPlansByDay = (entries: SavedEvent[], dateFormat: DateFormatOptions): PlanSection[] => {
+  const byTimezone = new Map<string, SavedEvent[]>();
+  for (const entry of entries) {
+    const existing = byTimezone.get(entry.timezone) || [];
+    existing.push(entry);
+    byTimezone.set(entry.timezone, existing);
+  }
+
+  const sections = new Map<string, PlanSection>();
+  for (const [timezone, items] of byTimezone.entries()) {
+    const byId = new Map(items.map((item) => [item.event.id, item]));
+    const daySections: EventDaySection[] = groupEventsByDay(
+      items.map((item) => item.event),
+      timezone,
+      dateFormat,
+    );
+    for (const section of daySections) {
+      const existing = sections.get(section.id) || {
+        id: section.id,
+        title: section.title,
+        entries: [],
+      };
+      for (const event of section.events) {
+        const entry = byId.get(event.id);
+        if (entry) existing.entries.push(entry);
+      }
+      sections.set(section.id, existing);
+    }
+  }
+
+  return Array.from(sections.values())
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((section) => ({
+      ...section,
+      entries: [...section.entries].sort(
+        (a, b) => Date.parse(a.event.startTime) - Date.parse(b.event.startTime),
+      ),
+    }));
+};
+
+export default function Command() {
+  const { savedEvents, isLoading, toggleSaved, reload } = useSavedEvents();
+  const dateFormat = useMemo(dateFormatPreferences, []);
+  const sections = useMemo(() => groupPlansByDay(savedEvents, dateFormat), [dateFormat, savedEvents]);
+  const messages = getMessages();
+  useEnvironmentSubtitle();
+
+  return (
+    <List
+      navigationTitle={messages.myPlans}
+      isLoading={isLoading}
+      searchBarPlaceholder={messages.filterSavedEvents}
+    >
+      {!isLoading && !sections.length ? (
+        <List.EmptyView
+          title={messages.noSavedPlans}
+          description={messages.noSavedPlansHint}
+          icon={Icon.Star}
+        />
+      ) : null}
+      {sections.map((section) => (
+        <List.Section key={section.id} title={section.title}>
+          {section.entries.map((entry) => {
+            const { event } = entry;
+            const resolvedEventUrl = resolveEventUrl(event.url);
+            const timeLabel = formatEventTime(event.startTime, entry.timezone, dateFormat);
+            const liveTag = relativeStartTag(event, dateFormat);
+            const title = [timeLabel, event.title].filter(Boolean).join("  ");
+            const subtitle = [liveTag ? `${SMALL_DOT} ${liveTag}` : "", entry.townName || ""]
+              .filter(Boolean)
+              .join(" ");
+
+            return (
+              <List.Item
+                key={event.id}
+                title={title}
+                subtitle={subtitle}
+                keywords={[event.venueName, entry.townName || entry.townSlug].filter(Boolean)}
+                icon={{ source: Icon.Star, tintColor: Color.Yellow }}
+                accessories={[
+                  {
+                    icon: Icon.Pin,
+                    text: { value: event.venueName || entry.townName || "", color: Color.SecondaryText },
+                  },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Section title={messages.event}>
+                      <Action.Push
+                        title={messages.viewEventDetails}
+                        target={
+                          <EventDetailView
+                            event={event}
+                            timezone={entry.timezone}
+                            url={resolvedEventUrl}
+                            apiBaseUrl={API_BASE_URL}
+                            townSlug={entry.townSlug}
+                            townName={entry.townName}
+                            onSavedChange={() => {
+                              void reload();
+                            }}
+                          />
+                        }
+                      />
+                      <Action.OpenInBrowser title={messages.openOnWebsite} url={resolvedEventUrl} />
+                      <Action.CopyToClipboard title={messages.copyEventLink} content={resolvedEventUrl} />
+                    </ActionPanel.Section>
+                    <ActionPanel.Section title={messages.myPlans}>
+                      <Action
+                        title={messages.removeFromMyPlans}
+                        icon={Icon.StarDisabled}
+                        style={Action.Style.Destructive}
+                        shortcut={{ modifiers: ["cmd"], key: "s" }}
+                        onAction={() => {
+                          void toggleSaved(entry);
+                        }}
+                      />
+                    </ActionPanel.Section>
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
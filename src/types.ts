@@ -14,6 +14,10 @@ export type RaycastEvent = {
   startLabel: string;
   tags: string[];
   url: string;
+  lat?: number | null;
+  lng?: number | null;
+  priceInfo?: string | null;
+  isFree?: boolean | null;
 };
 
 export type RaycastResponse = {
@@ -21,6 +25,8 @@ export type RaycastResponse = {
   events: RaycastEvent[];
   town: RaycastTown;
   suggestions: string[];
+  // Offset to request the next page from; null or missing once the listing is complete.
+  nextOffset?: number | null;
 };
 
 export type AskPayload = {
@@ -28,6 +34,17 @@ export type AskPayload = {
   townSlug: string;
   locale: string;
   limit?: number;
+  // Number of events to skip, for requesting later pages.
+  offset?: number;
   conversation?: string[];
   apiBaseUrl: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+};
+
+export type EventLaunchContext = {
+  event: RaycastEvent;
+  townSlug: string;
+  townName?: string;
+  timezone: string;
 };
@@ -0,0 +1,84 @@
+import { Action, ActionPanel, Color, Icon, List, showToast, Toast } from "@raycast/api";
+import { useState } from "react";
+import { dateFormatPreferences, formatTimeAgo } from "../lib/date-format";
+import { getMessages } from "../lib/i18n";
+import { clearPayloadReports, loadPayloadReports, PayloadReport } from "../lib/payload-validation";
+
+// Lists the payloads that failed validation, one section per resource, one row per failing field.
+export const ApiDiagnosticsView = () => {
+  const messages = getMessages();
+  const dateFormat = dateFormatPreferences();
+  const [reports, setReports] = useState<PayloadReport[]>(loadPayloadReports);
+
+  const clearAction = (
+    <Action
+      title={messages.clearDiagnostics}
+      icon={Icon.Trash}
+      style={Action.Style.Destructive}
+      shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+      onAction={async () => {
+        clearPayloadReports();
+        setReports([]);
+        await showToast({ style: Toast.Style.Success, title: messages.diagnosticsCleared });
+      }}
+    />
+  );
+
+  const sectionSubtitle = (report: PayloadReport): string =>
+    [
+      formatTimeAgo(report.checkedAt, dateFormat),
+      report.rejected
+        ? messages.payloadRejected
+        : report.itemCount > 1
+          ? messages.payloadSkippedCount(report.droppedCount, report.itemCount)
+          : "",
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <List navigationTitle={messages.apiDiagnostics}>
+      <List.EmptyView
+        icon={Icon.CheckCircle}
+        title={messages.noPayloadIssues}
+        description={messages.noPayloadIssuesHint}
+      />
+      {reports.map((report) => (
+        <List.Section
+          key={`${report.source}:${report.label}`}
+          title={`${messages.payloadSources[report.source]} · ${report.label}`}
+          subtitle={sectionSubtitle(report)}
+        >
+          {report.issues.map((issue, index) => (
+            <List.Item
+              key={`${issue.path}:${index}`}
+              title={issue.path || "/"}
+              subtitle={messages.payloadIssueSubtitle(issue.expected, issue.received)}
+              icon={{
+                source: issue.dropped ? Icon.XMarkCircle : Icon.Warning,
+                tintColor: issue.dropped ? Color.Red : Color.Yellow,
+              }}
+              accessories={[
+                {
+                  tag: {
+                    value: issue.dropped ? messages.payloadIssueSkipped : messages.payloadIssueDefaulted,
+                    color: issue.dropped ? Color.Red : Color.Yellow,
+                  },
+                },
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action.CopyToClipboard
+                    title={messages.copyPayloadReport}
+                    content={JSON.stringify(report, null, 2)}
+                  />
+                  {clearAction}
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+};
@@ -1,30 +1,34 @@
 import { Action, ActionPanel, Color, Icon, List, useNavigation } from "@raycast/api";
+import { getMessages } from "../lib/i18n";
 
 type CategoryPickerViewProps = {
   categories: string[];
   selectedCategory: string;
   onSelect: (category: string) => void;
+  categoryLabel: (category: string) => string;
 };
 
 export const CategoryPickerView = ({
   categories,
   selectedCategory,
   onSelect,
+  categoryLabel,
 }: CategoryPickerViewProps) => {
   const { pop } = useNavigation();
+  const messages = getMessages();
 
   return (
-    <List navigationTitle="Choose Category">
-      <List.Section title="Categories">
+    <List navigationTitle={messages.chooseCategory}>
+      <List.Section title={messages.categories}>
         {categories.map((category) => (
           <List.Item
             key={category}
-            title={category}
+            title={categoryLabel(category)}
             icon={category === selectedCategory ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Circle}
             actions={
               <ActionPanel>
                 <Action
-                  title={`Use ${category}`}
+                  title={messages.use(categoryLabel(category))}
                   onAction={() => {
                     onSelect(category);
                     pop();
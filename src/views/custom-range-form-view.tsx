@@ -0,0 +1,72 @@
+import { Action, ActionPanel, Form, popToRoot, showToast, Toast } from "@raycast/api";
+import { CustomDateRange, toDateKey } from "../lib/event-listing";
+import { getMessages } from "../lib/i18n";
+
+type CustomRangeFormValues = {
+  startDate: Date | null;
+  endDate: Date | null;
+};
+
+type CustomRangeFormViewProps = {
+  initialRange: CustomDateRange | null;
+  onSubmit: (range: CustomDateRange) => void;
+};
+
+const fromDateKey = (dateKey: string | undefined): Date | undefined => {
+  if (!dateKey) return undefined;
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const parsed = new Date(year, month - 1, day);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+export const CustomRangeFormView = ({ initialRange, onSubmit }: CustomRangeFormViewProps) => {
+  const messages = getMessages();
+
+  const handleSubmit = async (values: CustomRangeFormValues): Promise<void> => {
+    if (!values.startDate) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.chooseStartDate,
+      });
+      return;
+    }
+
+    const startDate = toDateKey(values.startDate);
+    const endDate = values.endDate ? toDateKey(values.endDate) : startDate;
+    if (endDate < startDate) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.endBeforeStart,
+      });
+      return;
+    }
+
+    onSubmit({ startDate, endDate });
+    await popToRoot();
+  };
+
+  return (
+    <Form
+      navigationTitle={messages.customRange}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title={messages.showEventsInRange} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={messages.customRangeHint} />
+      <Form.DatePicker
+        id="startDate"
+        title={messages.from}
+        type={Form.DatePicker.Type.Date}
+        defaultValue={fromDateKey(initialRange?.startDate) || new Date()}
+      />
+      <Form.DatePicker
+        id="endDate"
+        title={messages.to}
+        type={Form.DatePicker.Type.Date}
+        defaultValue={fromDateKey(initialRange?.endDate)}
+      />
+    </Form>
+  );
+};
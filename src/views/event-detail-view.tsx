@@ -1,5 +1,30 @@
-import { Action, ActionPanel, Detail, Image } from "@raycast/api";
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  Icon,
+  Image,
+  open,
+  showToast,
+  Toast,
+} from "@raycast/api";
 import { useEffect, useMemo, useState } from "react";
+import { useSavedEvents } from "../hooks/use-saved-events";
+import { describeApiError } from "../lib/api-client";
+import {
+  buildCalendarFile,
+  calendarEntryFromDetails,
+  calendarFileName,
+  googleCalendarUrl,
+  saveCalendarFile,
+} from "../lib/calendar";
+import {
+  DateFormatOptions,
+  dateFormatPreferences,
+  formatShortDate,
+  formatTimeRange,
+  parseDateValue,
+} from "../lib/date-format";
 import {
   appleMapsUrl,
   EventDetails,
@@ -8,6 +33,7 @@ import {
 } from "../lib/event-details";
 import { formatEventTime } from "../lib/event-listing";
 import { splitEventTags } from "../lib/event-tags";
+import { getMessages, Messages } from "../lib/i18n";
 import { RaycastEvent } from "../types";
 
 type EventDetailViewProps = {
@@ -15,92 +41,9 @@ type EventDetailViewProps = {
   timezone: string;
   url: string;
   apiBaseUrl: string;
-};
-
-const parseDateValue = (value: string | undefined | null): Date | null => {
-  if (!value) return null;
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) return null;
-  return parsed;
-};
-
-const formatClock = (value: Date | null, timezone: string): string => {
-  if (!value) return "";
-  return new Intl.DateTimeFormat("en-GB", {
-    timeZone: timezone || "Europe/London",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).format(value);
-};
-
-const formatDateLabel = (value: Date | null, timezone: string): string => {
-  if (!value) return "";
-  return new Intl.DateTimeFormat("en-GB", {
-    timeZone: timezone || "Europe/London",
-    weekday: "short",
-    day: "2-digit",
-    month: "short",
-  }).format(value);
-};
-
-const formatDateKey = (value: Date | null, timezone: string): string => {
-  if (!value) return "";
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: timezone || "Europe/London",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(value);
-};
-
-const formatDateTime = (value: Date | null, timezone: string): string => {
-  if (!value) return "TBC";
-  const dayLabel = formatDateLabel(value, timezone);
-  const timeLabel = formatClock(value, timezone);
-  if (dayLabel && timeLabel) return `${dayLabel}, ${timeLabel}`;
-  return dayLabel || timeLabel || "TBC";
-};
-
-const formatSpottedByDate = (value: Date | null, timezone: string): string => {
-  if (!value) return "";
-  return new Intl.DateTimeFormat("en-GB", {
-    timeZone: timezone || "Europe/London",
-    weekday: "short",
-    day: "2-digit",
-    month: "short",
-  }).format(value);
-};
-
-const formatTimeRange = (
-  startValue: string | undefined | null,
-  endValue: string | undefined | null,
-  timezone: string,
-): string => {
-  const startDate = parseDateValue(startValue);
-  const endDate = parseDateValue(endValue);
-  const start = formatDateTime(startDate, timezone);
-  if (!endDate) return start;
-
-  const end = formatDateTime(endDate, timezone);
-  if (start === "TBC") return end;
-  if (end === "TBC") return start;
-  if (startDate && endDate && startDate.getTime() === endDate.getTime()) return start;
-  if (start === end) return start;
-
-  const sameDay = formatDateKey(startDate, timezone) === formatDateKey(endDate, timezone);
-  if (sameDay) {
-    const dayLabel = formatDateLabel(startDate, timezone);
-    const startClock = formatClock(startDate, timezone);
-    const endClock = formatClock(endDate, timezone);
-    if (dayLabel && startClock && endClock) {
-      if (startClock === endClock) return `${dayLabel}, ${startClock}`;
-      return `${dayLabel}, ${startClock} to ${endClock}`;
-    }
-    return start;
-  }
-
-  return `${start} to ${end}`;
+  townSlug: string;
+  townName?: string;
+  onSavedChange?: () => void;
 };
 
 const escapeMarkdown = (value: string): string =>
@@ -156,35 +99,37 @@ const fallbackAddress = (details: EventDetails | null): string => {
   return details?.locationAddress || details?.venueDescription || "";
 };
 
-const recurringLabel = (event: RaycastEvent): string | null => {
+const recurringLabel = (event: RaycastEvent, messages: Messages): string | null => {
   const frequency = splitEventTags(event.tags).frequency;
   if (!frequency) return null;
   if (frequency.toLowerCase() === "one-off") return null;
-  return `${frequency} recurring event`;
+  return messages.recurringEvent(frequency);
 };
 
-const priceLabel = (details: EventDetails | null): string | null => {
+const priceLabel = (details: EventDetails | null, messages: Messages): string | null => {
   const explicit = String(details?.priceInfo || "").trim();
   if (explicit) return explicit;
-  if (details?.isFree === true) return "Free";
-  if (details?.isFree === false) return "Paid";
+  if (details?.isFree === true) return messages.free;
+  if (details?.isFree === false) return messages.paid;
   return null;
 };
 
 const spottedByLabel = (
   details: EventDetails | null,
   timezone: string,
+  messages: Messages,
+  dateFormat: DateFormatOptions,
 ): string => {
   const spottedBy = details?.spottedBy;
-  const name = String(spottedBy?.name || "").trim() || "a local";
+  const name = String(spottedBy?.name || "").trim() || messages.aLocal;
   const org = String(spottedBy?.org || "").trim();
   const spottedAt = parseDateValue(spottedBy?.spottedAt || details?.createdAt);
   const parts: string[] = [];
 
   if (org) parts.push(org);
-  if (spottedBy?.isAreaAdmin) parts.push("Admin");
+  if (spottedBy?.isAreaAdmin) parts.push(messages.admin);
 
-  const spottedDate = formatSpottedByDate(spottedAt, timezone);
+  const spottedDate = formatShortDate(spottedAt, timezone, dateFormat);
   if (spottedDate) parts.push(spottedDate);
 
   return parts.length ? `${name} · ${parts.join(" · ")}` : name;
@@ -245,47 +190,49 @@ const EventMetadata = ({
   event: RaycastEvent;
   url: string;
 }) => {
+  const messages = getMessages();
+  const dateFormat = dateFormatPreferences();
   const effectiveTimezone = details?.resolvedTimezone || details?.timezone || timezone;
   const startValue = details?.startTimeLocal || details?.startTime || event.startTime;
   const endValue = details?.endTimeLocal || details?.endTime || event.endTime;
-  const timeRangeLabel = formatTimeRange(startValue, endValue, effectiveTimezone);
+  const timeRangeLabel = formatTimeRange(startValue, endValue, effectiveTimezone, dateFormat);
   const venueLabel = fallbackVenue(details, event);
   const addressLabel = fallbackAddress(details);
-  const recurring = recurringLabel(event);
-  const price = priceLabel(details);
+  const recurring = recurringLabel(event, messages);
+  const price = priceLabel(details, messages);
   const categories = categoryList(details, event);
-  const spottedBy = spottedByLabel(details, effectiveTimezone);
+  const spottedBy = spottedByLabel(details, effectiveTimezone, messages, dateFormat);
   const spottedByIcon = spottedByAvatarIcon(details);
 
   return (
     <Detail.Metadata>
-      <Detail.Metadata.Label title="When" text={timeRangeLabel} />
+      <Detail.Metadata.Label title={messages.when} text={timeRangeLabel} />
       <Detail.Metadata.Separator />
-      <Detail.Metadata.Label title="Where" text={venueLabel} />
+      <Detail.Metadata.Label title={messages.where} text={venueLabel} />
       <Detail.Metadata.Separator />
-      <Detail.Metadata.Label title="Spotted by" text={spottedBy} icon={spottedByIcon} />
+      <Detail.Metadata.Label title={messages.spottedBy} text={spottedBy} icon={spottedByIcon} />
       <Detail.Metadata.Separator />
       {addressLabel ? (
         <>
-          <Detail.Metadata.Label title="Address" text={addressLabel} />
+          <Detail.Metadata.Label title={messages.address} text={addressLabel} />
           <Detail.Metadata.Separator />
         </>
       ) : null}
       {recurring ? (
         <>
-          <Detail.Metadata.Label title="Recurrence" text={recurring} />
+          <Detail.Metadata.Label title={messages.recurrence} text={recurring} />
           <Detail.Metadata.Separator />
         </>
       ) : null}
       {price ? (
         <>
-          <Detail.Metadata.Label title="Price" text={price} />
+          <Detail.Metadata.Label title={messages.price} text={price} />
           <Detail.Metadata.Separator />
         </>
       ) : null}
       {categories.length ? (
         <>
-          <Detail.Metadata.TagList title="Categories">
+          <Detail.Metadata.TagList title={messages.categories}>
             {categories.map((category) => (
               <Detail.Metadata.TagList.Item key={category} text={category} />
             ))}
@@ -295,11 +242,11 @@ const EventMetadata = ({
       ) : null}
       {details?.zoneName ? (
         <>
-          <Detail.Metadata.Label title="Town" text={details.zoneName} />
+          <Detail.Metadata.Label title={messages.town} text={details.zoneName} />
           <Detail.Metadata.Separator />
         </>
       ) : null}
-      <Detail.Metadata.Link title="TownSpot Link" target={url} text="Open listing" />
+      <Detail.Metadata.Link title={messages.townSpotLink} target={url} text={messages.openListing} />
     </Detail.Metadata>
   );
 };
@@ -309,25 +256,32 @@ export const EventDetailView = ({
   timezone,
   url,
   apiBaseUrl,
+  townSlug,
+  townName,
+  onSavedChange,
 }: EventDetailViewProps) => {
+  const { isSaved, toggleSaved } = useSavedEvents();
+  const messages = getMessages();
+  const dateFormat = dateFormatPreferences();
   const [details, setDetails] = useState<EventDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
   useEffect(() => {
     let cancelled = false;
+    const controller = new AbortController();
 
     const load = async () => {
       setLoading(true);
       setError("");
       try {
-        const payload = await fetchEventDetails(apiBaseUrl, event.id);
+        const payload = await fetchEventDetails(apiBaseUrl, event.id, controller.signal);
         if (cancelled) return;
         setDetails(payload);
       } catch (loadError) {
         if (cancelled) return;
         setDetails(null);
-        setError(loadError instanceof Error ? loadError.message : "Unable to load event details");
+        setError(describeApiError(loadError, messages, messages.unableToLoadDetails));
       } finally {
         if (!cancelled) {
           setLoading(false);
@@ -339,6 +293,7 @@ export const EventDetailView = ({
 
     return () => {
       cancelled = true;
+      controller.abort();
     };
   }, [apiBaseUrl, event.id]);
 
@@ -346,7 +301,7 @@ export const EventDetailView = ({
   const startValue = details?.startTimeLocal || details?.startTime || event.startTime;
   const endValue = details?.endTimeLocal || details?.endTime || event.endTime;
   const venueLabel = fallbackVenue(details, event);
-  const timeRangeLabel = formatTimeRange(startValue, endValue, effectiveTimezone);
+  const timeRangeLabel = formatTimeRange(startValue, endValue, effectiveTimezone, dateFormat);
 
   const mapsLabel = details?.locationName || details?.locationAddress || event.venueName;
   const hasCoordinates =
@@ -362,13 +317,44 @@ export const EventDetailView = ({
     ? googleMapsUrl(details.lat as number, details.lng as number, mapsLabel)
     : null;
 
+  const description = useMemo(
+    () => sanitizeDescription(details?.description || null),
+    [details],
+  );
+
   const detailMarkdown = useMemo(() => {
-    const description = sanitizeDescription(details?.description || null);
     const spottedBy = spottedByMarkdown(details, effectiveTimezone);
     return buildMarkdown(details?.title || event.title, description, spottedBy);
-  }, [details, effectiveTimezone, event.title]);
+  }, [description, details, effectiveTimezone, event.title]);
+
+  const calendarEntry = useMemo(
+    () => calendarEntryFromDetails({ event, details, url, description }),
+    [description, details, event, url],
+  );
 
-  const legacyTimeLabel = formatEventTime(event.startTime, effectiveTimezone);
+  const addToCalendar = async (): Promise<void> => {
+    if (!calendarEntry) return;
+    try {
+      const filePath = await saveCalendarFile(
+        calendarFileName(calendarEntry.title),
+        buildCalendarFile([calendarEntry], calendarEntry.title),
+      );
+      await open(filePath);
+      await showToast({
+        style: Toast.Style.Success,
+        title: messages.calendarFileCreated,
+        message: filePath,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.calendarExportFailed,
+        message: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const legacyTimeLabel = formatEventTime(event.startTime, effectiveTimezone, dateFormat);
   const shareMessage = buildShareMessage(
     details?.title || event.title,
     timeRangeLabel,
@@ -382,7 +368,7 @@ export const EventDetailView = ({
       isLoading={loading}
       markdown={
         error
-          ? `${detailMarkdown}\n\n---\n\n⚠️ Could not load full details (${error}).`
+          ? `${detailMarkdown}\n\n---\n\n⚠️ ${messages.couldNotLoadFullDetails(error)}`
           : detailMarkdown
       }
       metadata={
@@ -390,41 +376,66 @@ export const EventDetailView = ({
       }
       actions={
         <ActionPanel>
-          <ActionPanel.Section title="Quick Actions">
+          <ActionPanel.Section title={messages.quickActions}>
             <Action.OpenInBrowser
-              title="Open on TownSpot"
+              title={messages.openOnTownSpot}
               url={url}
               shortcut={{ modifiers: ["cmd"], key: "o" }}
             />
             <Action.OpenInBrowser
-              title="Share on WhatsApp"
+              title={messages.shareOnWhatsApp}
               url={whatsappUrl}
               shortcut={{ modifiers: ["cmd", "shift"], key: "w" }}
             />
+            <Action
+              title={isSaved(event.id) ? messages.removeFromMyPlans : messages.saveToMyPlans}
+              icon={isSaved(event.id) ? Icon.StarDisabled : Icon.Star}
+              shortcut={{ modifiers: ["cmd"], key: "s" }}
+              onAction={async () => {
+                await toggleSaved({ event, townSlug, townName, timezone });
+                onSavedChange?.();
+              }}
+            />
             {details?.sourceUrl ? (
               <Action.OpenInBrowser
-                title="Open Source URL"
+                title={messages.openSourceUrl}
                 url={details.sourceUrl}
                 shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
               />
             ) : null}
           </ActionPanel.Section>
+          {calendarEntry ? (
+            <ActionPanel.Section title={messages.calendar}>
+              <Action
+                title={messages.addToCalendar}
+                icon={Icon.Calendar}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                onAction={() => {
+                  void addToCalendar();
+                }}
+              />
+              <Action.OpenInBrowser
+                title={messages.addToGoogleCalendar}
+                url={googleCalendarUrl(calendarEntry)}
+              />
+            </ActionPanel.Section>
+          ) : null}
           {hasCoordinates ? (
-            <ActionPanel.Section title="Maps">
-              <Action.OpenInBrowser title="Open in Apple Maps" url={appleUrl as string} />
-              <Action.OpenInBrowser title="Open in Google Maps" url={googleUrl as string} />
+            <ActionPanel.Section title={messages.maps}>
+              <Action.OpenInBrowser title={messages.openInAppleMaps} url={appleUrl as string} />
+              <Action.OpenInBrowser title={messages.openInGoogleMaps} url={googleUrl as string} />
             </ActionPanel.Section>
           ) : null}
-          <ActionPanel.Section title="Copy">
-            <Action.CopyToClipboard title="Copy Share Message" content={shareMessage} />
-            <Action.CopyToClipboard title="Copy Event Link" content={url} />
-            <Action.CopyToClipboard title="Copy Event Name" content={event.title} />
+          <ActionPanel.Section title={messages.copy}>
+            <Action.CopyToClipboard title={messages.copyShareMessage} content={shareMessage} />
+            <Action.CopyToClipboard title={messages.copyEventLink} content={url} />
+            <Action.CopyToClipboard title={messages.copyEventName} content={event.title} />
             <Action.CopyToClipboard
-              title="Copy Event Time"
-              content={legacyTimeLabel || event.startLabel || "TBC"}
+              title={messages.copyEventTime}
+              content={legacyTimeLabel || event.startLabel || messages.timeToBeConfirmed}
             />
             {details?.locationAddress ? (
-              <Action.CopyToClipboard title="Copy Event Address" content={details.locationAddress} />
+              <Action.CopyToClipboard title={messages.copyEventAddress} content={details.locationAddress} />
             ) : null}
           </ActionPanel.Section>
         </ActionPanel>
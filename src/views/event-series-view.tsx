@@ -0,0 +1,94 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { useMemo } from "react";
+import { useSavedEvents } from "../hooks/use-saved-events";
+import { dateFormatPreferences, formatDayTitle, parseDateValue } from "../lib/date-format";
+import { formatEventTime, isEventLiveNow, resolveEventUrl } from "../lib/event-listing";
+import { EventSeries } from "../lib/event-series";
+import { getMessages } from "../lib/i18n";
+import { EventDetailView } from "./event-detail-view";
+
+type EventSeriesViewProps = {
+  series: EventSeries;
+  timezone: string;
+  apiBaseUrl: string;
+  townSlug: string;
+  townName?: string;
+  onSavedChange?: () => void;
+};
+
+export const EventSeriesView = ({
+  series,
+  timezone,
+  apiBaseUrl,
+  townSlug,
+  townName,
+  onSavedChange,
+}: EventSeriesViewProps) => {
+  const { isSaved, toggleSaved } = useSavedEvents();
+  const messages = getMessages();
+  const dateFormat = useMemo(dateFormatPreferences, []);
+
+  return (
+    <List navigationTitle={series.title}>
+      <List.Section
+        title={messages.upcomingDates}
+        subtitle={[series.frequency, series.venueName].filter(Boolean).join(" · ")}
+      >
+        {series.events.map((event) => {
+          const url = resolveEventUrl(event.url);
+          const start = parseDateValue(event.startTime);
+          const saved = isSaved(event.id);
+          const accessories: List.Item.Accessory[] = [];
+          if (isEventLiveNow(event)) {
+            accessories.push({ tag: { value: messages.liveNowTag, color: Color.Green } });
+          }
+          if (saved) {
+            accessories.push({
+              icon: { source: Icon.Star, tintColor: Color.Yellow },
+              tooltip: messages.inMyPlans,
+            });
+          }
+
+          return (
+            <List.Item
+              key={event.id}
+              title={start ? formatDayTitle(start, timezone, dateFormat) : messages.timeToBeConfirmed}
+              subtitle={formatEventTime(event.startTime, timezone, dateFormat)}
+              icon={Icon.Calendar}
+              accessories={accessories}
+              actions={
+                <ActionPanel>
+                  <Action.Push
+                    title={messages.viewEventDetails}
+                    target={
+                      <EventDetailView
+                        event={event}
+                        timezone={timezone}
+                        url={url}
+                        apiBaseUrl={apiBaseUrl}
+                        townSlug={townSlug}
+                        townName={townName}
+                        onSavedChange={onSavedChange}
+                      />
+                    }
+                  />
+                  <Action
+                    title={saved ? messages.removeFromMyPlans : messages.saveToMyPlans}
+                    icon={saved ? Icon.StarDisabled : Icon.Star}
+                    shortcut={{ modifiers: ["cmd"], key: "s" }}
+                    onAction={async () => {
+                      await toggleSaved({ event, townSlug, townName, timezone });
+                      onSavedChange?.();
+                    }}
+                  />
+                  <Action.OpenInBrowser title={messages.openOnWebsite} url={url} />
+                  <Action.CopyToClipboard title={messages.copyEventLink} content={url} />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+};
@@ -0,0 +1,99 @@
+import { Action, ActionPanel, Form, Toast, showToast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { describeApiError } from "../lib/api-client";
+import {
+  formatCoordinates,
+  geocodeAddress,
+  HomePoint,
+  parseCoordinates,
+} from "../lib/home-point";
+import { getMessages } from "../lib/i18n";
+
+type HomePointFormValues = {
+  address: string;
+  coordinates: string;
+};
+
+type HomePointFormViewProps = {
+  apiBaseUrl: string;
+  townSlug: string;
+  initialPoint: HomePoint | null;
+  onSubmit: (point: HomePoint) => void | Promise<void>;
+};
+
+export const HomePointFormView = ({ apiBaseUrl, townSlug, initialPoint, onSubmit }: HomePointFormViewProps) => {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const messages = getMessages();
+
+  const handleSubmit = async (values: HomePointFormValues): Promise<void> => {
+    const address = String(values.address || "").trim();
+    const coordinatesText = String(values.coordinates || "").trim();
+
+    if (!address && !coordinatesText) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.enterAddressOrCoordinates,
+      });
+      return;
+    }
+
+    // Coordinates win when both are filled in: they're exact and need no lookup.
+    if (coordinatesText) {
+      const coordinates = parseCoordinates(coordinatesText);
+      if (!coordinates) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: messages.invalidCoordinates,
+        });
+        return;
+      }
+      await onSubmit({ ...coordinates, label: address || formatCoordinates(coordinates) });
+      pop();
+      return;
+    }
+
+    const pastedCoordinates = parseCoordinates(address);
+    if (pastedCoordinates) {
+      await onSubmit({ ...pastedCoordinates, label: formatCoordinates(pastedCoordinates) });
+      pop();
+      return;
+    }
+
+    setIsSubmitting(true);
+    const toast = await showToast({ style: Toast.Style.Animated, title: messages.lookingUpAddress });
+    try {
+      const point = await geocodeAddress(apiBaseUrl, address, messages, townSlug);
+      await toast.hide();
+      await onSubmit(point);
+      pop();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = messages.addressLookupFailed;
+      toast.message = describeApiError(error, messages, messages.addressLookupFailed);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={messages.setHomePoint}
+      isLoading={isSubmitting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title={messages.setHomePoint} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={messages.homePointHint} />
+      <Form.TextField
+        id="address"
+        title={messages.address}
+        placeholder="1 Kentish Town Road"
+        defaultValue={initialPoint?.label || ""}
+      />
+      <Form.TextField id="coordinates" title={messages.coordinates} placeholder="51.5072, -0.1276" />
+    </Form>
+  );
+};
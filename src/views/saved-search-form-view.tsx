@@ -0,0 +1,116 @@
+import { Action, ActionPanel, Form, showToast, Toast, useNavigation } from "@raycast/api";
+import { dateFormatPreferences } from "../lib/date-format";
+import { formatCustomRangeLabel, TimeWindow } from "../lib/event-listing";
+import { getMessages } from "../lib/i18n";
+import { SavedSearchDraft } from "../lib/saved-searches";
+
+const CURRENT_TOWN_VALUE = "";
+
+type SavedSearchFormValues = {
+  name: string;
+  query: string;
+  category: string;
+  timeWindow: string;
+  townSlug: string;
+};
+
+type SavedSearchFormViewProps = {
+  initialSearch: SavedSearchDraft;
+  categories: string[];
+  towns: { slug: string; name: string }[];
+  allCategory: string;
+  isNew: boolean;
+  onSubmit: (draft: SavedSearchDraft) => Promise<void>;
+};
+
+export const SavedSearchFormView = ({
+  initialSearch,
+  categories,
+  towns,
+  allCategory,
+  isNew,
+  onSubmit,
+}: SavedSearchFormViewProps) => {
+  const { pop } = useNavigation();
+  const messages = getMessages();
+  const dateFormat = dateFormatPreferences();
+  const categoryChoices = categories.includes(initialSearch.category)
+    ? categories
+    : [...categories, initialSearch.category];
+  const timeWindowChoices = Object.entries(messages.timeWindows) as [TimeWindow, string][];
+  // A custom range can only be kept, not picked here; the When row is the place to choose one.
+  if (initialSearch.timeWindow === "custom" && initialSearch.customRange) {
+    timeWindowChoices.push([
+      "custom",
+      messages.customRangeLabel(formatCustomRangeLabel(initialSearch.customRange, dateFormat)),
+    ]);
+  }
+
+  const handleSubmit = async (values: SavedSearchFormValues): Promise<void> => {
+    const name = values.name.trim();
+    if (!name) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.enterSearchName,
+      });
+      return;
+    }
+
+    const timeWindow = values.timeWindow as TimeWindow;
+    const town = towns.find((item) => item.slug === values.townSlug);
+    await onSubmit({
+      name,
+      query: values.query.trim(),
+      category: values.category,
+      timeWindow,
+      customRange: timeWindow === "custom" ? initialSearch.customRange || null : null,
+      townSlug: town?.slug || null,
+      townName: town?.name,
+    });
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={isNew ? messages.newSavedSearch : messages.editSavedSearch}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title={messages.saveSearch} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="name" title={messages.name} defaultValue={initialSearch.name} />
+      <Form.TextField
+        id="query"
+        title={messages.searchQuery}
+        placeholder={messages.searchQueryPlaceholder}
+        defaultValue={initialSearch.query}
+      />
+      <Form.Dropdown id="category" title={messages.category} defaultValue={initialSearch.category}>
+        {categoryChoices.map((category) => (
+          <Form.Dropdown.Item
+            key={category}
+            value={category}
+            title={category === allCategory ? messages.allCategory : category}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="timeWindow" title={messages.when} defaultValue={initialSearch.timeWindow}>
+        {timeWindowChoices.map(([id, title]) => (
+          <Form.Dropdown.Item key={id} value={id} title={title} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="townSlug"
+        title={messages.town}
+        defaultValue={initialSearch.townSlug || CURRENT_TOWN_VALUE}
+      >
+        <Form.Dropdown.Item value={CURRENT_TOWN_VALUE} title={messages.selectedTown} />
+        {towns.map((town) => (
+          <Form.Dropdown.Item key={town.slug} value={town.slug} title={town.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.Description text={messages.savedSearchHint} />
+    </Form>
+  );
+};
@@ -0,0 +1,156 @@
+import { Action, ActionPanel, Color, Icon, List, useNavigation } from "@raycast/api";
+import { useSavedSearches } from "../hooks/use-saved-searches";
+import { dateFormatPreferences } from "../lib/date-format";
+import { formatCustomRangeLabel } from "../lib/event-listing";
+import { getMessages } from "../lib/i18n";
+import { SavedSearch, SavedSearchDraft, savedSearchDeeplink } from "../lib/saved-searches";
+import { SavedSearchFormView } from "./saved-search-form-view";
+
+type SavedSearchesViewProps = {
+  currentSearch: SavedSearchDraft;
+  categories: string[];
+  towns: { slug: string; name: string }[];
+  allCategory: string;
+  onRun: (search: SavedSearchDraft) => void;
+  onChange?: () => void;
+};
+
+export const SavedSearchesView = ({
+  currentSearch,
+  categories,
+  towns,
+  allCategory,
+  onRun,
+  onChange,
+}: SavedSearchesViewProps) => {
+  const { pop } = useNavigation();
+  const { savedSearches, isLoading, saveSearch, deleteSearch, moveSearch } = useSavedSearches();
+  const messages = getMessages();
+  const dateFormat = dateFormatPreferences();
+
+  const whenLabel = (search: SavedSearch): string =>
+    search.timeWindow === "custom"
+      ? search.customRange
+        ? messages.customRangeLabel(formatCustomRangeLabel(search.customRange, dateFormat))
+        : messages.customRange
+      : messages.timeWindows[search.timeWindow];
+
+  const searchForm = (initialSearch: SavedSearchDraft, id?: string) => (
+    <SavedSearchFormView
+      initialSearch={initialSearch}
+      categories={categories}
+      towns={towns}
+      allCategory={allCategory}
+      isNew={!id}
+      onSubmit={async (draft) => {
+        await saveSearch(draft, id);
+        onChange?.();
+      }}
+    />
+  );
+
+  const newSearchAction = (
+    <Action.Push
+      title={messages.newSavedSearch}
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={searchForm(currentSearch)}
+    />
+  );
+
+  return (
+    <List navigationTitle={messages.savedSearches} isLoading={isLoading}>
+      <List.EmptyView
+        icon={Icon.MagnifyingGlass}
+        title={messages.noSavedSearches}
+        description={messages.noSavedSearchesHint}
+        actions={<ActionPanel>{newSearchAction}</ActionPanel>}
+      />
+      {savedSearches.map((search, index) => {
+        const link = savedSearchDeeplink(search);
+        const accessories: List.Item.Accessory[] = [];
+        if (search.category !== allCategory) {
+          accessories.push({ tag: { value: search.category, color: Color.Blue } });
+        }
+        accessories.push({ text: whenLabel(search), icon: Icon.Clock });
+        accessories.push({ text: search.townName || messages.selectedTown, icon: Icon.Pin });
+
+        return (
+          <List.Item
+            key={search.id}
+            title={search.name}
+            subtitle={search.query}
+            icon={Icon.MagnifyingGlass}
+            accessories={accessories}
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  <Action
+                    title={messages.runSearch}
+                    icon={Icon.ArrowRight}
+                    onAction={() => {
+                      onRun(search);
+                      pop();
+                    }}
+                  />
+                  <Action.Push
+                    title={messages.editSavedSearch}
+                    icon={Icon.Pencil}
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                    target={searchForm(search, search.id)}
+                  />
+                  {newSearchAction}
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <Action.CreateQuicklink
+                    title={messages.createQuicklink}
+                    quicklink={{ link, name: search.name }}
+                  />
+                  <Action.CopyToClipboard
+                    title={messages.copyDeeplink}
+                    content={link}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                  />
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  {index > 0 ? (
+                    <Action
+                      title={messages.moveUp}
+                      icon={Icon.ArrowUp}
+                      shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                      onAction={async () => {
+                        await moveSearch(search.id, -1);
+                        onChange?.();
+                      }}
+                    />
+                  ) : null}
+                  {index < savedSearches.length - 1 ? (
+                    <Action
+                      title={messages.moveDown}
+                      icon={Icon.ArrowDown}
+                      shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                      onAction={async () => {
+                        await moveSearch(search.id, 1);
+                        onChange?.();
+                      }}
+                    />
+                  ) : null}
+                  <Action
+                    title={messages.deleteSavedSearch}
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={async () => {
+                      await deleteSearch(search);
+                      onChange?.();
+                    }}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+};
@@ -1,5 +1,8 @@
 import { Action, ActionPanel, Color, Icon, List, useNavigation } from "@raycast/api";
-import { TimeWindow } from "../lib/event-listing";
+import { dateFormatPreferences } from "../lib/date-format";
+import { CustomDateRange, formatCustomRangeLabel, TimeWindow } from "../lib/event-listing";
+import { getMessages } from "../lib/i18n";
+import { CustomRangeFormView } from "./custom-range-form-view";
 
 type TimeWindowOption = {
   id: TimeWindow;
@@ -10,18 +13,24 @@ type TimeWindowPickerViewProps = {
   options: TimeWindowOption[];
   selectedTimeWindow: TimeWindow;
   onSelect: (timeWindow: TimeWindow) => void;
+  customRange: CustomDateRange | null;
+  onSelectCustomRange: (range: CustomDateRange) => void;
 };
 
 export const TimeWindowPickerView = ({
   options,
   selectedTimeWindow,
   onSelect,
+  customRange,
+  onSelectCustomRange,
 }: TimeWindowPickerViewProps) => {
   const { pop } = useNavigation();
+  const messages = getMessages();
+  const dateFormat = dateFormatPreferences();
 
   return (
-    <List navigationTitle="Choose Time Window">
-      <List.Section title="When">
+    <List navigationTitle={messages.chooseTimeWindow}>
+      <List.Section title={messages.when}>
         {options.map((option) => (
           <List.Item
             key={option.id}
@@ -34,7 +43,7 @@ export const TimeWindowPickerView = ({
             actions={
               <ActionPanel>
                 <Action
-                  title={`Show ${option.title}`}
+                  title={messages.show(option.title)}
                   onAction={() => {
                     onSelect(option.id);
                     pop();
@@ -44,6 +53,33 @@ export const TimeWindowPickerView = ({
             }
           />
         ))}
+        <List.Item
+          key="custom"
+          title={messages.customRangeItem}
+          subtitle={customRange ? formatCustomRangeLabel(customRange, dateFormat) : messages.pickStartAndEnd}
+          icon={
+            selectedTimeWindow === "custom"
+              ? { source: Icon.CheckCircle, tintColor: Color.Green }
+              : Icon.Calendar
+          }
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title={messages.chooseDates}
+                target={<CustomRangeFormView initialRange={customRange} onSubmit={onSelectCustomRange} />}
+              />
+              {customRange ? (
+                <Action
+                  title={messages.show(formatCustomRangeLabel(customRange, dateFormat))}
+                  onAction={() => {
+                    onSelect("custom");
+                    pop();
+                  }}
+                />
+              ) : null}
+            </ActionPanel>
+          }
+        />
       </List.Section>
     </List>
   );
@@ -0,0 +1,69 @@
+import { Action, ActionPanel, Color, Icon, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { getMessages } from "../lib/i18n";
+import { ActiveZoneOption, groupZonesByCountry } from "../lib/zones";
+
+type TownPickerViewProps = {
+  zones: ActiveZoneOption[];
+  selectedZoneIds: number[];
+  onSubmit: (zoneIds: number[]) => void | Promise<void>;
+};
+
+export const TownPickerView = ({ zones, selectedZoneIds, onSubmit }: TownPickerViewProps) => {
+  const { pop } = useNavigation();
+  const messages = getMessages();
+  const [selection, setSelection] = useState<number[]>(selectedZoneIds);
+
+  const toggleZone = (zoneId: number): void => {
+    setSelection((current) =>
+      current.includes(zoneId) ? current.filter((id) => id !== zoneId) : [...current, zoneId],
+    );
+  };
+
+  const submit = async (): Promise<void> => {
+    if (selection.length < 2) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: messages.pickAtLeastTwoTowns,
+      });
+      return;
+    }
+    await onSubmit(selection);
+    pop();
+  };
+
+  return (
+    <List navigationTitle={`${messages.chooseTowns} · ${messages.townCount(selection.length)}`}>
+      {groupZonesByCountry(zones).map((group) => (
+        <List.Section key={group.countryCode} title={group.countryName}>
+          {group.zones.map((zone) => {
+            const isSelected = selection.includes(zone.id);
+            return (
+              <List.Item
+                key={zone.id}
+                title={zone.name}
+                icon={isSelected ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Circle}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      title={isSelected ? messages.deselectTown : messages.selectTown}
+                      onAction={() => toggleZone(zone.id)}
+                    />
+                    <Action
+                      title={messages.compareTowns(selection.length)}
+                      icon={Icon.Checkmark}
+                      shortcut={{ modifiers: ["cmd"], key: "enter" }}
+                      onAction={() => {
+                        void submit();
+                      }}
+                    />
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+};
@@ -0,0 +1,143 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { useMemo } from "react";
+import { useFollowedVenues } from "../hooks/use-followed-venues";
+import { useSavedEvents } from "../hooks/use-saved-events";
+import { dateFormatPreferences } from "../lib/date-format";
+import { appleMapsUrl, googleMapsUrl } from "../lib/event-details";
+import { formatEventTime, groupEventsByDay, isEventLiveNow, resolveEventUrl } from "../lib/event-listing";
+import { Coordinates } from "../lib/home-point";
+import { getMessages } from "../lib/i18n";
+import { VenueSummary } from "../lib/venues";
+import { RaycastEvent, RaycastTown } from "../types";
+import { EventDetailView } from "./event-detail-view";
+
+type VenueEventsViewProps = {
+  venue: VenueSummary;
+  address: string | null;
+  coordinates: Coordinates | null;
+  townFor: (event: RaycastEvent) => RaycastTown;
+  apiBaseUrl: string;
+  onSavedChange?: () => void;
+  onFollowedChange?: () => void;
+};
+
+export const VenueEventsView = ({
+  venue,
+  address,
+  coordinates,
+  townFor,
+  apiBaseUrl,
+  onSavedChange,
+  onFollowedChange,
+}: VenueEventsViewProps) => {
+  const { isSaved, toggleSaved } = useSavedEvents();
+  const { isFollowed, toggleFollowed } = useFollowedVenues();
+  const messages = getMessages();
+  const dateFormat = useMemo(dateFormatPreferences, []);
+  const timezone = townFor(venue.events[0]).timezone;
+  const daySections = useMemo(
+    () => groupEventsByDay(venue.events, timezone, dateFormat),
+    [dateFormat, timezone, venue.events],
+  );
+  const followed = isFollowed(venue.name);
+
+  const venueActions = (
+    <ActionPanel.Section title={messages.venue}>
+      <Action
+        title={followed ? messages.unfollowVenue : messages.followVenue}
+        icon={followed ? Icon.HeartDisabled : Icon.Heart}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+        onAction={async () => {
+          await toggleFollowed(venue.name);
+          onFollowedChange?.();
+        }}
+      />
+      {coordinates ? (
+        <Action.OpenInBrowser
+          title={messages.openInAppleMaps}
+          icon={Icon.Map}
+          url={appleMapsUrl(coordinates.lat, coordinates.lng, venue.name)}
+        />
+      ) : null}
+      {coordinates ? (
+        <Action.OpenInBrowser
+          title={messages.openInGoogleMaps}
+          icon={Icon.Map}
+          url={googleMapsUrl(coordinates.lat, coordinates.lng, venue.name)}
+        />
+      ) : null}
+      {address ? <Action.CopyToClipboard title={messages.copyVenueAddress} content={address} /> : null}
+    </ActionPanel.Section>
+  );
+
+  return (
+    <List navigationTitle={venue.name} searchBarPlaceholder={messages.filterVenueEvents(venue.name)}>
+      {daySections.map((section) => (
+        <List.Section key={section.id} title={section.title}>
+          {section.events.map((event) => {
+            const town = townFor(event);
+            const url = resolveEventUrl(event.url);
+            const saved = isSaved(event.id);
+            const accessories: List.Item.Accessory[] = [];
+            if (isEventLiveNow(event)) {
+              accessories.push({ tag: { value: messages.liveNowTag, color: Color.Green } });
+            }
+            if (saved) {
+              accessories.push({
+                icon: { source: Icon.Star, tintColor: Color.Yellow },
+                tooltip: messages.inMyPlans,
+              });
+            }
+            const timeLabel = formatEventTime(event.startTime, town.timezone, dateFormat);
+
+            return (
+              <List.Item
+                key={event.id}
+                title={[timeLabel, event.title].filter(Boolean).join("  ")}
+                icon={{ source: "icon.png" }}
+                accessories={accessories}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Section title={messages.event}>
+                      <Action.Push
+                        title={messages.viewEventDetails}
+                        target={
+                          <EventDetailView
+                            event={event}
+                            timezone={town.timezone}
+                            url={url}
+                            apiBaseUrl={apiBaseUrl}
+                            townSlug={town.slug}
+                            townName={town.name}
+                            onSavedChange={onSavedChange}
+                          />
+                        }
+                      />
+                      <Action
+                        title={saved ? messages.removeFromMyPlans : messages.saveToMyPlans}
+                        icon={saved ? Icon.StarDisabled : Icon.Star}
+                        shortcut={{ modifiers: ["cmd"], key: "s" }}
+                        onAction={async () => {
+                          await toggleSaved({
+                            event,
+                            townSlug: town.slug,
+                            townName: town.name,
+                            timezone: town.timezone,
+                          });
+                          onSavedChange?.();
+                        }}
+                      />
+                      <Action.OpenInBrowser title={messages.openOnWebsite} url={url} />
+                      <Action.CopyToClipboard title={messages.copyEventLink} content={url} />
+                    </ActionPanel.Section>
+                    {venueActions}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+};
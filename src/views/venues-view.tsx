@@ -0,0 +1,123 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { useMemo } from "react";
+import { useFollowedVenues } from "../hooks/use-followed-venues";
+import { useListingDetails } from "../hooks/use-listing-details";
+import { appleMapsUrl, googleMapsUrl } from "../lib/event-details";
+import { getMessages } from "../lib/i18n";
+import { groupEventsByVenue, VenueSummary } from "../lib/venues";
+import { RaycastEvent, RaycastTown } from "../types";
+import { VenueEventsView } from "./venue-events-view";
+
+type VenuesViewProps = {
+  events: RaycastEvent[];
+  townFor: (event: RaycastEvent) => RaycastTown;
+  apiBaseUrl: string;
+  onSavedChange?: () => void;
+  onFollowedChange?: () => void;
+};
+
+export const VenuesView = ({ events, townFor, apiBaseUrl, onSavedChange, onFollowedChange }: VenuesViewProps) => {
+  const { isFollowed, toggleFollowed, reload: reloadFollowedVenues } = useFollowedVenues();
+  const messages = getMessages();
+  const venues = useMemo(() => groupEventsByVenue(events), [events]);
+  // One event per venue is enough to look up its address and location.
+  const representatives = useMemo(() => venues.map((venue) => venue.events[0]), [venues]);
+  const { coordinatesFor, addressFor, isResolving } = useListingDetails(
+    representatives,
+    { coordinates: true, price: false, address: true },
+    apiBaseUrl,
+  );
+  const followedVenues = venues.filter((venue) => isFollowed(venue.name));
+  const otherVenues = venues.filter((venue) => !isFollowed(venue.name));
+
+  const handleFollowedChange = () => {
+    void reloadFollowedVenues();
+    onFollowedChange?.();
+  };
+
+  const renderVenue = (venue: VenueSummary) => {
+    const followed = isFollowed(venue.name);
+    const address = addressFor(venue.events[0]);
+    const coordinates = coordinatesFor(venue.events[0]);
+    const accessories: List.Item.Accessory[] = [];
+    if (followed) {
+      accessories.push({ icon: { source: Icon.Heart, tintColor: Color.Magenta }, tooltip: messages.following });
+    }
+    accessories.push({ text: messages.upcomingEventCount(venue.events.length) });
+
+    return (
+      <List.Item
+        key={venue.key}
+        title={venue.name}
+        subtitle={address || undefined}
+        icon={{ source: Icon.Pin, tintColor: followed ? Color.Magenta : undefined }}
+        keywords={address ? [address] : undefined}
+        accessories={accessories}
+        actions={
+          <ActionPanel>
+            <Action.Push
+              title={messages.showVenueEvents}
+              icon={Icon.Calendar}
+              target={
+                <VenueEventsView
+                  venue={venue}
+                  address={address}
+                  coordinates={coordinates}
+                  townFor={townFor}
+                  apiBaseUrl={apiBaseUrl}
+                  onSavedChange={onSavedChange}
+                  onFollowedChange={handleFollowedChange}
+                />
+              }
+            />
+            <Action
+              title={followed ? messages.unfollowVenue : messages.followVenue}
+              icon={followed ? Icon.HeartDisabled : Icon.Heart}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+              onAction={async () => {
+                await toggleFollowed(venue.name);
+                onFollowedChange?.();
+              }}
+            />
+            {coordinates ? (
+              <ActionPanel.Section title={messages.maps}>
+                <Action.OpenInBrowser
+                  title={messages.openInAppleMaps}
+                  icon={Icon.Map}
+                  url={appleMapsUrl(coordinates.lat, coordinates.lng, venue.name)}
+                />
+                <Action.OpenInBrowser
+                  title={messages.openInGoogleMaps}
+                  icon={Icon.Map}
+                  url={googleMapsUrl(coordinates.lat, coordinates.lng, venue.name)}
+                />
+              </ActionPanel.Section>
+            ) : null}
+            {address ? <Action.CopyToClipboard title={messages.copyVenueAddress} content={address} /> : null}
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List
+      navigationTitle={messages.venues}
+      searchBarPlaceholder={messages.filterVenues}
+      isLoading={isResolving}
+    >
+      {venues.length ? null : (
+        <List.EmptyView icon={Icon.Pin} title={messages.noVenues} description={messages.noVenuesHint} />
+      )}
+      {followedVenues.length ? (
+        <List.Section title={messages.followedVenues}>{followedVenues.map(renderVenue)}</List.Section>
+      ) : null}
+      <List.Section
+        title={followedVenues.length ? messages.otherVenues : messages.venues}
+        subtitle={isResolving ? messages.lookingUpAddresses : undefined}
+      >
+        {otherVenues.map(renderVenue)}
+      </List.Section>
+    </List>
+  );
+};
@@ -1,5 +1,7 @@
 import { Action, ActionPanel, Form, Toast, showToast, useNavigation } from "@raycast/api";
 import { useState } from "react";
+import { describeApiError } from "../lib/api-client";
+import { getMessages } from "../lib/i18n";
 import { submitWaitlist } from "../lib/waitlist";
 
 type WaitlistFormValues = {
@@ -17,6 +19,7 @@ const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 export const WaitlistFormView = ({ endpointUrl }: WaitlistFormViewProps) => {
   const { pop } = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const messages = getMessages();
 
   const handleSubmit = async (values: WaitlistFormValues): Promise<void> => {
     const email = String(values.email || "").trim();
@@ -26,7 +29,7 @@ export const WaitlistFormView = ({ endpointUrl }: WaitlistFormViewProps) => {
     if (!emailRegex.test(email)) {
       await showToast({
         style: Toast.Style.Failure,
-        title: "Please enter a valid email address.",
+        title: messages.invalidEmail,
       });
       return;
     }
@@ -34,7 +37,7 @@ export const WaitlistFormView = ({ endpointUrl }: WaitlistFormViewProps) => {
     if (!location) {
       await showToast({
         style: Toast.Style.Failure,
-        title: "Please enter your town and country.",
+        title: messages.missingLocation,
       });
       return;
     }
@@ -44,13 +47,13 @@ export const WaitlistFormView = ({ endpointUrl }: WaitlistFormViewProps) => {
       await submitWaitlist(endpointUrl, { email, location, message });
       await showToast({
         style: Toast.Style.Success,
-        title: "Thanks! We'll be in touch if we head your way.",
+        title: messages.waitlistThanks,
       });
       pop();
     } catch (error) {
       await showToast({
         style: Toast.Style.Failure,
-        title: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+        title: describeApiError(error, messages, messages.somethingWentWrong),
       });
     } finally {
       setIsSubmitting(false);
@@ -59,21 +62,21 @@ export const WaitlistFormView = ({ endpointUrl }: WaitlistFormViewProps) => {
 
   return (
     <Form
-      navigationTitle="Tell us your town"
+      navigationTitle={messages.tellUsYourTown}
       isLoading={isSubmitting}
       actions={
         <ActionPanel>
           <Action.SubmitForm
-            title={isSubmitting ? "Submitting..." : "Submit"}
+            title={isSubmitting ? messages.submitting : messages.submit}
             onSubmit={handleSubmit}
           />
         </ActionPanel>
       }
     >
-      <Form.Description text="Not from around here, huh? Tell us your town." />
-      <Form.TextField id="email" title="Your email" placeholder="you@example.com" />
-      <Form.TextField id="location" title="Your town, country" placeholder="Your town, country" />
-      <Form.TextArea id="message" title="Anything else? (optional)" placeholder="Anything else? (optional)" />
+      <Form.Description text={messages.waitlistIntro} />
+      <Form.TextField id="email" title={messages.yourEmail} placeholder="you@example.com" />
+      <Form.TextField id="location" title={messages.yourTownCountry} placeholder={messages.yourTownCountry} />
+      <Form.TextArea id="message" title={messages.anythingElse} placeholder={messages.anythingElse} />
     </Form>
   );
 };
@@ -0,0 +1,170 @@
+import {
+  Color,
+  Icon,
+  launchCommand,
+  LaunchType,
+  MenuBarExtra,
+  open,
+} from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { useEnvironmentSubtitle } from "./hooks/use-environment-subtitle";
+import { describeApiError } from "./lib/api-client";
+import { resolveApiEnvironment } from "./lib/api-environment";
+import { dateFormatPreferences, DEFAULT_TIMEZONE } from "./lib/date-format";
+import {
+  formatEventTime,
+  isEventLiveNow,
+  relativeStartTag,
+  resolveEventUrl,
+} from "./lib/event-listing";
+import { getMessages, preferredLocale } from "./lib/i18n";
+import { askTownspot } from "./lib/townspot";
+import { ActiveTown, resolveTownForPrompt } from "./lib/townspot-ai";
+import { EventLaunchContext, RaycastEvent, RaycastResponse } from "./types";
+
+const API_BASE_URL = resolveApiEnvironment().apiBaseUrl;
+const API_EVENT_FETCH_LIMIT = 120;
+const MAX_ITEMS_PER_SECTION = 10;
+
+const openEventDetails = async (
+  event: RaycastEvent,
+  town: ActiveTown,
+  timezone: string,
+): Promise<void> => {
+  const context: EventLaunchContext = {
+    event,
+    townSlug: town.slug,
+    townName: town.name,
+    timezone,
+  };
+  await launchCommand({ name: "ask", type: LaunchType.UserInitiated, context });
+};
+
+export default function Command() {
+  const locale = preferredLocale();
+  const messages = getMessages();
+  const dateFormat = useMemo(dateFormatPreferences, []);
+  const [town, setTown] = useState<ActiveTown | null>(null);
+  const [response, setResponse] = useState<RaycastResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  useEnvironmentSubtitle();
+
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const resolved = await resolveTownForPrompt(API_BASE_URL, "");
+        if (cancelled) return;
+        setTown(resolved.town);
+
+        const result = await askTownspot({
+          query: "what's on today and tomorrow",
+          townSlug: resolved.town.slug,
+          locale,
+          apiBaseUrl: API_BASE_URL,
+          limit: API_EVENT_FETCH_LIMIT,
+          conversation: [],
+          signal: controller.signal,
+        });
+        if (cancelled) return;
+        setResponse(result);
+      } catch (error) {
+        if (cancelled) return;
+        setErrorMessage(describeApiError(error, messages, messages.couldNotReachTownSpot));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    void load();
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [locale, messages]);
+
+  const timezone = response?.town?.timezone || DEFAULT_TIMEZONE;
+  const { liveEvents, upcomingEvents } = useMemo(() => {
+    const nowMs = Date.now();
+    const events = response?.events || [];
+    return {
+      liveEvents: events.filter((event) => isEventLiveNow(event, nowMs)),
+      upcomingEvents: events.filter(
+        (event) => !isEventLiveNow(event, nowMs) && Boolean(relativeStartTag(event, dateFormat, nowMs)),
+      ),
+    };
+  }, [dateFormat, response]);
+
+  const renderItem = (event: RaycastEvent) => {
+    const timeLabel = formatEventTime(event.startTime, timezone, dateFormat);
+    const tag = isEventLiveNow(event) ? null : relativeStartTag(event, dateFormat);
+    const title = [timeLabel, event.title].filter(Boolean).join("  ");
+    return (
+      <MenuBarExtra.Item
+        key={event.id}
+        title={title}
+        subtitle={[tag || "", event.venueName].filter(Boolean).join(" · ")}
+        tooltip={messages.openListingTooltip}
+        onAction={() => {
+          void open(resolveEventUrl(event.url));
+        }}
+        alternate={
+          town ? (
+            <MenuBarExtra.Item
+              title={messages.detailsFor(event.title)}
+              icon={Icon.Sidebar}
+              onAction={() => {
+                void openEventDetails(event, town, timezone);
+              }}
+            />
+          ) : undefined
+        }
+      />
+    );
+  };
+
+  return (
+    <MenuBarExtra
+      icon={{ source: "icon.png" }}
+      title={response ? String(liveEvents.length) : undefined}
+      tooltip={town ? messages.liveNowIn(town.name) : "TownSpot"}
+      isLoading={isLoading}
+    >
+      {errorMessage ? (
+        <MenuBarExtra.Item
+          title={messages.couldNotReachTownSpot}
+          subtitle={errorMessage}
+          icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+        />
+      ) : null}
+      <MenuBarExtra.Section title={town ? messages.nowIn(town.name) : messages.now}>
+        {liveEvents.length ? (
+          liveEvents.slice(0, MAX_ITEMS_PER_SECTION).map(renderItem)
+        ) : (
+          <MenuBarExtra.Item title={messages.nothingLiveNow} />
+        )}
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section title={messages.startingWithin3Hours}>
+        {upcomingEvents.length ? (
+          upcomingEvents.slice(0, MAX_ITEMS_PER_SECTION).map(renderItem)
+        ) : (
+          <MenuBarExtra.Item title={messages.nothingStartingSoon} />
+        )}
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title={messages.openTownSpot}
+          icon={Icon.List}
+          shortcut={{ modifiers: ["cmd"], key: "o" }}
+          onAction={() => {
+            void launchCommand({ name: "ask", type: LaunchType.UserInitiated });
+          }}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
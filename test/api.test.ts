@@ -0,0 +1,316 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  TownSpotAbortError,
+  TownSpotHttpError,
+  TownSpotPayloadError,
+  TownSpotTimeoutError,
+} from "../src/lib/api-client";
+import { fetchEventDetails, readCachedEventDetails } from "../src/lib/event-details";
+import { appendEventPage, hasMorePages } from "../src/lib/event-pages";
+import { groupEventsByDay } from "../src/lib/event-listing";
+import { geocodeAddress } from "../src/lib/home-point";
+import { messagesForLocale } from "../src/lib/i18n";
+import { resolveTownContext } from "../src/lib/location-context";
+import { loadPayloadReports } from "../src/lib/payload-validation";
+import { askTownspot } from "../src/lib/townspot";
+import { HOME_ZONE_STORAGE_KEY, resolveTownForPrompt } from "../src/lib/townspot-ai";
+import { submitWaitlist } from "../src/lib/waitlist";
+import { fetchActiveZones } from "../src/lib/zones";
+import { EN_24H, ids } from "./support/events";
+import { MockTownSpotServer, redirectExternalFetch, startMockServer } from "./support/mock-server";
+import { LocalStorage, resetRaycastState } from "./support/raycast-api";
+
+let server: MockTownSpotServer;
+
+before(async () => {
+  server = await startMockServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.reset();
+  resetRaycastState();
+});
+
+const ask = (townSlug: string, extra: Partial<Parameters<typeof askTownspot>[0]> = {}) =>
+  askTownspot({ query: "", townSlug, locale: "en-GB", apiBaseUrl: server.apiBaseUrl, ...extra });
+
+describe("askTownspot", () => {
+  it("posts a sanitised query and returns the recorded listing", async () => {
+    const response = await ask("Kentish Town", { query: "  jazz   tonight " });
+
+    assert.deepEqual(server.requests.map((request) => request.body), [
+      { query: "jazz tonight", townSlug: "kentish-town", locale: "en-GB", limit: 8, offset: 0, conversation: [] },
+    ]);
+    assert.equal(response.town.timezone, "Europe/London");
+    assert.deepEqual(ids(response.events), ["evt-quiz-0328", "evt-jazz-0329", "evt-market-0329", "evt-storytime-0330"]);
+    // Coordinates recorded as strings come back as numbers.
+    assert.equal(response.events[1].lat, 51.5523);
+    assert.equal(response.events[1].lng, -0.1417);
+    assert.deepEqual(loadPayloadReports(), []);
+    assert.equal(response.nextOffset, null);
+  });
+
+  it("pages through a listing with offsets", async () => {
+    const first = await ask("kentish-town", { limit: 2 });
+    const second = await ask("kentish-town", { limit: 2, offset: first.nextOffset ?? 0 });
+
+    assert.deepEqual(ids(first.events), ["evt-quiz-0328", "evt-jazz-0329"]);
+    assert.equal(first.nextOffset, 2);
+    assert.deepEqual(ids(second.events), ["evt-market-0329", "evt-storytime-0330"]);
+    assert.equal(second.nextOffset, null);
+    assert.deepEqual(
+      server.requests.map((request) => (request.body as { offset: number }).offset),
+      [0, 2],
+    );
+
+    const listing = appendEventPage(first, second);
+    assert.equal(listing.events.length, 4);
+    assert.equal(hasMorePages(listing), false);
+  });
+
+  it("drops malformed events, fills safe defaults and reports what failed", async () => {
+    const response = await ask("gracia");
+
+    assert.deepEqual(ids(response.events), ["4812", "evt-vermut-0426"]);
+    assert.equal(response.town.timezone, "Europe/London");
+    const vermut = response.events[1];
+    assert.equal(vermut.endTime, null);
+    assert.equal(vermut.isFree, null);
+    assert.deepEqual(vermut.tags, ["Música"]);
+    assert.doesNotThrow(() => groupEventsByDay(response.events, response.town.timezone, EN_24H));
+
+    const [report] = loadPayloadReports();
+    assert.equal(report.source, "query");
+    assert.equal(report.label, "gracia");
+    assert.equal(report.itemCount, 3);
+    assert.equal(report.droppedCount, 1);
+    assert.deepEqual(
+      report.issues.map((issue) => [issue.path, issue.dropped]),
+      [
+        ["town.timezone", false],
+        ["events[1].startTime", true],
+        ["events[2].endTime", false],
+        ["events[2].tags[1]", true],
+        ["events[2].isFree", false],
+      ],
+    );
+  });
+
+  it("retries server errors with backoff", async () => {
+    server.failNext("/api/raycast/query", 503, 2);
+
+    const response = await ask("kentish-town");
+
+    assert.equal(response.events.length, 4);
+    assert.equal(server.requests.length, 3);
+  });
+
+  it("fails fast with an HTTP error for unknown towns", async () => {
+    await assert.rejects(ask("atlantis"), (error: unknown) => {
+      assert.ok(error instanceof TownSpotHttpError);
+      assert.equal(error.status, 404);
+      return true;
+    });
+    assert.equal(server.requests.length, 1);
+  });
+
+  it("times out slow responses", async () => {
+    server.delay("/api/raycast/query", 400);
+
+    await assert.rejects(ask("kentish-town", { timeoutMs: 100 }), TownSpotTimeoutError);
+  });
+
+  it("stops when the caller cancels", async () => {
+    const controller = new AbortController();
+    server.delay("/api/raycast/query", 400);
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(ask("kentish-town", { signal: controller.signal }), TownSpotAbortError);
+    assert.equal(server.requests.length, 1);
+  });
+});
+
+describe("fetchEventDetails", () => {
+  it("validates and caches event details", async () => {
+    const details = await fetchEventDetails(server.apiBaseUrl, "evt-jazz-0329");
+
+    assert.equal(server.requests[0].query.eventUuid, "evt-jazz-0329");
+    assert.equal(details.lat, 51.5523);
+    assert.equal(details.locationAddress, "9-17 Highgate Road, London NW5 1JY");
+    assert.equal(details.spottedBy?.subscriberId, 42);
+    assert.deepEqual(readCachedEventDetails("evt-jazz-0329"), details);
+  });
+
+  it("keeps details with a malformed optional field and reports it", async () => {
+    const details = await fetchEventDetails(server.apiBaseUrl, "evt-market-0329");
+
+    assert.equal(details.categories, null);
+    assert.equal(details.lat, null);
+    assert.deepEqual(
+      loadPayloadReports()[0].issues.map((issue) => [issue.path, issue.expected, issue.dropped]),
+      [["categories", "array of strings", false]],
+    );
+  });
+
+  it("surfaces missing events as 404s", async () => {
+    await assert.rejects(fetchEventDetails(server.apiBaseUrl, "nope"), TownSpotHttpError);
+  });
+});
+
+describe("fetchActiveZones", () => {
+  it("lists visible, active zones by name", async () => {
+    const zones = await fetchActiveZones(server.apiBaseUrl);
+
+    assert.deepEqual(
+      zones.map((zone) => [zone.slug, zone.countryCode, zone.activeUsers]),
+      [
+        ["camden-town", "uk", 180],
+        ["gracia", "es", 96],
+        ["kentish-town", "uk", 214],
+      ],
+    );
+  });
+});
+
+describe("geocodeAddress", () => {
+  const messages = messagesForLocale("en-GB");
+
+  it("looks up an address within the town", async () => {
+    const point = await geocodeAddress(server.apiBaseUrl, " 1 Kentish Town Road ", messages, "Kentish Town");
+
+    assert.deepEqual(server.requests[0].query, { q: "1 Kentish Town Road", townSlug: "kentish-town" });
+    assert.deepEqual(point, { lat: 51.5414, lng: -0.1436, label: "1 Kentish Town Road, London NW1 8NH" });
+  });
+
+  it("reads string coordinates and falls back to the formatted address", async () => {
+    const point = await geocodeAddress(server.apiBaseUrl, "Carrer de Verdi 32", messages);
+
+    assert.deepEqual(point, { lat: 41.4036, lng: 2.1571, label: "Carrer de Verdi, 32, 08012 Barcelona" });
+  });
+
+  it("says when the geocoder doesn't know the address", async () => {
+    await assert.rejects(geocodeAddress(server.apiBaseUrl, "42 Nowhere Lane", messages), {
+      message: 'Could not find "42 Nowhere Lane".',
+    });
+  });
+
+  it("doesn't mistake a missing endpoint for an unknown address", async () => {
+    server.failNext("/api/places/geocode", 404);
+
+    await assert.rejects(geocodeAddress(server.apiBaseUrl, "1 Kentish Town Road", messages), (error: unknown) => {
+      assert.ok(error instanceof TownSpotHttpError);
+      assert.equal(error.status, 404);
+      return true;
+    });
+  });
+
+  it("rejects a geocoder answer that isn't an object", async () => {
+    server.respondNext("/api/places/geocode", null);
+
+    await assert.rejects(geocodeAddress(server.apiBaseUrl, "1 Kentish Town Road", messages), TownSpotPayloadError);
+  });
+});
+
+describe("town detection", () => {
+  let restoreFetch: () => void;
+
+  before(() => {
+    restoreFetch = redirectExternalFetch(server);
+  });
+
+  after(() => {
+    restoreFetch();
+  });
+
+  it("matches the IP location to a zone", async () => {
+    const context = await resolveTownContext({ apiBaseUrl: server.apiBaseUrl });
+
+    assert.deepEqual(context, { slug: "kentish-town", name: "Kentish Town", source: "detected" });
+    const matchRequest = server.requests.find((request) => request.path === "/api/places/match-zone");
+    assert.deepEqual(matchRequest?.query, { lat: "51.5507", lng: "-0.1402" });
+  });
+
+  it("falls back to the nearest zone when matching fails", async () => {
+    server.failNext("/api/places/match-zone", 500);
+
+    const context = await resolveTownContext({ apiBaseUrl: server.apiBaseUrl });
+
+    assert.deepEqual(context, { slug: "kentish-town", name: "Kentish Town", source: "detected" });
+    assert.ok(server.requests.some((request) => request.query.includeHidden === "true"));
+  });
+
+  it("skips malformed zones when falling back to the nearest one", async () => {
+    server.respondNext("/api/places/match-zone", { zone: null });
+    server.respondNext("/api/locations/list", [
+      null,
+      "kentish-town",
+      { slug: "nowhere", name: "Nowhere" },
+      { slug: "kentish-town", name: "Kentish Town", lat: "51.55", lng: "-0.14", country_code: "uk" },
+    ]);
+
+    const context = await resolveTownContext({ apiBaseUrl: server.apiBaseUrl });
+
+    assert.deepEqual(context, { slug: "kentish-town", name: "Kentish Town", source: "detected" });
+  });
+
+  it("falls back to the default town when the IP lookup is malformed", async () => {
+    server.respondNext("/ipapi/json/", ["not", "a", "location"]);
+
+    const context = await resolveTownContext({ apiBaseUrl: server.apiBaseUrl });
+
+    assert.equal(context.source, "fallback");
+    assert.equal(server.requests.filter((request) => request.path.startsWith("/api/")).length, 0);
+  });
+
+  it("prefers an explicit town over detection", async () => {
+    const context = await resolveTownContext({ apiBaseUrl: server.apiBaseUrl, argumentTownSlug: "Camden Town" });
+
+    assert.deepEqual(context, { slug: "camden-town", name: "Camden Town", source: "argument" });
+    assert.equal(server.requests.length, 0);
+  });
+
+  it("resolves AI prompts to a named town, else the hometown", async () => {
+    await LocalStorage.setItem(HOME_ZONE_STORAGE_KEY, "2");
+
+    const named = await resolveTownForPrompt(server.apiBaseUrl, "vermut a Gràcia diumenge");
+    const home = await resolveTownForPrompt(server.apiBaseUrl, "anything free tonight?");
+
+    assert.deepEqual([named.town.slug, named.source], ["gracia", "query"]);
+    assert.deepEqual([home.town.slug, home.source], ["camden-town", "home"]);
+  });
+});
+
+describe("submitWaitlist", () => {
+  const endpoint = () => `${server.apiBaseUrl}/waitlist`;
+
+  it("posts the trimmed form", async () => {
+    await submitWaitlist(endpoint(), { email: " sam@example.com ", location: " Stroud ", message: "  " });
+
+    assert.deepEqual(server.requests[0].body, {
+      email: "sam@example.com",
+      location: "Stroud",
+      message: null,
+      honeypot: "",
+    });
+  });
+
+  it("shows the server's validation message", async () => {
+    await assert.rejects(submitWaitlist(endpoint(), { email: "sam", location: "Stroud" }), {
+      message: "Enter a valid email address.",
+    });
+  });
+
+  it("never retries, even when rate limited", async () => {
+    server.failNext("/api/waitlist", 429);
+
+    await assert.rejects(submitWaitlist(endpoint(), { email: "sam@example.com", location: "Stroud" }), {
+      message: "Too many submissions. Please try again later.",
+    });
+    assert.equal(server.requests.length, 1);
+  });
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildCalendarFile, CalendarEntry } from "../src/lib/calendar";
+
+const entry = (uid: string, start: string, end: string): CalendarEntry => ({
+  uid,
+  title: uid,
+  startMs: Date.parse(start),
+  endMs: Date.parse(end),
+  timezone: "Europe/London",
+});
+
+describe("buildCalendarFile", () => {
+  it("writes UTC times that stay right for events either side of a DST change", () => {
+    const file = buildCalendarFile([
+      // 20:00 BST and 20:00 GMT.
+      entry("october", "2026-10-20T19:00:00Z", "2026-10-20T21:00:00Z"),
+      entry("november", "2026-11-10T20:00:00Z", "2026-11-10T22:00:00Z"),
+    ]);
+
+    assert.match(file, /DTSTART:20261020T190000Z\r\nDTEND:20261020T210000Z/);
+    assert.match(file, /DTSTART:20261110T200000Z\r\nDTEND:20261110T220000Z/);
+    assert.doesNotMatch(file, /VTIMEZONE|TZID/);
+  });
+});
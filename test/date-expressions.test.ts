@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseDateExpression, stripDateExpression } from "../src/lib/date-expressions";
+
+// Wednesday 3 June 2026, 11:00 in London.
+const NOW = new Date("2026-06-03T10:00:00Z");
+
+const parse = (query: string, locale = "en-GB") =>
+  parseDateExpression(query, { locale, timezone: "Europe/London", now: NOW });
+
+const strip = (query: string, locale = "en-GB") =>
+  stripDateExpression(query, { locale, timezone: "Europe/London", now: NOW });
+
+const hours = (start: number, end: number) => ({ startMinutes: start * 60, endMinutes: end * 60 });
+
+const on = (date: string, endDate = date) => ({ startDate: date, endDate });
+
+describe("parseDateExpression", () => {
+  it("reads the requested examples in English", () => {
+    assert.deepEqual(parse("Saturday afternoon"), { ...on("2026-06-06"), ...hours(12, 18) });
+    assert.deepEqual(parse("on the 14th"), on("2026-06-14"));
+    assert.deepEqual(parse("next Friday evening"), { ...on("2026-06-12"), ...hours(18, 24) });
+    assert.deepEqual(parse("between 3 and 6pm"), { ...on("2026-06-03"), ...hours(15, 18) });
+    assert.deepEqual(parse("in two weeks"), on("2026-06-17", "2026-06-23"));
+  });
+
+  it("reads the requested examples in Spanish", () => {
+    assert.deepEqual(parse("sábado por la tarde", "es-ES"), { ...on("2026-06-06"), ...hours(12, 18) });
+    assert.deepEqual(parse("el 14", "es-ES"), on("2026-06-14"));
+    assert.deepEqual(parse("el próximo viernes por la noche", "es-ES"), { ...on("2026-06-12"), ...hours(18, 24) });
+    assert.deepEqual(parse("entre las 3 y las 6", "es-ES"), { ...on("2026-06-03"), ...hours(15, 18) });
+    assert.deepEqual(parse("dentro de dos semanas", "es-ES"), on("2026-06-17", "2026-06-23"));
+  });
+
+  it("reads the requested examples in Catalan", () => {
+    assert.deepEqual(parse("dissabte a la tarda", "ca-ES"), { ...on("2026-06-06"), ...hours(12, 18) });
+    assert.deepEqual(parse("el dia 14", "ca-ES"), on("2026-06-14"));
+    assert.deepEqual(parse("el proper divendres al vespre", "ca-ES"), { ...on("2026-06-12"), ...hours(18, 24) });
+    assert.deepEqual(parse("entre les 3 i les 6", "ca-ES"), { ...on("2026-06-03"), ...hours(15, 18) });
+    assert.deepEqual(parse("d'aquí a dues setmanes", "ca-ES"), on("2026-06-17", "2026-06-23"));
+  });
+
+  it("reads a bare hour as the evening, or as the context says", () => {
+    assert.deepEqual(parse("tonight at 8"), { ...on("2026-06-03"), ...hours(20, 21) });
+    assert.deepEqual(parse("friday at 8"), { ...on("2026-06-05"), ...hours(20, 21) });
+    assert.deepEqual(parse("jazz at 9"), { ...on("2026-06-03"), ...hours(21, 22) });
+    assert.deepEqual(parse("sunday at 10 in the morning"), { ...on("2026-06-07"), ...hours(10, 11) });
+    assert.deepEqual(parse("at 11 at night"), { ...on("2026-06-03"), ...hours(23, 24) });
+    assert.equal(strip("jazz at 9"), "jazz");
+  });
+
+  it("gives both ends of a range the same meridiem", () => {
+    assert.deepEqual(parse("between 6 and 9"), { ...on("2026-06-03"), ...hours(18, 21) });
+    assert.deepEqual(parse("from 7 to 10"), { ...on("2026-06-03"), ...hours(19, 22) });
+    assert.deepEqual(parse("from 7pm to 10"), { ...on("2026-06-03"), ...hours(19, 22) });
+    assert.deepEqual(parse("from 11am to 2"), { ...on("2026-06-03"), ...hours(11, 14) });
+    assert.deepEqual(parse("música de 5 a 8", "es-ES"), { ...on("2026-06-03"), ...hours(17, 20) });
+    assert.deepEqual(parse("de 10 a 12 del matí", "ca-ES"), { ...on("2026-06-03"), ...hours(10, 12) });
+    assert.deepEqual(parse("de 17h a 20h", "es-ES"), { ...on("2026-06-03"), ...hours(17, 20) });
+    assert.equal(strip("música de 5 a 8", "es-ES"), "musica");
+    assert.equal(strip("de 10 a 12 del matí", "ca-ES"), "");
+  });
+
+  it("rolls a range past midnight into the next day", () => {
+    assert.deepEqual(parse("10pm to 2am"), { ...on("2026-06-03"), ...hours(22, 26) });
+    assert.deepEqual(parse("from 10pm to 2"), { ...on("2026-06-03"), ...hours(22, 26) });
+    assert.deepEqual(parse("de 22 a 2", "es-ES"), { ...on("2026-06-03"), ...hours(22, 26) });
+  });
+
+  it("reads a weekday written with an explicit date as part of that date", () => {
+    assert.deepEqual(parse("sat 14 nov"), on("2026-11-14"));
+    assert.deepEqual(parse("saturday 14 november"), on("2026-11-14"));
+    assert.deepEqual(parse("friday november 13"), on("2026-11-13"));
+    assert.equal(strip("jazz sat 14 nov"), "jazz");
+    assert.equal(strip("jazz el sábado 14 de noviembre", "es-ES"), "jazz");
+  });
+
+  it("strips the whole day-of-month phrase", () => {
+    assert.deepEqual(parse("el dia 3 de noviembre", "es-ES"), on("2026-11-03"));
+    assert.equal(strip("el dia 3 de noviembre", "es-ES"), "");
+    assert.deepEqual(parse("concierto en el 14", "es-ES"), on("2026-06-14"));
+    assert.equal(strip("concierto en el 14", "es-ES"), "concierto");
+  });
+
+  it("leaves ordinals that aren't dates alone", () => {
+    assert.equal(parse("2nd hand market"), null);
+    assert.equal(strip("2nd hand market"), "2nd hand market");
+  });
+});
@@ -0,0 +1,199 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { filterEventsByTimeWindow, groupEventsByDay } from "../src/lib/event-listing";
+import { RaycastEvent } from "../src/types";
+import { EN_24H, ids, makeEvent } from "./support/events";
+
+const setNow = (iso: string): void => {
+  mock.timers.reset();
+  mock.timers.enable({ apis: ["Date"], now: new Date(iso) });
+};
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe("filterEventsByTimeWindow", () => {
+  it("reads today in the town's timezone, not the machine's", () => {
+    // 23:30 in London, already 00:30 the next day in Madrid.
+    setNow("2026-06-01T22:30:00Z");
+    const events = [
+      makeEvent({ id: "late", startTime: "2026-06-01T22:45:00Z" }),
+      makeEvent({ id: "next-morning", startTime: "2026-06-02T10:00:00Z" }),
+    ];
+
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/London", "today")), ["late"]);
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/Madrid", "today")), ["late", "next-morning"]);
+  });
+
+  it("drops events that have already ended", () => {
+    setNow("2026-06-01T21:00:00Z");
+    const events = [
+      makeEvent({ id: "finished", startTime: "2026-06-01T18:00:00Z", endTime: "2026-06-01T20:00:00Z" }),
+      // No end time: assumed to run for two hours.
+      makeEvent({ id: "running", startTime: "2026-06-01T19:30:00Z" }),
+      makeEvent({ id: "upcoming", startTime: "2026-06-01T21:30:00Z" }),
+    ];
+
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/London", "today")), ["running", "upcoming"]);
+  });
+
+  it("keeps Sunday as tomorrow across the spring DST change", () => {
+    // Saturday 23:30 GMT; clocks go forward at 01:00 on Sunday 29 March.
+    setNow("2026-03-28T23:30:00Z");
+    const events = [
+      makeEvent({ id: "sat-late", startTime: "2026-03-28T23:45:00Z" }),
+      makeEvent({ id: "sun-noon", startTime: "2026-03-29T11:00:00Z" }),
+      // 00:30 BST on Monday.
+      makeEvent({ id: "mon-early", startTime: "2026-03-29T23:30:00Z" }),
+    ];
+
+    assert.deepEqual(
+      ids(filterEventsByTimeWindow(events, "Europe/London", "today_tomorrow")),
+      ["sat-late", "sun-noon"],
+    );
+  });
+
+  it("keeps the 25-hour day whole across the autumn DST change", () => {
+    // 00:30 BST on Sunday 25 October; clocks go back at 02:00.
+    setNow("2026-10-24T23:30:00Z");
+    const events = [
+      makeEvent({ id: "sun-night", startTime: "2026-10-25T23:30:00Z" }),
+      makeEvent({ id: "mon-early", startTime: "2026-10-26T00:30:00Z" }),
+    ];
+
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/London", "today")), ["sun-night"]);
+    assert.deepEqual(
+      ids(filterEventsByTimeWindow(events, "Europe/London", "today_tomorrow")),
+      ["sun-night", "mon-early"],
+    );
+  });
+
+  it("spans seven calendar days for next_7_days across a DST change", () => {
+    setNow("2026-03-25T12:00:00Z");
+    const events = [
+      makeEvent({ id: "tue-31", startTime: "2026-03-31T22:30:00Z" }),
+      makeEvent({ id: "wed-1", startTime: "2026-03-31T23:30:00Z" }),
+    ];
+
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/London", "next_7_days")), ["tue-31"]);
+  });
+
+  it("runs this_week until Sunday in the town's timezone", () => {
+    // Friday noon in London is already Saturday in Auckland.
+    setNow("2026-06-05T12:00:00Z");
+    const events = [
+      makeEvent({ id: "fri-evening", startTime: "2026-06-05T18:00:00Z" }),
+      makeEvent({ id: "sun", startTime: "2026-06-07T10:00:00Z" }),
+      makeEvent({ id: "mon-nz", startTime: "2026-06-07T12:30:00Z" }),
+      makeEvent({ id: "mon-uk", startTime: "2026-06-08T09:00:00Z" }),
+    ];
+
+    assert.deepEqual(
+      ids(filterEventsByTimeWindow(events, "Europe/London", "this_week")),
+      ["fri-evening", "sun", "mon-nz"],
+    );
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Pacific/Auckland", "this_week")), ["fri-evening", "sun"]);
+  });
+
+  it("returns only live events for now", () => {
+    setNow("2026-06-01T19:00:00Z");
+    const events = [
+      makeEvent({ id: "live", startTime: "2026-06-01T18:30:00Z", endTime: "2026-06-01T20:00:00Z" }),
+      makeEvent({ id: "later", startTime: "2026-06-01T19:30:00Z" }),
+    ];
+
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/London", "now")), ["live"]);
+  });
+
+  it("applies custom ranges and times of day in the town's timezone", () => {
+    setNow("2026-06-01T09:00:00Z");
+    const events = [
+      // 18:00–20:00 BST.
+      makeEvent({ id: "evening", startTime: "2026-06-06T17:00:00Z" }),
+      makeEvent({ id: "morning", startTime: "2026-06-06T09:00:00Z" }),
+      makeEvent({ id: "other-day", startTime: "2026-06-07T17:00:00Z" }),
+    ];
+    const range = { startDate: "2026-06-06", endDate: "2026-06-06", startMinutes: 18 * 60, endMinutes: 23 * 60 };
+
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/London", "custom", range)), ["evening"]);
+    // The same instants fall at 13:00 and 05:00 in New York.
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "America/New_York", "custom", range)), []);
+  });
+
+  it("carries a custom range past midnight into the small hours", () => {
+    setNow("2026-06-01T09:00:00Z");
+    const events = [
+      // 20:00, 23:00, 01:00 and 03:00 BST.
+      makeEvent({ id: "early-evening", startTime: "2026-06-06T19:00:00Z" }),
+      makeEvent({ id: "late", startTime: "2026-06-06T22:00:00Z" }),
+      makeEvent({ id: "small-hours", startTime: "2026-06-07T00:00:00Z" }),
+      makeEvent({ id: "dawn", startTime: "2026-06-07T02:00:00Z" }),
+    ];
+    const range = { startDate: "2026-06-06", endDate: "2026-06-06", startMinutes: 22 * 60, endMinutes: 26 * 60 };
+
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/London", "custom", range)), ["late", "small-hours"]);
+  });
+});
+
+describe("groupEventsByDay", () => {
+  it("groups by the town's calendar day in start order and skips unparseable times", () => {
+    setNow("2026-06-01T08:00:00Z");
+    const events = [
+      makeEvent({ id: "b", startTime: "2026-06-02T18:00:00Z" }),
+      makeEvent({ id: "a", startTime: "2026-06-01T19:00:00Z" }),
+      makeEvent({ id: "broken", startTime: "soon" }),
+      makeEvent({ id: "c", startTime: "2026-06-03T09:00:00Z" }),
+    ];
+
+    const sections = groupEventsByDay(events, "Europe/London", EN_24H);
+
+    assert.deepEqual(
+      sections.map((section) => [section.id, section.title, ids(section.events)]),
+      [
+        ["2026-06-01", "Today", ["a"]],
+        ["2026-06-02", "Tomorrow", ["b"]],
+        ["2026-06-03", "Wednesday 03 Jun", ["c"]],
+      ],
+    );
+  });
+
+  it("puts the same instant on different days in different towns", () => {
+    setNow("2026-06-01T08:00:00Z");
+    const events = [makeEvent({ id: "midnight", startTime: "2026-06-01T22:30:00Z" })];
+
+    assert.equal(groupEventsByDay(events, "Europe/London", EN_24H)[0].id, "2026-06-01");
+    assert.equal(groupEventsByDay(events, "Europe/Madrid", EN_24H)[0].id, "2026-06-02");
+    assert.equal(groupEventsByDay(events, "America/Los_Angeles", EN_24H)[0].id, "2026-06-01");
+  });
+
+  it("files each event under its own town's day when towns are merged", () => {
+    setNow("2026-06-01T08:00:00Z");
+    // 23:30 in Madrid and 20:30 in New York, both on 1 June locally.
+    const events = [
+      makeEvent({ id: "madrid", startTime: "2026-06-01T21:30:00Z" }),
+      makeEvent({ id: "new-york", startTime: "2026-06-02T00:30:00Z" }),
+    ];
+    const timezoneFor = (event: RaycastEvent) => (event.id === "madrid" ? "Europe/Madrid" : "America/New_York");
+
+    assert.deepEqual(
+      groupEventsByDay(events, timezoneFor, EN_24H).map((section) => [section.id, ids(section.events)]),
+      [["2026-06-01", ["madrid", "new-york"]]],
+    );
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, timezoneFor, "today")), ["madrid", "new-york"]);
+    assert.deepEqual(ids(filterEventsByTimeWindow(events, "Europe/Madrid", "today")), ["madrid"]);
+  });
+
+  it("labels Sunday as tomorrow late on the Saturday before clocks go forward", () => {
+    setNow("2026-03-28T23:30:00Z");
+    const events = [
+      makeEvent({ id: "sun", startTime: "2026-03-29T11:00:00Z" }),
+      makeEvent({ id: "mon", startTime: "2026-03-30T11:00:00Z" }),
+    ];
+
+    assert.deepEqual(
+      groupEventsByDay(events, "Europe/London", EN_24H).map((section) => section.title),
+      ["Tomorrow", "Monday 30 Mar"],
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { appendEventPage, firstIncompleteDayKey, isDayComplete } from "../src/lib/event-pages";
+import { parseRaycastResponse } from "../src/lib/townspot";
+import { RaycastEvent, RaycastResponse } from "../src/types";
+import { ids, makeEvent } from "./support/events";
+import { resetRaycastState } from "./support/raycast-api";
+
+const TOWN = { name: "Kentish Town", slug: "kentish-town", timezone: "Europe/London" };
+
+const listing = (events: RaycastEvent[], nextOffset: number | null): RaycastResponse => ({
+  answer: "",
+  events,
+  town: TOWN,
+  suggestions: [],
+  nextOffset,
+});
+
+beforeEach(() => {
+  resetRaycastState();
+});
+
+describe("parseRaycastResponse paging", () => {
+  const payload = (count: number, extra: Record<string, unknown> = {}) => ({
+    town: TOWN,
+    events: Array.from({ length: count }, (_, index) =>
+      makeEvent({ id: `evt-${index}`, startTime: "2026-06-01T18:00:00Z" }),
+    ),
+    ...extra,
+  });
+
+  it("follows the server's hasMore flag", () => {
+    const page = { offset: 40, limit: 20 };
+
+    assert.equal(parseRaycastResponse(payload(20, { hasMore: true }), "", "", page).nextOffset, 60);
+    assert.equal(parseRaycastResponse(payload(20, { hasMore: false }), "", "", page).nextOffset, null);
+  });
+
+  it("treats a full page as having more when the server doesn't say", () => {
+    assert.equal(parseRaycastResponse(payload(20), "", "", { offset: 0, limit: 20 }).nextOffset, 20);
+    assert.equal(parseRaycastResponse(payload(19), "", "", { offset: 0, limit: 20 }).nextOffset, null);
+  });
+
+  it("stops on an empty page even if the server claims more", () => {
+    const response = parseRaycastResponse(payload(0, { hasMore: true }), "", "", { offset: 20, limit: 20 });
+
+    assert.equal(response.nextOffset, null);
+  });
+});
+
+describe("appendEventPage", () => {
+  it("adds the new events and carries the next offset", () => {
+    const first = listing([makeEvent({ id: "a", startTime: "2026-06-01T18:00:00Z" })], 1);
+    const second = listing(
+      [
+        makeEvent({ id: "a", startTime: "2026-06-01T18:00:00Z" }),
+        makeEvent({ id: "b", startTime: "2026-06-02T18:00:00Z" }),
+      ],
+      3,
+    );
+
+    const merged = appendEventPage(first, second);
+
+    assert.deepEqual(ids(merged.events), ["a", "b"]);
+    assert.equal(merged.nextOffset, 3);
+  });
+
+  it("ends paging when a page repeats what's already listed", () => {
+    const first = listing([makeEvent({ id: "a", startTime: "2026-06-01T18:00:00Z" })], 1);
+
+    assert.equal(appendEventPage(first, first).nextOffset, null);
+  });
+});
+
+describe("firstIncompleteDayKey", () => {
+  it("marks the day of the last loaded event, in the town's timezone, as incomplete", () => {
+    const events = [
+      makeEvent({ id: "mon", startTime: "2026-06-01T18:00:00Z" }),
+      // 00:30 BST on Wednesday.
+      makeEvent({ id: "wed-early", startTime: "2026-06-02T23:30:00Z" }),
+    ];
+
+    const key = firstIncompleteDayKey([listing(events, 2)], "Europe/London");
+
+    assert.equal(key, "2026-06-03");
+    assert.equal(isDayComplete("2026-06-02", key), true);
+    assert.equal(isDayComplete("2026-06-03", key), false);
+    assert.equal(firstIncompleteDayKey([listing(events, 2)], "America/New_York"), "2026-06-02");
+  });
+
+  it("takes the earliest frontier across towns and ignores finished listings", () => {
+    const paging = listing([makeEvent({ id: "tue", startTime: "2026-06-02T18:00:00Z" })], 1);
+    const finished = listing([makeEvent({ id: "fri", startTime: "2026-06-05T18:00:00Z" })], null);
+    const laterPaging = listing([makeEvent({ id: "thu", startTime: "2026-06-04T18:00:00Z" })], 1);
+
+    assert.equal(firstIncompleteDayKey([finished, laterPaging, paging], "Europe/London"), "2026-06-02");
+    assert.equal(firstIncompleteDayKey([finished], "Europe/London"), null);
+    assert.equal(isDayComplete("2026-06-05", null), true);
+  });
+});
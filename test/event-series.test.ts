@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildEventSeries, collapseEventSeries, eventSeriesKey } from "../src/lib/event-series";
+import { ids, makeEvent } from "./support/events";
+
+const NOW_MS = Date.parse("2026-06-01T12:00:00Z");
+
+const quiz = (id: string, startTime: string, tags: string[] = []) =>
+  makeEvent({ id, startTime, title: "Pub Quiz!", venueName: "The Bull", tags });
+
+describe("eventSeriesKey", () => {
+  it("ignores case, accents and punctuation in the title and venue", () => {
+    const a = makeEvent({ id: "a", startTime: "2026-06-01T18:00:00Z", title: "Café Jazz!", venueName: "The Bull" });
+    const b = makeEvent({ id: "b", startTime: "2026-06-08T18:00:00Z", title: "cafe jazz", venueName: "the bull." });
+
+    assert.equal(eventSeriesKey(a), eventSeriesKey(b));
+    assert.equal(eventSeriesKey(makeEvent({ id: "c", startTime: "2026-06-01T18:00:00Z", title: " " })), "");
+  });
+});
+
+describe("buildEventSeries", () => {
+  it("groups upcoming repeats, soonest first, and skips ended and one-off events", () => {
+    const events = [
+      quiz("week-2", "2026-06-09T19:00:00Z", ["Weekly"]),
+      quiz("week-1", "2026-06-02T19:00:00Z"),
+      quiz("last-week", "2026-05-26T19:00:00Z"),
+      makeEvent({ id: "gig", startTime: "2026-06-03T20:00:00Z" }),
+    ];
+
+    const series = Object.values(buildEventSeries(events, NOW_MS));
+
+    assert.equal(series.length, 1);
+    assert.equal(series[0].id, "series:week-1");
+    assert.equal(series[0].frequency, "Weekly");
+    assert.deepEqual(ids(series[0].events), ["week-1", "week-2"]);
+  });
+
+  it("doesn't count the same event twice", () => {
+    const events = [quiz("week-1", "2026-06-02T19:00:00Z"), quiz("week-1", "2026-06-02T19:00:00Z")];
+
+    assert.deepEqual(buildEventSeries(events, NOW_MS), {});
+  });
+});
+
+describe("collapseEventSeries", () => {
+  it("keeps one row per series at its earliest listed occurrence", () => {
+    const events = [
+      makeEvent({ id: "gig", startTime: "2026-06-01T20:00:00Z" }),
+      quiz("week-2", "2026-06-09T19:00:00Z"),
+      quiz("week-1", "2026-06-02T19:00:00Z"),
+      quiz("week-3", "2026-06-16T19:00:00Z"),
+    ];
+    const seriesByKey = buildEventSeries(events, NOW_MS);
+
+    const collapsed = collapseEventSeries(events.slice(0, 2).concat(events[3]), seriesByKey);
+
+    assert.deepEqual(ids(collapsed.events), ["gig", "week-2"]);
+    assert.deepEqual(ids(collapsed.seriesByEventId["week-2"].events), ["week-1", "week-2", "week-3"]);
+  });
+});
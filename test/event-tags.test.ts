@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { splitEventTags } from "../src/lib/event-tags";
+
+describe("splitEventTags", () => {
+  it("separates frequency and price tags from categories", () => {
+    assert.deepEqual(splitEventTags(["Music", "Weekly", "Free", "Jazz"]), {
+      categories: ["Music", "Jazz"],
+      frequency: "Weekly",
+      price: "Free",
+    });
+  });
+
+  it("normalises known tags regardless of case and spacing", () => {
+    assert.deepEqual(splitEventTags(["  one off ", "TICKETED", "Theatre"]), {
+      categories: ["Theatre"],
+      frequency: "One-Off",
+      price: "Paid",
+    });
+    assert.equal(splitEventTags(["Gratis"]).price, "Free");
+  });
+
+  it("keeps the first frequency and price, treating later ones as categories", () => {
+    assert.deepEqual(splitEventTags(["Weekly", "Monthly", "Free", "Paid"]), {
+      categories: ["Monthly", "Paid"],
+      frequency: "Weekly",
+      price: "Free",
+    });
+  });
+
+  it("dedupes categories case-insensitively, keeping the first spelling and order", () => {
+    assert.deepEqual(splitEventTags(["Music", "Kids", "music", " Kids ", "", "Food"]).categories, [
+      "Music",
+      "Kids",
+      "Food",
+    ]);
+  });
+
+  it("copes with missing tags", () => {
+    assert.deepEqual(splitEventTags([]), { categories: [], frequency: null, price: null });
+    assert.deepEqual(splitEventTags(undefined as unknown as string[]), { categories: [], frequency: null, price: null });
+  });
+});
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { dateFormatPreferences, formatDayTitle } from "../src/lib/date-format";
+import { DEFAULT_LOCALE, normalizeLocale } from "../src/lib/i18n";
+import { resetRaycastState, setPreferences } from "./support/raycast-api";
+
+afterEach(() => {
+  resetRaycastState();
+});
+
+describe("normalizeLocale", () => {
+  it("canonicalises the locale preference", () => {
+    assert.equal(normalizeLocale(" es-es "), "es-ES");
+    assert.equal(normalizeLocale("en_GB"), "en-GB");
+    assert.equal(normalizeLocale("ca"), "ca");
+  });
+
+  it("falls back to the default for values Intl would reject", () => {
+    assert.equal(normalizeLocale(""), DEFAULT_LOCALE);
+    assert.equal(normalizeLocale(undefined), DEFAULT_LOCALE);
+    assert.equal(normalizeLocale("English please"), DEFAULT_LOCALE);
+  });
+
+  it("keeps date formatting working with a mistyped preference", () => {
+    setPreferences({ locale: "en GB", clockFormat: "24h" });
+
+    const options = dateFormatPreferences();
+
+    assert.equal(options.locale, DEFAULT_LOCALE);
+    assert.doesNotThrow(() => formatDayTitle(new Date("2026-06-10T12:00:00Z"), "Europe/London", options));
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { LocalStorage } from "@raycast/api";
+import { apiScopedKey } from "../src/lib/api-environment";
+import { findNewEvents, loadSeenEvents, saveSeenEvents } from "../src/lib/new-events";
+import { ids, makeEvent } from "./support/events";
+import { resetRaycastState } from "./support/raycast-api";
+
+const NOW_MS = Date.parse("2026-06-03T10:00:00Z");
+
+beforeEach(() => {
+  resetRaycastState();
+});
+
+describe("saveSeenEvents", () => {
+  it("keeps events seen earlier that this check didn't fetch", async () => {
+    const first = [
+      makeEvent({ id: "a", startTime: "2026-06-05T18:00:00Z" }),
+      makeEvent({ id: "b", startTime: "2026-06-20T18:00:00Z" }),
+    ];
+    await saveSeenEvents("kentish-town", first, null, NOW_MS);
+
+    const previous = await loadSeenEvents("kentish-town");
+    await saveSeenEvents("kentish-town", [first[0]], previous, NOW_MS);
+
+    const reloaded = await loadSeenEvents("kentish-town");
+    assert.deepEqual(findNewEvents(first, reloaded), []);
+  });
+
+  it("forgets events once they've ended", async () => {
+    const past = makeEvent({ id: "past", startTime: "2026-06-01T18:00:00Z", endTime: "2026-06-01T20:00:00Z" });
+    const upcoming = makeEvent({ id: "upcoming", startTime: "2026-06-05T18:00:00Z" });
+    await saveSeenEvents("kentish-town", [past, upcoming], null, Date.parse("2026-05-30T10:00:00Z"));
+
+    const previous = await loadSeenEvents("kentish-town");
+    const record = await saveSeenEvents("kentish-town", [], previous, NOW_MS);
+
+    assert.deepEqual(record.eventIds, ["upcoming"]);
+  });
+
+  it("reads records saved without end times", async () => {
+    await LocalStorage.setItem(
+      apiScopedKey("townspot-seen-events:kentish-town"),
+      JSON.stringify({ townSlug: "kentish-town", eventIds: ["a"], checkedAt: "2026-06-01T10:00:00Z" }),
+    );
+
+    const previous = await loadSeenEvents("kentish-town");
+    const events = [
+      makeEvent({ id: "a", startTime: "2026-06-05T18:00:00Z" }),
+      makeEvent({ id: "b", startTime: "2026-06-06T18:00:00Z" }),
+    ];
+
+    assert.deepEqual(ids(findNewEvents(events, previous)), ["b"]);
+    assert.deepEqual((await saveSeenEvents("kentish-town", events, previous, NOW_MS)).eventIds, ["a", "b"]);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { eventPrice, formatParsedPrice, matchesPriceFilter, ParsedPrice, parsePriceInfo } from "../src/lib/prices";
+import { makeEvent } from "./support/events";
+
+const paid = (min: number | null, max: number | null, currency: string | null): ParsedPrice => ({
+  kind: "paid",
+  min,
+  max,
+  currency,
+});
+
+describe("parsePriceInfo", () => {
+  it("reads amounts, ranges and currencies", () => {
+    assert.deepEqual(parsePriceInfo("£8"), paid(8, 8, "GBP"));
+    assert.deepEqual(parsePriceInfo("£5-10"), paid(5, 10, "GBP"));
+    assert.deepEqual(parsePriceInfo("5,50 €"), paid(5.5, 5.5, "EUR"));
+    assert.deepEqual(parsePriceInfo("From $12"), paid(12, null, "USD"));
+    assert.deepEqual(parsePriceInfo("12"), paid(12, 12, null));
+  });
+
+  it("reads a separator before three digits as thousands", () => {
+    assert.deepEqual(parsePriceInfo("£1,000"), paid(1000, 1000, "GBP"));
+    assert.deepEqual(parsePriceInfo("1.500 €"), paid(1500, 1500, "EUR"));
+    assert.deepEqual(parsePriceInfo("£1,250.50"), paid(1250.5, 1250.5, "GBP"));
+  });
+
+  it("ignores clock times next to prices", () => {
+    assert.deepEqual(parsePriceInfo("£6 before 10pm"), paid(6, 6, "GBP"));
+    assert.deepEqual(parsePriceInfo("Doors 19:00, tickets £15"), paid(15, 15, "GBP"));
+  });
+
+  it("keeps a free option as the cheapest ticket", () => {
+    assert.deepEqual(parsePriceInfo("Free before 10pm, £5 after"), paid(0, 5, "GBP"));
+    assert.ok(matchesPriceFilter(parsePriceInfo("Free before 10pm, £5 after"), 5, "GBP"));
+  });
+
+  it("tells free, donation and unknown prices apart", () => {
+    assert.deepEqual(parsePriceInfo("Entrada libre"), { kind: "free", min: 0, max: 0, currency: null });
+    assert.deepEqual(parsePriceInfo("£0"), { kind: "free", min: 0, max: 0, currency: "GBP" });
+    assert.deepEqual(parsePriceInfo("Pay what you can"), { kind: "donation", min: 0, max: null, currency: null });
+    assert.deepEqual(parsePriceInfo("", false), { kind: "paid", min: null, max: null, currency: null });
+    assert.equal(parsePriceInfo("Tickets on the door"), null);
+  });
+});
+
+describe("eventPrice", () => {
+  it("falls back to the price tags", () => {
+    const event = makeEvent({ id: "a", startTime: "2026-06-01T18:00:00Z", tags: ["Music", "Free"] });
+
+    assert.deepEqual(eventPrice(event, null, null), { kind: "free", min: 0, max: 0, currency: null });
+    assert.deepEqual(eventPrice(event, "£4", null), paid(4, 4, "GBP"));
+  });
+});
+
+describe("matchesPriceFilter", () => {
+  it("compares the cheapest ticket in the town's currency", () => {
+    assert.ok(matchesPriceFilter(parsePriceInfo("£5-20"), 10, "GBP"));
+    assert.ok(!matchesPriceFilter(parsePriceInfo("£12"), 10, "GBP"));
+    assert.ok(!matchesPriceFilter(parsePriceInfo("€5"), 10, "GBP"));
+    assert.ok(!matchesPriceFilter(parsePriceInfo("Donations welcome"), "free", "GBP"));
+    assert.ok(matchesPriceFilter(null, "any", "GBP"));
+    assert.ok(!matchesPriceFilter(null, 20, "GBP"));
+  });
+});
+
+describe("formatParsedPrice", () => {
+  it("formats single prices, ranges and open-ended prices", () => {
+    assert.equal(formatParsedPrice(paid(5, 5, "GBP"), "GBP", "en-GB"), "£5");
+    assert.equal(formatParsedPrice(paid(5, 10, null), "EUR", "en-GB"), "€5–€10");
+    assert.equal(formatParsedPrice(paid(8, null, "GBP"), "GBP", "en-GB"), "£8+");
+  });
+});
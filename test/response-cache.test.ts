@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { loadSeenEvents, saveSeenEvents } from "../src/lib/new-events";
+import {
+  readCachedResponse,
+  readCachedZones,
+  readLatestTownResponse,
+  writeCachedResponse,
+  writeCachedZones,
+} from "../src/lib/response-cache";
+import { RaycastResponse } from "../src/types";
+import { makeEvent } from "./support/events";
+import { resetRaycastState, setPreferences } from "./support/raycast-api";
+
+const KEY = { townSlug: "kentish-town", locale: "en-GB", query: "jazz" };
+
+const RESPONSE: RaycastResponse = {
+  answer: "",
+  events: [makeEvent({ id: "evt-1", startTime: "2026-06-01T18:00:00Z" })],
+  town: { name: "Kentish Town", slug: "kentish-town", timezone: "Europe/London" },
+  suggestions: [],
+};
+
+const ZONE = { id: 1, slug: "kentish-town", name: "Kentish Town", countryCode: "uk" };
+
+beforeEach(() => {
+  resetRaycastState();
+});
+
+describe("API-scoped caches", () => {
+  it("keeps production listings and zones out of other environments", () => {
+    writeCachedResponse(KEY, RESPONSE);
+    writeCachedZones([ZONE]);
+
+    setPreferences({ apiEnvironment: "local" });
+    assert.equal(readCachedResponse(KEY), null);
+    assert.equal(readLatestTownResponse(KEY), null);
+    assert.deepEqual(readCachedZones(), []);
+
+    setPreferences({ apiEnvironment: "prod" });
+    assert.deepEqual(readCachedResponse(KEY)?.response, RESPONSE);
+    assert.deepEqual(readCachedZones(), [ZONE]);
+  });
+
+  it("separates custom base URLs", () => {
+    setPreferences({ apiBaseUrl: "http://localhost:4000/api" });
+    writeCachedResponse(KEY, RESPONSE);
+
+    setPreferences({ apiBaseUrl: "http://localhost:5000/api" });
+    assert.equal(readCachedResponse(KEY), null);
+  });
+
+  it("keeps seen events per environment", async () => {
+    await saveSeenEvents("kentish-town", RESPONSE.events);
+
+    setPreferences({ apiEnvironment: "staging" });
+    assert.equal(await loadSeenEvents("kentish-town"), null);
+  });
+});
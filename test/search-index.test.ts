@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildEventSearchIndex, searchEvents, tokenizeSearchText } from "../src/lib/search-index";
+import { ids, makeEvent } from "./support/events";
+
+const events = [
+  makeEvent({ id: "quiz", startTime: "2026-06-01T19:00:00Z", title: "Pub Quiz", venueName: "The Jazz Cafe" }),
+  makeEvent({ id: "jazz", startTime: "2026-06-01T20:00:00Z", title: "Late Night Jazz", tags: ["Music"] }),
+  makeEvent({ id: "salsa", startTime: "2026-06-01T21:00:00Z", title: "Salsa Class", tags: ["Dance"] }),
+];
+
+const descriptions: Record<string, string> = { salsa: "Beginners welcome, partner not needed" };
+
+const search = (query: string) =>
+  ids(searchEvents(buildEventSearchIndex(events, (event) => descriptions[event.id] || ""), query).map(({ event }) => event));
+
+describe("tokenizeSearchText", () => {
+  it("folds accents and splits on punctuation", () => {
+    assert.deepEqual(tokenizeSearchText("  Música, en   directo! "), ["musica", "en", "directo"]);
+  });
+});
+
+describe("searchEvents", () => {
+  it("ranks title matches above venue matches", () => {
+    assert.deepEqual(search("jazz"), ["jazz", "quiz"]);
+  });
+
+  it("matches prefixes, typos, tags and descriptions", () => {
+    assert.deepEqual(search("sals"), ["salsa"]);
+    assert.deepEqual(search("salsq"), ["salsa"]);
+    assert.deepEqual(search("dance"), ["salsa"]);
+    assert.deepEqual(search("beginners"), ["salsa"]);
+  });
+
+  it("needs every term to match", () => {
+    assert.deepEqual(search("jazz quiz"), ["quiz"]);
+    assert.deepEqual(search("jazz tango"), []);
+  });
+
+  it("returns everything in listing order for an empty query", () => {
+    assert.deepEqual(search("  "), ["quiz", "jazz", "salsa"]);
+  });
+});
@@ -0,0 +1,16 @@
+import { DateFormatOptions } from "../../src/lib/date-format";
+import { RaycastEvent } from "../../src/types";
+
+export const EN_24H: DateFormatOptions = { locale: "en-GB", clock: "24h" };
+
+export const makeEvent = (overrides: Partial<RaycastEvent> & Pick<RaycastEvent, "id" | "startTime">): RaycastEvent => ({
+  title: `Event ${overrides.id}`,
+  endTime: null,
+  venueName: "Town Hall",
+  startLabel: "",
+  tags: [],
+  url: `https://townspot.co/event/${overrides.id}`,
+  ...overrides,
+});
+
+export const ids = (events: RaycastEvent[]): string[] => events.map((event) => event.id);
@@ -0,0 +1,215 @@
+import { readFileSync } from "node:fs";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import path from "node:path";
+
+const FIXTURES_DIR = path.join(__dirname, "..", "fixtures");
+
+export const readFixture = <T = unknown>(name: string): T =>
+  JSON.parse(readFileSync(path.join(FIXTURES_DIR, name), "utf8")) as T;
+
+const fixtureExists = (name: string): boolean => {
+  try {
+    readFileSync(path.join(FIXTURES_DIR, name));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+};
+
+type MatchZoneFixture = {
+  lat: number;
+  lng: number;
+  zone: { slug: string; name: string };
+};
+
+export type MockTownSpotServer = {
+  // Origin of the server, e.g. http://127.0.0.1:51234
+  origin: string;
+  // What the extension uses as its API base URL.
+  apiBaseUrl: string;
+  requests: RecordedRequest[];
+  // Answers the next `times` requests to `pathname` with `status` before serving fixtures again.
+  failNext: (pathname: string, status: number, times?: number) => void;
+  // Answers the next request to `pathname` with `payload` instead of the fixture.
+  respondNext: (pathname: string, payload: unknown) => void;
+  // Holds responses to `pathname` for `ms`, to exercise timeouts.
+  delay: (pathname: string, ms: number) => void;
+  reset: () => void;
+  close: () => Promise<void>;
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown): void => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+};
+
+const readBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Serves the recorded fixtures in test/fixtures the way the TownSpot API would.
+const route = (request: RecordedRequest): { status: number; payload: unknown } => {
+  const { method, path: pathname, query, body } = request;
+
+  if (method === "POST" && pathname === "/api/raycast/query") {
+    const townSlug = String((body as { townSlug?: string } | null)?.townSlug || "");
+    const fixture = `query-${townSlug}.json`;
+    if (!townSlug || !fixtureExists(fixture)) {
+      return { status: 404, payload: { error: `Unknown town: ${townSlug}` } };
+    }
+    // Pages through the recorded events the way the API honours `offset` and `limit`.
+    const listing = readFixture<{ events: unknown[] }>(fixture);
+    const { offset = 0, limit = listing.events.length } = body as { offset?: number; limit?: number };
+    return {
+      status: 200,
+      payload: {
+        ...listing,
+        events: listing.events.slice(offset, offset + limit),
+        hasMore: offset + limit < listing.events.length,
+      },
+    };
+  }
+
+  if (method === "GET" && pathname === "/api/events/get") {
+    const details = readFixture<Record<string, unknown>>("event-details.json")[query.eventUuid || ""];
+    return details
+      ? { status: 200, payload: details }
+      : { status: 404, payload: { error: "Event not found" } };
+  }
+
+  if (method === "GET" && (pathname === "/api/locations/list" || pathname === "/api/list")) {
+    const zones = readFixture<{ hidden?: boolean }[]>("zones.json");
+    const includeHidden = query.includeHidden === "true";
+    return { status: 200, payload: includeHidden ? zones : zones.filter((zone) => !zone.hidden) };
+  }
+
+  if (method === "GET" && pathname === "/api/places/match-zone") {
+    const lat = Number(query.lat);
+    const lng = Number(query.lng);
+    const match = readFixture<MatchZoneFixture[]>("match-zone.json").find(
+      (entry) => Math.abs(entry.lat - lat) < 0.01 && Math.abs(entry.lng - lng) < 0.01,
+    );
+    return { status: 200, payload: { zone: match ? match.zone : null } };
+  }
+
+  if (method === "GET" && pathname === "/api/places/geocode") {
+    const place = readFixture<Record<string, unknown>>("geocode.json")[(query.q || "").trim().toLowerCase()];
+    return place
+      ? { status: 200, payload: place }
+      : { status: 404, payload: { code: "address_not_found", error: "Address not found" } };
+  }
+
+  if (method === "POST" && pathname === "/api/waitlist") {
+    const email = String((body as { email?: string } | null)?.email || "");
+    if (!email.includes("@")) {
+      return { status: 400, payload: { message: "Enter a valid email address." } };
+    }
+    return { status: 201, payload: { ok: true } };
+  }
+
+  // Stands in for https://ipapi.co/json/ via `redirectExternalFetch`.
+  if (method === "GET" && pathname === "/ipapi/json/") {
+    return { status: 200, payload: readFixture("ipapi.json") };
+  }
+
+  return { status: 404, payload: { error: "Not found" } };
+};
+
+export const startMockServer = async (): Promise<MockTownSpotServer> => {
+  const requests: RecordedRequest[] = [];
+  const failures = new Map<string, { status: number; times: number }>();
+  const delays = new Map<string, number>();
+  const responses = new Map<string, unknown>();
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const request: RecordedRequest = {
+      method: req.method || "GET",
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      body: await readBody(req),
+    };
+    requests.push(request);
+
+    const delayMs = delays.get(request.path);
+    if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    const failure = failures.get(request.path);
+    if (failure && failure.times > 0) {
+      failure.times -= 1;
+      sendJson(res, failure.status, { error: `Injected ${failure.status}` });
+      return;
+    }
+
+    if (responses.has(request.path)) {
+      const payload = responses.get(request.path);
+      responses.delete(request.path);
+      sendJson(res, 200, payload);
+      return;
+    }
+
+    const { status, payload } = route(request);
+    sendJson(res, status, payload);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const origin = `http://127.0.0.1:${port}`;
+
+  return {
+    origin,
+    apiBaseUrl: `${origin}/api`,
+    requests,
+    failNext: (pathname, status, times = 1) => {
+      failures.set(pathname, { status, times });
+    },
+    respondNext: (pathname, payload) => {
+      responses.set(pathname, payload);
+    },
+    delay: (pathname, ms) => {
+      delays.set(pathname, ms);
+    },
+    reset: () => {
+      requests.length = 0;
+      failures.clear();
+      delays.clear();
+      responses.clear();
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
+
+// Sends requests for third-party hosts (IP geolocation) to the mock server, so nothing leaves the machine.
+export const redirectExternalFetch = (server: MockTownSpotServer): (() => void) => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    if (url.startsWith("https://ipapi.co/")) {
+      return originalFetch(`${server.origin}/ipapi${url.slice("https://ipapi.co".length)}`, init);
+    }
+    return originalFetch(input, init);
+  };
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+};
@@ -0,0 +1,59 @@
+// In-memory stand-ins for the parts of @raycast/api that src/lib uses, so it can run under plain Node.
+
+let preferences: Record<string, unknown> = {};
+
+export const setPreferences = (values: Record<string, unknown>): void => {
+  preferences = { ...values };
+};
+
+export const getPreferenceValues = <T>(): T => preferences as T;
+
+export const environment = {
+  extensionName: "townspot",
+  ownerOrAuthorName: "townspot",
+  launchType: "userInitiated",
+};
+
+const storage = new Map<string, string>();
+
+export const LocalStorage = {
+  getItem: async <T = string>(key: string): Promise<T | undefined> => storage.get(key) as T | undefined,
+  setItem: async (key: string, value: string | number | boolean): Promise<void> => {
+    storage.set(key, String(value));
+  },
+  removeItem: async (key: string): Promise<void> => {
+    storage.delete(key);
+  },
+  clear: async (): Promise<void> => {
+    storage.clear();
+  },
+};
+
+const caches: Map<string, string>[] = [];
+
+export class Cache {
+  private readonly entries = new Map<string, string>();
+
+  constructor() {
+    caches.push(this.entries);
+  }
+
+  get(key: string): string | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+// Resets LocalStorage, every Cache and the preferences between tests.
+export const resetRaycastState = (): void => {
+  storage.clear();
+  for (const entries of caches) entries.clear();
+  preferences = {};
+};
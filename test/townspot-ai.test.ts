@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ActiveTown, buildTownspotAiPrompt, ConversationTurn, inferTownFromQuery } from "../src/lib/townspot-ai";
+import { EN_24H, makeEvent } from "./support/events";
+
+const TOWNS: ActiveTown[] = [
+  { id: 1, name: "Kentish Town", slug: "kentish-town" },
+  { id: 2, name: "Camden", slug: "camden" },
+  { id: 3, name: "Camden Town", slug: "camden-town" },
+  { id: 4, name: "Gràcia", slug: "gracia" },
+];
+
+describe("inferTownFromQuery", () => {
+  it("matches town names without regard to case or accents", () => {
+    assert.equal(inferTownFromQuery("what's on in KENTISH TOWN tonight?", TOWNS)?.slug, "kentish-town");
+    assert.equal(inferTownFromQuery("concerts a gracia aquest cap de setmana", TOWNS)?.slug, "gracia");
+    assert.equal(inferTownFromQuery("Què fem a Gràcia?", TOWNS)?.slug, "gracia");
+  });
+
+  it("matches slugs typed with hyphens", () => {
+    assert.equal(inferTownFromQuery("events in camden-town", TOWNS)?.slug, "camden-town");
+  });
+
+  it("prefers the longest matching name", () => {
+    assert.equal(inferTownFromQuery("markets in camden town", TOWNS)?.slug, "camden-town");
+    assert.equal(inferTownFromQuery("markets in camden", TOWNS)?.slug, "camden");
+  });
+
+  it("only matches whole words", () => {
+    assert.equal(inferTownFromQuery("camdenish vibes", TOWNS), null);
+    assert.equal(inferTownFromQuery("", TOWNS), null);
+    assert.equal(inferTownFromQuery("live music tonight", TOWNS), null);
+  });
+});
+
+describe("buildTownspotAiPrompt", () => {
+  const events = [
+    makeEvent({
+      id: "jazz",
+      title: "Late  Jazz\nJam",
+      // 01:30 UTC on the night the clocks go forward: 02:30 BST in London, 03:30 CEST in Madrid.
+      startTime: "2026-03-29T01:30:00Z",
+      venueName: "The Forum",
+      tags: ["Music", "Jazz"],
+    }),
+    makeEvent({ id: "market", title: "Farmers' Market", startTime: "2026-03-29T09:00:00Z", venueName: "", tags: [] }),
+  ];
+
+  it("numbers the verified events and formats times in the town's timezone", () => {
+    const prompt = buildTownspotAiPrompt({
+      query: "  anything   on tonight? ",
+      townName: "Kentish Town",
+      apiAnswer: "I found 2 events.",
+      events,
+      timezone: "Europe/London",
+      dateFormat: EN_24H,
+    });
+
+    assert.match(prompt, /^User query: anything on tonight\?$/m);
+    assert.match(prompt, /^Town: Kentish Town$/m);
+    assert.match(prompt, /^TownSpot API summary: I found 2 events\.$/m);
+    assert.match(prompt, /^\[1\] Late Jazz Jam \| .*02:30 \| The Forum \| Music, Jazz \| https:\/\/townspot\.co\/event\/jazz$/m);
+    assert.match(prompt, /^\[2\] Farmers' Market \| .*10:00 \| Venue unknown \| No tags \| /m);
+    assert.match(prompt, /^Reply in English,/m);
+  });
+
+  it("shifts the same listing into another town's timezone and language", () => {
+    const prompt = buildTownspotAiPrompt({
+      query: "jazz",
+      townName: "Gràcia",
+      apiAnswer: "",
+      events: events.slice(0, 1),
+      timezone: "Europe/Madrid",
+      dateFormat: { locale: "es-ES", clock: "24h" },
+    });
+
+    assert.match(prompt, /^\[1\] Late Jazz Jam \| .*03:30 \| /m);
+    assert.match(prompt, /^Reply in Spanish,/m);
+    assert.match(prompt, /^TownSpot API summary: No summary provided\.$/m);
+  });
+
+  it("uses the 12-hour clock when asked", () => {
+    const prompt = buildTownspotAiPrompt({
+      query: "jazz",
+      townName: "Kentish Town",
+      apiAnswer: "",
+      events: events.slice(0, 1),
+      timezone: "Europe/London",
+      dateFormat: { locale: "en-GB", clock: "12h" },
+    });
+
+    assert.match(prompt, /^\[1\] Late Jazz Jam \| .*2:30\s?am \| /im);
+  });
+
+  it("says so when there are no verified events", () => {
+    const prompt = buildTownspotAiPrompt({
+      query: "opera",
+      townName: "",
+      apiAnswer: "",
+      events: [],
+      timezone: "Europe/London",
+      dateFormat: EN_24H,
+    });
+
+    assert.match(prompt, /^Town: your town$/m);
+    assert.match(prompt, /^Verified events:\nNo verified events were returned\.$/m);
+  });
+
+  it("includes only the last three turns of history, unnumbered and in their own timezones", () => {
+    const turn = (prompt: string, timezone: string): ConversationTurn => ({
+      prompt,
+      town: TOWNS[0],
+      timezone,
+      answer: `Answer to ${prompt}`,
+      events: [events[0]],
+    });
+    const history = [
+      turn("first", "Europe/London"),
+      turn("second", "Europe/London"),
+      turn("third", "Europe/Madrid"),
+      turn("fourth", "Europe/London"),
+    ];
+
+    const prompt = buildTownspotAiPrompt({
+      query: "fifth",
+      townName: "Kentish Town",
+      apiAnswer: "",
+      events: [],
+      timezone: "Europe/London",
+      history,
+      dateFormat: EN_24H,
+    });
+
+    assert.doesNotMatch(prompt, /Earlier query \d+: first/);
+    assert.match(prompt, /^Earlier query 1: second$/m);
+    assert.match(prompt, /^Earlier query 2: third$/m);
+    assert.match(prompt, /^Earlier query 3: fourth$/m);
+    assert.match(prompt, /^- Late Jazz Jam \| .*03:30 \| /m);
+    assert.doesNotMatch(prompt, /^\[\d+\] Late Jazz Jam/m);
+  });
+});